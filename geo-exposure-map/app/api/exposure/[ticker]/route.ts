@@ -0,0 +1,26 @@
+import path from "node:path";
+import { NextResponse } from "next/server";
+import { readPayload } from "../../../../lib/artifact-store";
+import { ARTIFACT_DIR } from "../../../../lib/artifacts";
+import { PROFILES, profileByTicker } from "../../../../lib/profiles";
+
+// Static export requires route handlers to be static; precompute once per build and profile.
+export const dynamic = "force-static";
+export const dynamicParams = false;
+export const revalidate = 86_400; // revalidate daily
+
+export function generateStaticParams() {
+  return PROFILES.map((p) => ({ ticker: p.ticker }));
+}
+
+export async function GET(_req: Request, { params }: { params: Promise<{ ticker: string }> }) {
+  const { ticker } = await params;
+  const profile = profileByTicker(ticker);
+  if (!profile) return NextResponse.json({ error: `unknown ticker ${ticker}` }, { status: 404 });
+
+  // Serves the payload `npm run precompute` wrote (it honours EXPOSURE_SNAPSHOT_DIR and
+  // EXPOSURE_MODEL_CONFIG); geometry ships separately as TopoJSON under /data.
+  const data = await readPayload(path.join(process.cwd(), "public", ARTIFACT_DIR), profile.ticker);
+  if (!data) return NextResponse.json({ error: `no precomputed payload for ${ticker}` }, { status: 404 });
+  return NextResponse.json(data);
+}
@@ -1,128 +1,134 @@
 "use client";
-/* eslint-disable @next/next/no-img-element */
 
-import React, { useEffect, useMemo, useState } from "react";
-import { geoNaturalEarth1, geoPath } from "d3-geo";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { geoCentroid, geoPath } from "d3-geo";
 import type { Feature, Geometry } from "geojson";
 import Image from "next/image";
-import { buildExposureData, type ApiPayload } from "../lib/exposure-core";
+import ColorLegend, { classLabel } from "../components/ColorLegend";
+import ComparePanel from "../components/ComparePanel";
+import ExportMenu from "../components/ExportMenu";
+import CoverageWarning from "../components/CoverageWarning";
+import DegradedInputsWarning from "../components/DegradedInputsWarning";
+import FactorWaterfall from "../components/FactorWaterfall";
+import GeoDiagnosticsOverlay from "../components/GeoDiagnosticsOverlay";
+import InfoTip from "../components/InfoTip";
+import MapControls from "../components/MapControls";
+import MapDataTable from "../components/MapDataTable";
+import MethodNotes from "../components/MethodNotes";
+import MoversTable from "../components/MoversTable";
+import PortfolioContributions from "../components/PortfolioContributions";
+import PortfolioPanel from "../components/PortfolioPanel";
+import RankingTable, { type RankingRow } from "../components/RankingTable";
+import ScenarioPanel from "../components/ScenarioPanel";
+import SegmentSummary from "../components/SegmentSummary";
+import Sparkline from "../components/Sparkline";
+import { fmtCurrency, fmtPct, fmtPopulation, fmtRev } from "../components/format";
+import { useCompare } from "../components/useCompare";
+import { useLinkState } from "../components/useLinkState";
+import { NO_DATA_FILL, useMapColors } from "../components/useMapColors";
+import { useMapKeyboard } from "../components/useMapKeyboard";
+import { useModelInputs } from "../components/useModelInputs";
+import { usePortfolio } from "../components/usePortfolio";
+import { useScenarioPayload, useScenarios } from "../components/useScenarios";
+import {
+  ArtifactError,
+  fetchArtifact,
+  fetchGeometry,
+  fetchManifest,
+  geometryForZoom,
+  type LoadedArtifacts,
+} from "../lib/artifacts";
+import type { ApiPayload, Attribution, RevenueBasis, UncertaintyRange } from "../lib/exposure-core";
+import { DEFAULT_CLASSIFY } from "../lib/classify";
+import { formatMetric, METRICS, type MetricId } from "../lib/metrics";
+import { exportRows } from "../lib/export";
+import { isoIndex } from "../lib/iso-reconcile";
+import { exportableMapMarkup, standaloneMapSvg, type MapLegend } from "../lib/map-export";
+import {
+  FULL_VIEW,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  PROJECTIONS,
+  fitView,
+  makeProjection,
+  panView,
+  viewAt,
+  viewCenter,
+  zoomOf,
+  zoomView,
+  type ArrowDirection,
+  type MapView,
+  type ProjectionId,
+  type Rotation,
+} from "../lib/map-view";
+import { hashModelConfig } from "../lib/model-config";
+import { DEFAULT_PROFILE, PROFILES, profileByTicker } from "../lib/profiles";
+import { BASELINE_SCENARIO_NAME, baselineScenario } from "../lib/scenario";
 
 type GeoFeature = Feature<Geometry, Record<string, unknown>>;
 
-type CountryDetail = {
-  iso3: string;
-  name: string;
-  region: string;
-  revenueMillions: number;
-  share: number;
-  population: number | null;
-  flagUrl: string | null;
-   gdpCurrentUsd: number | null;
-   gdpYear: number | null;
-};
+type CountryDetail = ApiPayload["countryDetails"][number];
+
+const PLAY_STEP_MS = 900;
+// Shapes smaller than this on screen (viewBox units at the current zoom) get a marker.
+const TINY_SHAPE_SIZE = 12;
+const DRAG_THRESHOLD_PX = 3;
+const GLOBE_START: Rotation = [15, 25];
+const ARROW_KEYS: Record<string, ArrowDirection> = { ArrowLeft: "left", ArrowRight: "right", ArrowUp: "up", ArrowDown: "down" };
 
 const NAME_OVERRIDES: Record<string, string> = {
   FRA: "France",
   NOR: "Norway",
 };
 
-const NAME_TO_ISO_OVERRIDES: Record<string, string> = {
-  France: "FRA",
-  FRANCE: "FRA",
-  Norvège: "NOR",
-  Norway: "NOR",
-  NORWAY: "NOR",
-  "UNITED KINGDOM": "GBR",
-  "GREAT BRITAIN": "GBR",
-  "U.K.": "GBR",
-  UK: "GBR",
-  BRITAIN: "GBR",
-  "UNITED STATES": "USA",
-  "UNITED STATES OF AMERICA": "USA",
-  USA: "USA",
-  "U.S.": "USA",
-  US: "USA",
-  "UNITED ARAB EMIRATES": "ARE",
-  UAE: "ARE",
-  "SAUDI ARABIA": "SAU",
-  KSA: "SAU",
-};
-
 const BG = "#05090d";
 const PANEL = "#0b1118";
 const BORDER = "#16202b";
 const BASE = "/FactSet_Revenue_by_Country";
 const HEADSHOT_SRC = `${BASE}/headshot.jpg`;
 const LOGO_SRC = `${BASE}/factset_logo.png`;
+const UNMATCHED_FILL = "#111827";
+// Keyboard focus ring on the map; amber stands out against every palette.
+const FOCUS_RING = "#fbbf24";
 
 function clamp01(x: number) {
   return Math.max(0, Math.min(1, x));
 }
 
-function colorFor(v: number, maxShare: number) {
-  // enhance sensitivity: normalize by max share and apply gamma
-  const norm = maxShare > 0 ? v / maxShare : 0;
-  const t = Math.pow(clamp01(norm), 0.35); // gamma < 1 to boost small values
-  // brand-forward ramp: deep navy -> FactSet blue -> aqua
-  const start = [10, 25, 40];
-  const mid = [0, 174, 239]; // FactSet blue
-  const end = [120, 230, 255];
-  const mix = (a: number[], b: number[], f: number) => a.map((v, i) => Math.round(v + (b[i] - v) * f));
-  const midMix = mix(start, mid, t * 0.7);
-  const finalMix = mix(midMix, end, Math.pow(t, 1.2));
-  return `rgb(${finalMix[0]},${finalMix[1]},${finalMix[2]})`;
-}
-
-function iso3FromFeature(f: GeoFeature): string | undefined {
-  const props = f.properties || {};
-  const nmRaw =
-    (props["name"] as string | undefined) ||
-    (props["NAME"] as string | undefined) ||
-    (props["NAME_LONG"] as string | undefined);
-  if (nmRaw) {
-    const nm = nmRaw.trim();
-    if (NAME_TO_ISO_OVERRIDES[nm]) return NAME_TO_ISO_OVERRIDES[nm];
-    if (NAME_TO_ISO_OVERRIDES[nm.toUpperCase()]) return NAME_TO_ISO_OVERRIDES[nm.toUpperCase()];
-  }
-  return (
-    (props["id"] as string | undefined)?.toUpperCase() ||
-    (props["ISO3166-1-Alpha-3"] as string | undefined) ||
-    (props["ISO_A3"] as string | undefined) ||
-    (props["iso_a3"] as string | undefined) ||
-    (props["adm0_a3"] as string | undefined) ||
-    undefined
-  );
+// Confidence styling: fade countries whose p10–p90 band is wide relative to the median.
+function confidenceOpacity(range: UncertaintyRange | undefined) {
+  if (!range) return 1;
+  const { p10, p50, p90 } = range.revenueMillions;
+  const relWidth = p50 > 0 ? (p90 - p10) / p50 : 1;
+  return 0.35 + 0.65 * (1 - clamp01(relWidth));
 }
 
-const fmtRev = (millions: number) => {
-  if (millions >= 1000) {
-    const b = millions / 1000;
-    return `${new Intl.NumberFormat("en-US", { maximumFractionDigits: b >= 10 ? 1 : 2 }).format(b)}B`;
-  }
-  return `${new Intl.NumberFormat("en-US", { maximumFractionDigits: millions >= 10 ? 1 : 2 }).format(millions)}M`;
-};
-const fmtPopulation = (v: number | null) =>
-  v == null ? "n/a" : new Intl.NumberFormat("en-US", { notation: "compact" }).format(v);
-const fmtCurrency = (v: number | null) =>
-  v == null
-    ? "n/a"
-    : new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 }).format(v);
-
 export default function Page() {
-  const [countries, setCountries] = useState<GeoFeature[]>([]);
-  const [intensity, setIntensity] = useState<Record<string, number>>({});
-  const [details, setDetails] = useState<Record<string, CountryDetail>>({});
-  const [names, setNames] = useState<Record<string, string>>({});
+  const [artifacts, setArtifacts] = useState<LoadedArtifacts | null>(null);
   const [hoverIso3, setHoverIso3] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [metaNote, setMetaNote] = useState<string>("");
-  const [maxShare, setMaxShare] = useState<number>(1);
+  const [ticker, setTicker] = useState<string>(DEFAULT_PROFILE.ticker);
+  const profile = profileByTicker(ticker) ?? DEFAULT_PROFILE;
+  const segmentLabels = profile.segments.map((s) => s.label).join(", ");
+  const [yearChoice, setYear] = useState<number | null>(null);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [showConfidence, setShowConfidence] = useState<boolean>(false);
+  const [focusSegment, setFocusSegment] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState<boolean>(false);
-  const [showFullMethod, setShowFullMethod] = useState<boolean>(false);
+  const [showGeoDiagnostics, setShowGeoDiagnostics] = useState<boolean>(false);
   const [search, setSearch] = useState<string>("");
   const [searchIso, setSearchIso] = useState<string | null>(null);
+  const [focusIso3, setFocusIso3] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [loadProgress, setLoadProgress] = useState<number>(8);
+  const [projectionId, setProjectionId] = useState<ProjectionId>("naturalEarth");
+  const [rotation, setRotation] = useState<Rotation>(GLOBE_START);
+  const [view, setView] = useState<MapView>(FULL_VIEW);
+  // Decoded TopoJSON by artifact file; finer resolutions load on demand as the map zooms.
+  const [geometry, setGeometry] = useState<Record<string, GeoFeature[]>>({});
+  const geometryRequests = useRef(new Set<string>());
+  const gesture = useRef<{ pointers: Map<number, [number, number]>; travel: number }>({ pointers: new Map(), travel: 0 });
+  const mapRef = useRef<SVGSVGElement>(null);
 
   const applySearch = (val: string) => {
     setSearch(val);
@@ -132,9 +138,9 @@ export default function Page() {
       setHoverIso3(null);
       return;
     }
-    // Direct alias mapping (e.g., UK -> GBR)
-    if (NAME_TO_ISO_OVERRIDES[term]) {
-      const iso = NAME_TO_ISO_OVERRIDES[term];
+    // Direct name or alias match (e.g., UK -> GBR)
+    const iso = searchIndex.byName(term);
+    if (iso) {
       if (details[iso]) {
         setSearchIso(iso);
         setHoverIso3(iso);
@@ -160,101 +166,548 @@ export default function Page() {
     }
   };
 
+  // Load the build-time artifacts for the profile (lib/artifacts.ts); the page makes no
+  // third-party requests. First paint needs only the manifest, the published payload and the
+  // coarsest geometry; the larger inputs artifact waits until something re-scores.
   useEffect(() => {
+    let cancelled = false;
     async function load() {
       setError(null);
       setIsLoading(true);
-      const timer = setInterval(() => {
-        setLoadProgress((p) => (p >= 95 ? 95 : p + 7));
-      }, 250);
+      setLoadProgress(8);
       try {
-        const j = await buildExposureData();
-        const normIntensity: Record<string, number> = {};
-        for (const [k, v] of Object.entries(j.iso3ToIntensity || {})) {
-          normIntensity[k.toUpperCase()] = v;
-        }
-        setIntensity(normIntensity);
-        setMaxShare(j.maxShare || 1);
-        const map: Record<string, CountryDetail> = {};
-        for (const d of j.countryDetails || []) {
-          const iso = d.iso3.toUpperCase();
-          map[iso] = { ...d, iso3: iso, name: NAME_OVERRIDES[iso] ?? d.name };
-        }
-        setDetails(map);
-        const feats = (j.geo?.features as GeoFeature[] | undefined) || [];
-        setCountries(feats);
-        const nameMap: Record<string, string> = {};
-        for (const f of feats) {
-          const iso3 = iso3FromFeature(f)?.toUpperCase();
-          const nm = (f.properties?.["name"] as string | undefined) || (f.properties?.["NAME"] as string | undefined);
-          if (iso3) nameMap[iso3] = NAME_OVERRIDES[iso3] ?? nm ?? iso3;
-        }
-        setNames(nameMap);
-        setMetaNote(j.meta?.note || "");
-        setLoadProgress(100);
+        const manifest = await fetchManifest(BASE);
+        const entry = manifest.profiles[profile.ticker];
+        if (!entry) throw new ArtifactError(`no data artifacts for ${profile.ticker}; run npm run precompute`);
+        let done = 0;
+        const track = <T,>(pending: Promise<T>) =>
+          pending.then((value) => {
+            done += 1;
+            if (!cancelled) setLoadProgress(25 + done * 35);
+            return value;
+          });
+        const coarse = geometryForZoom(manifest, 1);
+        const [basePayload, { features, neighbors }] = await Promise.all([
+          track(fetchArtifact<ApiPayload>(BASE, entry.payload)),
+          track(fetchGeometry(BASE, coarse)),
+        ]);
+        if (cancelled) return;
+        setArtifacts({ manifest, payload: basePayload, features, neighbors });
+        setGeometry((g) => ({ ...g, [coarse.file]: features }));
+        setPlaying(false);
       } catch (e) {
         console.error(e);
-        setError("Failed to load data");
-        setLoadProgress(100);
+        if (cancelled) return;
+        setArtifacts(null);
+        setError(`Failed to load data: ${e instanceof Error ? e.message : String(e)}`);
       } finally {
-        clearInterval(timer);
-        setIsLoading(false);
+        if (!cancelled) {
+          setLoadProgress(100);
+          setIsLoading(false);
+        }
       }
     }
     load();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+
+  const scenarios = useScenarios(profile);
+  const { scenario, baseline } = scenarios;
+
+  // Scenarios, portfolios and comparisons re-score the inputs artifact, as does a build whose
+  // published payloads came from another model than this page's baseline.
+  const staleBaseline = artifacts != null && artifacts.manifest.model.hash !== hashModelConfig(baseline.config);
+  const modelInputs = useModelInputs(BASE, artifacts, profile.ticker, scenarios.label != null || staleBaseline);
+  const { inputs } = modelInputs;
+  const computed = useScenarioPayload({
+    artifacts,
+    profile,
+    inputs,
+    inputsError: modelInputs.error,
+    scenario,
+    label: scenarios.label,
+    baseline,
+    staleBaseline,
+  });
+  const { payload, deferredScenario, deferredLabel } = computed;
+  const loadError = error ?? computed.error;
+
+  const zoom = zoomOf(view);
+  const wantedGeometry = artifacts ? geometryForZoom(artifacts.manifest, zoom) : null;
+  useEffect(() => {
+    if (!wantedGeometry || geometryRequests.current.has(wantedGeometry.file)) return;
+    geometryRequests.current.add(wantedGeometry.file);
+    fetchGeometry(BASE, wantedGeometry)
+      .then(({ features }) => setGeometry((g) => ({ ...g, [wantedGeometry.file]: features })))
+      .catch((e) => console.error(e)); // keep drawing the coarser resolution
+  }, [wantedGeometry]);
+  const countries = useMemo(
+    () => (wantedGeometry && geometry[wantedGeometry.file]) ?? artifacts?.features ?? [],
+    [wantedGeometry, geometry, artifacts],
+  );
+  // ISO3 per feature, resolved at build time (lib/iso-reconcile.ts) and carried as the
+  // TopoJSON id; null for unmatched geometry.
+  const featureIso3 = useMemo(() => countries.map((f) => (typeof f.id === "string" ? f.id : null)), [countries]);
+  const searchIndex = useMemo(() => isoIndex(artifacts?.payload.countryDetails ?? []), [artifacts]);
+  // Emoji flags from ISO alpha-2, so the hover panel needs no flag images from a CDN.
+  const flags = useMemo(
+    () =>
+      Object.fromEntries(
+        (artifacts?.payload.countryDetails ?? []).flatMap((c) =>
+          c.alpha2 && /^[A-Z]{2}$/.test(c.alpha2)
+            ? [[c.iso3, String.fromCodePoint(...[...c.alpha2].map((ch) => 0x1f1a5 + ch.charCodeAt(0)))]]
+            : [],
+        ),
+      ) as Record<string, string>,
+    [artifacts],
+  );
+  const names = useMemo(() => {
+    const nameMap: Record<string, string> = {};
+    for (const [i, f] of countries.entries()) {
+      const iso3 = featureIso3[i];
+      const nm = (f.properties?.["name"] as string | undefined) || (f.properties?.["NAME"] as string | undefined);
+      if (iso3) nameMap[iso3] = NAME_OVERRIDES[iso3] ?? nm ?? iso3;
+    }
+    return nameMap;
+  }, [countries, featureIso3]);
+  const details = useMemo(() => {
+    const map: Record<string, CountryDetail> = {};
+    for (const d of payload?.countryDetails ?? []) {
+      const iso = d.iso3.toUpperCase();
+      map[iso] = { ...d, iso3: iso, name: NAME_OVERRIDES[iso] ?? d.name };
+    }
+    return map;
+  }, [payload]);
+  const years = useMemo(() => payload?.years ?? [], [payload]);
+  const year = yearChoice != null && years.includes(yearChoice) ? yearChoice : (payload?.fiscalYear ?? null);
+  const metaNote = payload?.meta.note ?? "";
+  const model = payload?.meta.model ?? null;
+
+  const portfolioMode = usePortfolio({
+    inputs,
+    year,
+    config: deferredScenario.config,
+    requestInputs: modelInputs.request,
+    onLoad: () => {
+      colors.setColorMode("share");
+      drillSegment(null);
+    },
+  });
+  const portfolio = portfolioMode.portfolio;
+
+  const compare = useCompare({
+    profile,
+    payload,
+    year,
+    label: deferredLabel,
+    inputs,
+    baseline,
+    saved: scenarios.saved,
+    portfolio,
+    requestInputs: modelInputs.request,
+  });
+  const diff = compare.diff;
+
+  useEffect(() => {
+    if (!playing || years.length < 2) return;
+    const timer = setInterval(() => {
+      setYear((y) => years[(years.indexOf(y ?? years[0]) + 1) % years.length]);
+    }, PLAY_STEP_MS);
+    return () => clearInterval(timer);
+  }, [playing, years]);
+
+  // The map and hover panel follow the selected fiscal year via each country's series.
+  const yearView = useMemo(() => {
+    const shares: Record<string, number> = {};
+    const revenue: Record<string, number> = {};
+    const basis: Record<string, RevenueBasis> = {};
+    const ranges: Record<string, UncertaintyRange | undefined> = {};
+    const attributions: Record<string, Attribution | undefined> = {};
+    // Denominators as of the selected year, so per-capita and %-of-GDP metrics match its revenue.
+    const population: Record<string, number | null> = {};
+    const gdp: Record<string, { usd: number | null; year: number | null }> = {};
+    let max = 0;
+    for (const [iso, d] of Object.entries(details)) {
+      const point = d.series.find((p) => p.year === year);
+      shares[iso] = point?.share ?? 0;
+      revenue[iso] = point?.revenueMillions ?? 0;
+      basis[iso] = point?.basis ?? "modeled";
+      ranges[iso] = point?.range;
+      attributions[iso] = point?.attribution;
+      population[iso] = point ? point.population : d.population;
+      gdp[iso] = point ? { usd: point.gdpCurrentUsd, year: point.gdpYear } : { usd: d.gdpCurrentUsd, year: d.gdpYear };
+      if (shares[iso] > max) max = shares[iso];
+    }
+    return { shares, revenue, basis, ranges, attributions, population, gdp, maxShare: max || 1 };
+  }, [details, year]);
+  const rankingRows = useMemo(
+    () =>
+      Object.values(details)
+        .filter((d) => d.segment)
+        .map(
+          (d): RankingRow => ({
+            ...d,
+            revenueMillions: yearView.revenue[d.iso3] ?? 0,
+            share: yearView.shares[d.iso3] ?? 0,
+            population: yearView.population[d.iso3] ?? null,
+            gdpCurrentUsd: yearView.gdp[d.iso3]?.usd ?? null,
+          }),
+        ),
+    [details, yearView],
+  );
+  const confidence = showConfidence && !portfolio;
+
+  const colors = useMapColors({
+    profile,
+    payload,
+    details,
+    year,
+    yearView,
+    focusSegment,
+    portfolio,
+    diffColor: diff ? (iso3) => compare.scale.color(compare.value(iso3)) : null,
+  });
+  const { activeMetric, colorMode, drilled, focusLabel, metricMap, segmentView } = colors;
 
-  const projection = useMemo(() => geoNaturalEarth1().scale(150).translate([425, 235]), []);
+  const rotatable = PROJECTIONS.find((p) => p.id === projectionId)?.rotatable ?? false;
+  const projection = useMemo(() => makeProjection(projectionId, rotation), [projectionId, rotation]);
   const path = useMemo(() => geoPath(projection), [projection]);
 
-  // Precompute paths once per geo load for smoother hover/search updates
+  // Precompute paths once per geometry and projection for smoother hover/search/zoom updates.
   const countryShapes = useMemo(
     () =>
-      countries
-        .map((f) => {
-          const iso3 = iso3FromFeature(f)?.toUpperCase();
-          if (!iso3) return null;
-          const d = path(f) ?? "";
-          return { iso3, d, feature: f };
-        })
-        .filter(Boolean) as Array<{ iso3: string; d: string; feature: GeoFeature }>,
-    [countries, path],
+      countries.map((f, i) => {
+        const [[x0, y0], [x1, y1]] = path.bounds(f);
+        return {
+          key: `${featureIso3[i] ?? "unmatched"}-${i}`,
+          iso3: featureIso3[i],
+          d: path(f) ?? "",
+          feature: f,
+          size: Math.max(x1 - x0, y1 - y0), // NaN when clipped away on the globe
+          centroid: path.centroid(f),
+        };
+      }),
+    [countries, featureIso3, path],
   );
 
-  const tinyShapes = useMemo(() => {
-    const list: Array<{ iso3: string; cx: number; cy: number }> = [];
-    for (const f of countries) {
-      const iso3 = iso3FromFeature(f)?.toUpperCase();
-      if (!iso3 || !f.geometry) continue;
-      const bbox = (f as { bbox?: number[] }).bbox;
-      if (bbox && bbox.length === 4) {
-        const width = Math.abs(bbox[2] - bbox[0]);
-        const height = Math.abs(bbox[3] - bbox[1]);
-        if (width < 5 && height < 5) {
-          const centroid = f.geometry ? (geoPath(projection).centroid(f as GeoFeature) as [number, number]) : null;
-          if (centroid) list.push({ iso3, cx: centroid[0], cy: centroid[1] });
-        }
+  // Small countries get a marker until zooming in makes their own shape visible.
+  const tinyShapes = useMemo(
+    () =>
+      countryShapes.flatMap(({ iso3, size, centroid: [cx, cy] }) =>
+        iso3 && Number.isFinite(size) && Number.isFinite(cx) && size * zoom < TINY_SHAPE_SIZE ? [{ iso3, cx, cy }] : [],
+      ),
+    [countryShapes, zoom],
+  );
+
+  const viewBox = `${view.x} ${view.y} ${view.w} ${view.h}`;
+
+  const keyboard = useMapKeyboard(countryShapes, artifacts?.neighbors ?? null, yearView.revenue, hoverIso3, view, setView);
+
+  // Fits the view to some countries; the globe first turns to face them.
+  const fitCountries = (match: (iso3: string) => boolean) => {
+    const features = countryShapes.flatMap(({ iso3, feature }) => (iso3 && match(iso3) ? [feature] : []));
+    if (!features.length) return;
+    let fitPath = path;
+    if (rotatable) {
+      const [lon, lat] = geoCentroid({ type: "FeatureCollection", features });
+      const next: Rotation = [lon, Math.max(-80, Math.min(80, lat))];
+      setRotation(next);
+      fitPath = geoPath(makeProjection(projectionId, next));
+    }
+    let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const f of features) {
+      const [[a, b], [c, d]] = fitPath.bounds(f);
+      if (![a, b, c, d].every(Number.isFinite)) continue;
+      [x0, y0, x1, y1] = [Math.min(x0, a), Math.min(y0, b), Math.max(x1, c), Math.max(y1, d)];
+    }
+    setView(fitView([[x0, y0], [x1, y1]]));
+  };
+
+  // Drilling into a segment also fits the map to its countries.
+  const drillSegment = (id: string | null) => {
+    setFocusSegment(id);
+    if (id) fitCountries((iso3) => details[iso3]?.segment === id);
+    else setView(FULL_VIEW);
+  };
+
+  const resetView = () => {
+    setView(FULL_VIEW);
+    setRotation(GLOBE_START);
+  };
+
+  const chooseProjection = (id: ProjectionId) => {
+    setProjectionId(id);
+    resetView();
+  };
+
+  const selectedIso = searchIso ?? focusIso3;
+  const focusSegmentId = focusSegment ?? (selectedIso ? (details[selectedIso]?.segment ?? null) : null);
+
+  // Map coordinates (viewBox units) of a client point.
+  const toMap = (v: MapView, clientX: number, clientY: number): [number, number] => {
+    const rect = mapRef.current?.getBoundingClientRect();
+    if (!rect?.width) return [v.x + v.w / 2, v.y + v.h / 2];
+    return [v.x + ((clientX - rect.left) / rect.width) * v.w, v.y + ((clientY - rect.top) / rect.height) * v.h];
+  };
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling.
+  useEffect(() => {
+    const svg = mapRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setView((v) =>
+        zoomView(v, Math.exp(-e.deltaY * 0.002), [
+          v.x + ((e.clientX - rect.left) / rect.width) * v.w,
+          v.y + ((e.clientY - rect.top) / rect.height) * v.h,
+        ]),
+      );
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [isLoading]);
+
+  // One pointer drags (pans, or turns the globe); two pointers pinch-zoom.
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const g = gesture.current;
+    if (!g.pointers.size) g.travel = 0;
+    g.pointers.set(e.pointerId, [e.clientX, e.clientY]);
+  };
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const g = gesture.current;
+    const prev = g.pointers.get(e.pointerId);
+    if (!prev) return;
+    if (!e.buttons) {
+      // Released outside the map before the drag captured the pointer.
+      g.pointers.delete(e.pointerId);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = view.w / (rect.width || MAP_WIDTH);
+    const [dx, dy] = [e.clientX - prev[0], e.clientY - prev[1]];
+    g.travel += Math.hypot(dx, dy);
+    if (g.travel > DRAG_THRESHOLD_PX && !e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    if (g.pointers.size === 2) {
+      const [other] = [...g.pointers].filter(([id]) => id !== e.pointerId).map(([, p]) => p);
+      const before = Math.hypot(prev[0] - other[0], prev[1] - other[1]);
+      const after = Math.hypot(e.clientX - other[0], e.clientY - other[1]);
+      const mid = toMap(view, (e.clientX + other[0]) / 2, (e.clientY + other[1]) / 2);
+      if (before > 0) setView((v) => zoomView(v, after / before, mid));
+    } else if (g.travel > DRAG_THRESHOLD_PX) {
+      if (rotatable && zoom <= 1) {
+        const degrees = (180 / Math.PI / projection.scale()) * scale;
+        setRotation(([lon, lat]) => [lon - dx * degrees, Math.max(-80, Math.min(80, lat + dy * degrees))]);
+      } else {
+        setView((v) => panView(v, dx * scale, dy * scale));
       }
     }
-    return list;
-  }, [countries, projection]);
+    g.pointers.set(e.pointerId, [e.clientX, e.clientY]);
+  };
+  const onPointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    gesture.current.pointers.delete(e.pointerId);
+  };
+
+  const link = useLinkState(
+    {
+      ticker: profile.ticker,
+      year: yearChoice ?? undefined,
+      country: selectedIso ?? undefined,
+      metric: colors.metric,
+      segmentColors: colorMode === "segment",
+      classify: colors.classifyOptions,
+      segment: focusSegment ?? undefined,
+      projection: projectionId,
+      rotation,
+      zoom,
+      center: viewCenter(view),
+      method: showDetails,
+      scenario: scenarios.label ? scenario : undefined,
+    },
+    baseline,
+    (state, linked) => {
+      setTicker(linked.ticker);
+      scenarios.setScenario(state.scenario ?? baselineScenario(linked));
+      setYear(state.year ?? null);
+      colors.setMetric(state.metric ?? "share");
+      colors.setColorMode(state.segmentColors ? "segment" : "share");
+      colors.setClassifyOptions({ ...DEFAULT_CLASSIFY, ...state.classify });
+      setFocusSegment(state.segment ?? null);
+      setProjectionId(state.projection ?? "naturalEarth");
+      setRotation(state.rotation ?? GLOBE_START);
+      setView(state.zoom && state.center ? viewAt(state.center, state.zoom) : FULL_VIEW);
+      setSearch(state.country ?? "");
+      setSearchIso(state.country ?? null);
+      setHoverIso3(state.country ?? null);
+      setFocusIso3(state.country ?? null);
+      setShowDetails(Boolean(state.method));
+      compare.choose(null);
+    },
+  );
+
+
+  const fileStem = `${profile.ticker.toLowerCase()}-fy${year ?? profile.fiscalYear}-revenue-by-country`;
+
+  const mapLegend = (): MapLegend => {
+    if (diff) {
+      return {
+        stops: compare.scale.legend.stops,
+        ticks: compare.scale.legend.ticks.map((t) => ({ position: t.position, label: compare.format(t.value) })),
+        caption: `Change in ${compare.metric} vs ${diff.before.label} (FY${diff.before.year})`,
+      };
+    }
+    if (colorMode === "segment" && !focusSegment) {
+      return {
+        stops: [],
+        ticks: [],
+        caption: "Reporting segment",
+        categories: segmentView.stats.map((s) => ({ label: s.label, color: s.color })),
+      };
+    }
+    const caption = drilled
+      ? `Share of ${focusLabel} revenue`
+      : portfolio
+        ? "Portfolio exposure (weighted revenue share)"
+        : activeMetric.caption;
+    const scale = colors.colorScale.legend;
+    if (scale.kind === "classed") {
+      return {
+        stops: [],
+        ticks: [],
+        caption,
+        categories: [
+          { label: "None", color: scale.zeroColor },
+          ...scale.classes.map((c) => ({ label: classLabel(c.from, c.to, colors.formatLegend), color: c.color })),
+          ...(colors.metricMissing && !drilled ? [{ label: "No data", color: NO_DATA_FILL }] : []),
+        ],
+      };
+    }
+    return {
+      stops: scale.stops,
+      ticks: scale.ticks.map((t) => ({ position: t.position, label: colors.formatLegend(t.value) })),
+      caption,
+    };
+  };
+
+  const legend = mapLegend();
+
+  const mapImage = () => {
+    if (!mapRef.current || year == null) return null;
+    const mapMarkup = exportableMapMarkup(mapRef.current);
+    if (portfolio) {
+      return standaloneMapSvg({
+        mapMarkup,
+        mapWidth: MAP_WIDTH,
+        mapHeight: MAP_HEIGHT,
+        mapViewBox: viewBox,
+        title: `Portfolio (${portfolio.holdings.length} holdings) · revenue exposure by country · FY${year}`,
+        subtitle: `${portfolioMode.fileName ?? ""}${model ? ` · Model: ${model.name} · ${model.hash}` : ""}`,
+        legend,
+        note: "Each holding's segment revenue is allocated to countries with the same model, then country shares are summed by normalized portfolio weight.",
+      });
+    }
+    if (diff) {
+      return standaloneMapSvg({
+        mapMarkup,
+        mapWidth: MAP_WIDTH,
+        mapHeight: MAP_HEIGHT,
+        mapViewBox: viewBox,
+        title: `${profile.name} (${profile.ticker}) · change in ${compare.metric} vs ${diff.before.label} · FY${year}`,
+        subtitle: `${diff.before.label} FY${diff.before.year}: $${fmtRev(diff.before.totalMillions)} → ${diff.after.label} FY${
+          diff.after.year
+        }: $${fmtRev(diff.after.totalMillions)} USD`,
+        legend,
+        note: "Blue = higher than before, orange = lower. Change is after minus before for each country; share change is in percentage points of each side's total.",
+      });
+    }
+    let total = 0;
+    for (const v of Object.values(yearView.revenue)) total += v;
+    return standaloneMapSvg({
+      mapMarkup,
+      mapWidth: MAP_WIDTH,
+      mapHeight: MAP_HEIGHT,
+      mapViewBox: viewBox,
+      title: `${profile.name} (${profile.ticker}) · ${
+        activeMetric.id === "share" ? "estimated revenue by country" : activeMetric.label.toLowerCase()
+      } · FY${year}`,
+      subtitle: `Total $${fmtRev(total)} USD${model ? ` · Model: ${model.name} · ${model.hash}` : ""}`,
+      legend,
+      note: metaNote,
+    });
+  };
 
+  const hoverChange = hoverIso3 ? (diff?.byIso[hoverIso3] ?? null) : null;
   const hoverDetail = hoverIso3
-    ? details[hoverIso3] ?? {
+    ? (details[hoverIso3] && {
+        ...details[hoverIso3],
+        revenueMillions: yearView.revenue[hoverIso3] ?? 0,
+        share: yearView.shares[hoverIso3] ?? 0,
+        basis: yearView.basis[hoverIso3] ?? "modeled",
+        range: yearView.ranges[hoverIso3],
+        attribution: yearView.attributions[hoverIso3],
+        population: yearView.population[hoverIso3] ?? null,
+        gdpCurrentUsd: yearView.gdp[hoverIso3]?.usd ?? null,
+        gdpYear: yearView.gdp[hoverIso3]?.year ?? null,
+      }) ?? {
         iso3: hoverIso3,
         name: NAME_OVERRIDES[hoverIso3] ?? names[hoverIso3] ?? hoverIso3,
         region: "",
         revenueMillions: 0,
-        share: intensity[hoverIso3] ?? 0,
+        share: colors.intensity[hoverIso3] ?? 0,
         population: null,
-        flagUrl: hoverIso3.length >= 2 ? `https://flagcdn.com/${hoverIso3.slice(0, 2).toLowerCase()}.svg` : null,
         segment: "",
         office: false,
         hub: false,
         nearZero: false,
+        gdpCurrentUsd: null,
+        gdpYear: null,
+        basis: "modeled" as RevenueBasis,
+        range: undefined,
+        attribution: undefined,
+        series: [],
       }
     : null;
 
+  const countryName = (iso3: string) => details[iso3]?.name ?? NAME_OVERRIDES[iso3] ?? names[iso3] ?? iso3;
+  const segmentName = (id: string) => profile.segments.find((seg) => seg.id === id)?.label ?? id;
+
+  // What the map's color stands for at a country, in words (live region and hidden table).
+  const mapValueText = (iso3: string) => {
+    if (diff) return `change in ${compare.metric} ${compare.format(compare.value(iso3))}`;
+    if (portfolio) return `portfolio exposure ${fmtPct(colors.intensity[iso3] ?? 0)}`;
+    if (colorMode === "share") {
+      const v = metricMap[iso3] ?? null;
+      return `${activeMetric.label} ${formatMetric(activeMetric.id, v)}${v == null && activeMetric.missing ? ` (${activeMetric.missing})` : ""}`;
+    }
+    const seg = details[iso3]?.segment;
+    if (focusSegment) return seg === focusSegment ? `share of ${focusLabel} ${fmtPct(segmentView.within[iso3] ?? 0)}` : "outside the segment";
+    return seg ? `segment ${segmentName(seg)}` : "no segment";
+  };
+
+  // Screen-reader version of the hover panel, announced politely as the hovered or focused country changes.
+  const announcement = hoverDetail
+    ? [
+        hoverDetail.name,
+        mapValueText(hoverDetail.iso3),
+        diff
+          ? `revenue ${hoverChange?.before ? `$${fmtRev(hoverChange.before.revenueMillions)}` : "none"} before, ${
+              hoverChange?.after ? `$${fmtRev(hoverChange.after.revenueMillions)}` : "none"
+            } after`
+          : portfolio
+            ? ""
+            : `revenue $${fmtRev(hoverDetail.revenueMillions)}, ${fmtPct(hoverDetail.share)} of the total`,
+        hoverDetail.segment ? `${segmentName(hoverDetail.segment)} segment` : "",
+        `population ${fmtPopulation(hoverDetail.population)}`,
+        `GDP $${fmtCurrency(hoverDetail.gdpCurrentUsd)}`,
+      ]
+        .filter(Boolean)
+        .join(". ")
+    : "";
+
   return (
     <main className="min-h-screen" style={{ background: BG, color: "#e6f1fb" }}>
       <div className="mx-auto w-full max-w-6xl px-4 py-8">
@@ -262,14 +715,9 @@ export default function Page() {
           <div className="flex items-center gap-3">
             <Image src={LOGO_SRC} alt="FactSet" width={120} height={28} priority />
             <div className="text-lg font-semibold text-white">Revenue by Country</div>
-            <div className="relative group inline-flex items-center text-xs text-sky-200/80">
-              <span className="flex h-5 w-5 items-center justify-center rounded-full bg-sky-900/60 text-[10px] font-semibold text-sky-100">
-                i
-              </span>
-              <div className="pointer-events-none absolute left-0 top-6 z-10 hidden w-72 rounded-md bg-[#0f1722] px-3 py-2 text-[11px] text-sky-100 ring-1 ring-[#1f2b38] group-hover:block">
-                FY2025 GDP-based allocation of reported segment buckets (Americas, EMEA, APAC) with explicit multipliers for hubs, offices, and sanctions.
-              </div>
-            </div>
+            <InfoTip label="About this estimate" width="w-72">
+              FY{profile.fiscalYear} GDP-based allocation of reported segment buckets ({segmentLabels}) with explicit multipliers for hubs, offices, and sanctions.
+            </InfoTip>
           </div>
           <div className="flex items-center gap-3 text-xs text-sky-100/80">
             <div className="flex flex-col items-end leading-tight text-right">
@@ -289,19 +737,76 @@ export default function Page() {
           </div>
         </div>
 
-        {error ? <div className="mt-3 text-sm text-red-400">{error}</div> : null}
+        {loadError ? <div className="mt-3 whitespace-pre-wrap text-sm text-red-400">{loadError}</div> : null}
+        {payload && !isLoading ? <DegradedInputsWarning degraded={payload.meta.degraded} /> : null}
+        {payload && !isLoading ? (
+          <CoverageWarning
+            coverage={payload.meta.coverage}
+            segmentLabel={(id) => profile.segments.find((s) => s.id === id)?.label ?? id}
+          />
+        ) : null}
 
         <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-          <div className="text-sm text-sky-100/80">Hover the map or type a country</div>
+          <div className="text-sm text-sky-100/80">Hover the map or type a country; click a country to find it in the table</div>
           <div className="flex gap-2">
+            <select
+              aria-label="Company"
+              className="rounded-md bg-[#0f1722] px-3 py-2 text-sm text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
+              value={ticker}
+              onChange={(e) => {
+                setTicker(e.target.value);
+                scenarios.setScenario(baselineScenario(profileByTicker(e.target.value) ?? DEFAULT_PROFILE));
+                setYear(null);
+                compare.choose(null);
+                setFocusIso3(null);
+                drillSegment(null);
+                setSearch("");
+                setSearchIso(null);
+                setHoverIso3(null);
+              }}
+            >
+              {PROFILES.map((p) => (
+                <option key={p.ticker} value={p.ticker}>
+                  {p.name} ({p.ticker}) · FY{p.fiscalYear}
+                </option>
+              ))}
+            </select>
             <input
               className="w-52 rounded-md bg-[#0f1722] px-3 py-2 text-sm text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
               placeholder="Search country"
               value={search}
               onChange={(e) => applySearch(e.target.value)}
             />
+            {payload ? (
+              <ExportMenu
+                fileStem={fileStem}
+                rows={() => exportRows(payload, year ?? payload.fiscalYear)}
+                mapImage={mapImage}
+              />
+            ) : null}
+            <button
+              className="rounded-md bg-[#0f1722] px-3 py-2 text-sm text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600"
+              onClick={link.copy}
+            >
+              {link.copied ? "Copied" : "Copy link"}
+            </button>
           </div>
         </div>
+        {link.issues.length ? (
+          <div className="mt-3 rounded-md bg-amber-950/40 px-3 py-2 text-xs text-amber-100 ring-1 ring-amber-900/60">
+            <div className="flex items-center justify-between gap-3">
+              <span>Parts of this link were ignored:</span>
+              <button className="shrink-0 underline underline-offset-4" onClick={link.dismissIssues}>
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-1 text-[11px] text-amber-100/80">
+              {link.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
 
         {isLoading ? (
           <div
@@ -321,58 +826,263 @@ export default function Page() {
             <div className="mt-4 text-xs text-sky-200/80">Hang tight while we get things ready.</div>
           </div>
         ) : (
+          <div className="mt-6 grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
           <div
-            className="mt-6 w-full max-w-3xl mx-auto rounded-xl p-4"
+            className="w-full rounded-xl p-4"
             style={{ background: PANEL, border: `1px solid ${BORDER}` }}
           >
+            <div className="mb-3 flex items-center gap-3 text-xs text-sky-100">
+              <button
+                className="rounded-md px-2 py-1 text-sky-50 disabled:opacity-40"
+                style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+                disabled={years.length < 2}
+                onClick={() => setPlaying((p) => !p)}
+              >
+                {playing ? "Pause" : "Play"}
+              </button>
+              <input
+                type="range"
+                aria-label="Fiscal year"
+                className="flex-1 accent-sky-400"
+                min={years[0] ?? 0}
+                max={years[years.length - 1] ?? 0}
+                step={1}
+                value={year ?? 0}
+                disabled={years.length < 2}
+                onChange={(e) => {
+                  const next = Number(e.target.value);
+                  // anchors may skip years; snap to the closest one we have
+                  const snapped = years.reduce((a, b) => (Math.abs(b - next) < Math.abs(a - next) ? b : a), years[0]);
+                  setPlaying(false);
+                  setYear(snapped);
+                }}
+              />
+              <span className="w-14 text-right font-semibold text-sky-50">{year != null ? `FY${year}` : ""}</span>
+              {years.length === 1 ? (
+                <span
+                  className="text-slate-400"
+                  title={`${profile.name}'s profile has segment totals for FY${years[0]} only; earlier years step in once their 10-K totals are added under anchors.`}
+                >
+                  only anchored year
+                </span>
+              ) : null}
+              {colorMode === "share" && !portfolio ? (
+                <select
+                  aria-label="Map metric"
+                  className="rounded-md bg-[#0f1722] px-2 py-1 text-sky-50 ring-1 ring-[#1f2b38]"
+                  value={colors.metric}
+                  onChange={(e) => {
+                    colors.setMetric(e.target.value as MetricId);
+                    colors.setClassifyOptions((o) => ({ ...o, manualBreaks: [] }));
+                  }}
+                >
+                  {METRICS.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              {portfolio ? (
+                <span className="rounded-md bg-amber-900/40 px-2 py-1 text-amber-100">Portfolio</span>
+              ) : (
+              <div className="flex overflow-hidden rounded-md" style={{ border: `1px solid ${BORDER}` }}>
+                {(["share", "segment"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    aria-pressed={colorMode === mode}
+                    className={`px-2 py-1 ${colorMode === mode ? "bg-sky-900/60 text-sky-50" : "text-sky-200/70"}`}
+                    onClick={() => {
+                      colors.setColorMode(mode);
+                      drillSegment(null);
+                    }}
+                  >
+                    {mode === "share" ? "Share" : "Segments"}
+                  </button>
+                ))}
+              </div>
+              )}
+            </div>
             <div className="relative max-w-3xl mx-auto">
-              <svg viewBox="0 0 820 450" className="w-full h-auto">
-                <rect x="0" y="0" width="820" height="450" fill="#050a10" />
+              <svg
+                ref={mapRef}
+                viewBox={viewBox}
+                className="w-full h-auto"
+                style={{ touchAction: "none", cursor: zoom > 1 || rotatable ? "grab" : undefined }}
+                role="group"
+                aria-label={`${profile.name} revenue map. Tab to a country, use the arrow keys to move to neighboring countries and Enter to find it in the table.`}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerUp}
+                onClickCapture={(e) => {
+                  // The end of a drag is not a click on the country under the pointer.
+                  if (gesture.current.travel > DRAG_THRESHOLD_PX) e.stopPropagation();
+                }}
+              >
+                <rect x={view.x} y={view.y} width={view.w} height={view.h} fill="#050a10" aria-hidden />
+                {rotatable ? (
+                  <path d={path({ type: "Sphere" }) ?? ""} fill="#07121c" stroke="#16202b" vectorEffect="non-scaling-stroke" aria-hidden />
+                ) : null}
                 <g>
-                  {countryShapes.map(({ iso3, d }) => {
-                    const v = intensity[iso3] ?? 0;
-                    const fill = colorFor(v, maxShare);
+                  {countryShapes.map(({ key, iso3, d }) => {
+                    // Geometry the reconciliation could not place (see the diagnostics overlay).
+                    if (!iso3) {
+                      return (
+                        <path
+                          key={key}
+                          d={d}
+                          fill={UNMATCHED_FILL}
+                          stroke="#0f172a"
+                          strokeWidth={0.6}
+                          vectorEffect="non-scaling-stroke"
+                          aria-hidden
+                        />
+                      );
+                    }
+                    const fill = colors.fillFor(iso3);
                     const isActive = hoverIso3 === iso3;
+                    const focusable = keyboard.shapeByIso.get(iso3)?.key === key;
                     return (
                       <path
-                        key={iso3}
+                        key={key}
+                        ref={focusable ? keyboard.ref(iso3) : undefined}
                         d={d}
+                        tabIndex={focusable ? (iso3 === keyboard.tabIso3 ? 0 : -1) : undefined}
+                        role={focusable ? "button" : undefined}
+                        aria-label={focusable ? countryName(iso3) : undefined}
+                        aria-hidden={focusable ? undefined : true}
+                        className="outline-none"
                         fill={fill}
                         stroke={isActive ? "#8ae1ff" : "#0f172a"}
                         strokeWidth={isActive ? 1.4 : 0.6}
-                        opacity={isActive ? 1 : 0.9}
+                        vectorEffect="non-scaling-stroke"
+                        opacity={isActive ? 1 : 0.9 * (confidence ? confidenceOpacity(yearView.ranges[iso3]) : 1)}
                         style={{ transition: "fill 200ms ease, stroke 120ms ease, opacity 120ms ease, stroke-width 120ms ease" }}
                         onMouseEnter={() => iso3 && iso3 !== hoverIso3 && setHoverIso3(iso3)}
                         onMouseLeave={() => setHoverIso3(searchIso)}
+                        onClick={() => setFocusIso3(iso3)}
+                        onFocus={(e) => {
+                          setHoverIso3(iso3);
+                          // Only keyboard focus gets the ring; a click focuses the shape too.
+                          keyboard.setFocusIso3(e.currentTarget.matches(":focus-visible") ? iso3 : null);
+                        }}
+                        onBlur={() => {
+                          keyboard.setFocusIso3(null);
+                          setHoverIso3(searchIso);
+                        }}
+                        onKeyDown={(e) => {
+                          const direction = ARROW_KEYS[e.key];
+                          if (direction) {
+                            e.preventDefault();
+                            keyboard.move(iso3, direction);
+                          } else if (e.key === "Enter" || e.key === " ") {
+                            e.preventDefault();
+                            setFocusIso3(iso3);
+                          } else if (e.key === "Escape") {
+                            e.currentTarget.blur();
+                          }
+                        }}
                       />
                     );
                   })}
                 </g>
-                {/* Tiny overlays for small countries */}
-                <g>
+                {/* Tiny overlays for small countries; keyboard users reach them through the country's own shape */}
+                <g aria-hidden>
                   {tinyShapes.map(({ iso3, cx, cy }) => {
-                    const v = intensity[iso3] ?? 0;
-                    const fill = colorFor(v, maxShare);
+                    const fill = colors.fillFor(iso3);
                     const isActive = hoverIso3 === iso3;
                     return (
                       <circle
                         key={`tiny-${iso3}`}
                         cx={cx}
                         cy={cy}
-                        r={isActive ? 7 : 6}
+                        r={(isActive ? 7 : 6) / zoom}
                         fill={fill}
                         stroke={isActive ? "#8ae1ff" : "#0f172a"}
                         strokeWidth={isActive ? 0.8 : 0.4}
-                        opacity={isActive ? 1 : 0.85}
+                        vectorEffect="non-scaling-stroke"
+                        opacity={isActive ? 1 : 0.85 * (confidence ? confidenceOpacity(yearView.ranges[iso3]) : 1)}
                         style={{ cursor: "pointer", transition: "fill 120ms ease, opacity 120ms ease, stroke-width 120ms ease, r 120ms ease" }}
                         onMouseEnter={() => iso3 && iso3 !== hoverIso3 && setHoverIso3(iso3)}
                         onMouseLeave={() => setHoverIso3(searchIso)}
+                        onClick={() => setFocusIso3(iso3)}
                       />
                     );
                   })}
                 </g>
+                {/* Keyboard focus ring, drawn last so neighbors do not cover it */}
+                {keyboard.focusIso3 && keyboard.shapeByIso.has(keyboard.focusIso3) ? (
+                  <g aria-hidden pointerEvents="none" data-export="skip">
+                    <path
+                      d={keyboard.shapeByIso.get(keyboard.focusIso3)?.d}
+                      fill="none"
+                      stroke={FOCUS_RING}
+                      strokeWidth={2.5}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {tinyShapes
+                      .filter((t) => t.iso3 === keyboard.focusIso3)
+                      .map((t) => (
+                        <circle
+                          key={t.iso3}
+                          cx={t.cx}
+                          cy={t.cy}
+                          r={10 / zoom}
+                          fill="none"
+                          stroke={FOCUS_RING}
+                          strokeWidth={2}
+                          vectorEffect="non-scaling-stroke"
+                        />
+                      ))}
+                  </g>
+                ) : null}
               </svg>
+              <div role="status" aria-live="polite" className="sr-only">
+                {announcement}
+              </div>
+              <MapDataTable
+                caption={`${profile.name} (${profile.ticker}), FY${year ?? profile.fiscalYear}: ${legend.caption}`}
+                columns={["Segment", "Revenue (USD)", "Share of revenue", "Map shows"]}
+                rows={[...rankingRows]
+                  .sort((a, b) => b.revenueMillions - a.revenueMillions)
+                  .map((r) => ({
+                    iso3: r.iso3,
+                    name: r.name,
+                    cells: [segmentName(r.segment), `$${fmtRev(r.revenueMillions)}`, fmtPct(r.share), mapValueText(r.iso3)],
+                  }))}
+              />
+              <MapControls
+                projection={projectionId}
+                onProjection={chooseProjection}
+                zoom={zoom}
+                onZoom={(factor) => setView((v) => zoomView(v, factor, [v.x + v.w / 2, v.y + v.h / 2]))}
+                onReset={resetView}
+                segmentLabel={profile.segments.find((seg) => seg.id === focusSegmentId)?.label ?? null}
+                onFocusSegment={focusSegmentId ? () => fitCountries((iso3) => details[iso3]?.segment === focusSegmentId) : null}
+                countryLabel={selectedIso ? (details[selectedIso]?.name ?? names[selectedIso] ?? selectedIso) : null}
+                onFocusCountry={selectedIso ? () => fitCountries((iso3) => iso3 === selectedIso) : null}
+              />
+              {focusSegment ? (
+                <button
+                  className="absolute right-2 top-2 rounded-md px-2 py-1 text-[11px] text-sky-50"
+                  style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+                  onClick={() => drillSegment(null)}
+                >
+                  All segments
+                </button>
+              ) : null}
             </div>
+            {colorMode === "segment" ? (
+              <div className="mt-3">
+                <SegmentSummary
+                  segments={segmentView.stats}
+                  focusSegment={focusSegment}
+                  onSelect={drillSegment}
+                  fmtRev={fmtRev}
+                />
+              </div>
+            ) : null}
 
           <div className="mt-6 flex justify-center">
             <div
@@ -386,51 +1096,173 @@ export default function Page() {
               }}
             >
               <div className="flex items-center gap-2 text-sky-100">
-                <span>Revenue share</span>
-                <div className="relative group inline-flex items-center">
-                  <span className="flex h-5 w-5 items-center justify-center rounded-full bg-sky-900/60 text-[10px] font-semibold text-sky-100">
-                    i
-                  </span>
-                  <div className="pointer-events-none absolute left-0 top-6 z-10 hidden w-64 rounded-md bg-[#0f1722] px-3 py-2 text-[11px] text-sky-100 ring-1 ring-[#1f2b38] group-hover:block">
-                    Higher color = higher share of total estimated revenue. Units displayed below as M or B USD.
-                  </div>
-                </div>
+                <span>
+                  {diff
+                    ? legend.caption
+                    : portfolio
+                      ? "Portfolio exposure"
+                      : colorMode === "share"
+                        ? activeMetric.label
+                        : legend.caption}
+                </span>
+                <InfoTip label="About the map colors">
+                  {diff
+                    ? `Blue = higher than ${diff.before.label}, orange = lower; the scale is symmetric around no change.`
+                    : portfolio
+                      ? "Higher color = larger weighted share of the holdings' combined revenue."
+                      : activeMetric.id === "share"
+                        ? "Higher color = higher share of total estimated revenue. Units displayed below as M or B USD."
+                        : `Higher color = higher ${activeMetric.caption.charAt(0).toLowerCase()}${activeMetric.caption.slice(1)}.${
+                            activeMetric.missing ? ` Grey = ${activeMetric.missing}.` : ""
+                          }`}
+                </InfoTip>
               </div>
-              <div className="mt-3 flex items-center gap-2">
-                <span className="text-slate-400">low</span>
-                <div
-                  className="h-2 flex-1 rounded-full"
-                  style={{
-                    background: "linear-gradient(90deg, rgb(10,25,40), rgb(0,174,239), rgb(120,230,255))",
-                  }}
+              {diff ? (
+                <ColorLegend
+                  key="diff"
+                  scale={compare.scale.legend}
+                  format={compare.format}
+                  options={colors.classifyOptions}
+                  onOptions={colors.setClassifyOptions}
+                  manualUnit={METRICS[0].manualUnit}
+                  noDataColor={null}
+                  fixed
                 />
-                <span className="text-slate-400">high</span>
-              </div>
+              ) : colorMode === "segment" && !focusSegment ? (
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                  {segmentView.stats.map((c) => (
+                    <span key={c.label} className="flex items-center gap-1.5 text-sky-100">
+                      <span className="h-2.5 w-2.5 rounded-sm" style={{ background: c.color }} />
+                      {c.label}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <ColorLegend
+                  key={`${activeMetric.id}-${link.version}`}
+                  scale={colors.colorScale.legend}
+                  format={colors.formatLegend}
+                  options={colors.classifyOptions}
+                  onOptions={colors.setClassifyOptions}
+                  manualUnit={drilled ? METRICS[0].manualUnit : activeMetric.manualUnit}
+                  noDataColor={colors.metricMissing && !drilled ? NO_DATA_FILL : null}
+                />
+              )}
+              {portfolio || diff ? null : (
+                <label className="mt-2 flex items-center gap-2 text-[11px] text-sky-200/80">
+                  <input
+                    type="checkbox"
+                    className="accent-sky-400"
+                    checked={showConfidence}
+                    onChange={(e) => setShowConfidence(e.target.checked)}
+                  />
+                  Confidence styling (faded = wide p10–p90 range)
+                </label>
+              )}
               {hoverDetail ? (
                 <div className="mt-4 space-y-1 text-sky-50 text-sm">
                   <div className="flex items-center gap-3">
-                    {hoverDetail.flagUrl ? (
-                      <img
-                        src={hoverDetail.flagUrl}
-                        alt=""
-                        className="h-5 w-8 rounded-sm border border-zinc-800 bg-zinc-900 object-cover"
-                      />
+                    {flags[hoverDetail.iso3] ? (
+                      <span aria-hidden className="text-xl leading-none">
+                        {flags[hoverDetail.iso3]}
+                      </span>
                     ) : null}
                     <div className="font-semibold leading-tight">{hoverDetail.name}</div>
                   </div>
                   <div className="text-sky-100/80">
                     {hoverDetail.iso3} · {hoverDetail.region || "Region n/a"}
                   </div>
-                  <div className="text-sky-50">Revenue: ${fmtRev(hoverDetail.revenueMillions)}</div>
+                  {portfolio ? (
+                    <>
+                      <div className="text-sky-50">Portfolio exposure: {fmtPct(hoverDetail.share)}</div>
+                      {(portfolio.contributions[hoverDetail.iso3] ?? []).map((c) => (
+                        <div key={c.holding} className="text-[11px] text-sky-200/80">
+                          {c.holding}: {fmtPct(c.weight)} weight × {fmtPct(c.share)} of its revenue = {fmtPct(c.contribution)}
+                        </div>
+                      ))}
+                    </>
+                  ) : diff ? (
+                    <>
+                      <div className="text-sky-50">
+                        Revenue: {hoverChange?.before ? `$${fmtRev(hoverChange.before.revenueMillions)}` : "none"} →{" "}
+                        {hoverChange?.after ? `$${fmtRev(hoverChange.after.revenueMillions)}` : "none"}
+                      </div>
+                      <div className="text-sky-50">
+                        Share: {fmtPct(hoverChange?.before?.share ?? 0)} → {fmtPct(hoverChange?.after?.share ?? 0)}
+                      </div>
+                      <div className="text-sky-200/80">
+                        Change: {compare.format(compare.value(hoverDetail.iso3))}
+                        {hoverChange?.relative != null ? ` · ${(hoverChange.relative * 100).toFixed(1)}% revenue` : ""}
+                      </div>
+                      <div className="text-[11px] text-sky-200/60">
+                        {diff.before.label} (FY{diff.before.year}) → {diff.after.label} (FY{diff.after.year})
+                      </div>
+                    </>
+                  ) : (
+                  <>
+                  <div className="flex items-center gap-2 text-sky-50">
+                    <span>Revenue: ${fmtRev(hoverDetail.revenueMillions)}</span>
+                    {hoverDetail.segment ? (
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-[10px] uppercase tracking-wide ${
+                          hoverDetail.basis === "disclosed" ? "bg-emerald-900/60 text-emerald-200" : "bg-sky-900/60 text-sky-200"
+                        }`}
+                      >
+                        {hoverDetail.basis}
+                      </span>
+                    ) : null}
+                  </div>
                   <div className="text-sky-50">
-                    Share: {Math.round(hoverDetail.share * 10000) / 100}%
+                    Share: {fmtPct(hoverDetail.share)}
                   </div>
+                  {!portfolio && activeMetric.id !== "share" && colorMode === "share" && hoverDetail.iso3 in metricMap ? (
+                    <div className="text-sky-50">
+                      {activeMetric.label}:{" "}
+                      {metricMap[hoverDetail.iso3] == null
+                        ? `n/a${activeMetric.missing ? ` (${activeMetric.missing})` : ""}`
+                        : formatMetric(activeMetric.id, metricMap[hoverDetail.iso3] ?? null)}
+                    </div>
+                  ) : null}
+                  {focusSegment && hoverDetail.segment === focusSegment ? (
+                    <div className="text-sky-50">
+                      Share of {focusLabel}: {fmtPct(segmentView.within[hoverDetail.iso3] ?? 0)}
+                    </div>
+                  ) : null}
+                  {hoverDetail.range && hoverDetail.basis === "modeled" ? (
+                    <div
+                      className="text-sky-200/80"
+                      title="Spread over the model parameters only; segment totals, the near-zero multiplier and factor offsets are held fixed (method step 7)"
+                    >
+                      Range (p10–p90): ${fmtRev(hoverDetail.range.revenueMillions.p10)}–$
+                      {fmtRev(hoverDetail.range.revenueMillions.p90)} · {fmtPct(hoverDetail.range.share.p10)}–
+                      {fmtPct(hoverDetail.range.share.p90)}
+                    </div>
+                  ) : null}
+                  </>
+                  )}
                   <div className="text-sky-200/70">
                     Population: {fmtPopulation(hoverDetail.population)}
                   </div>
                   <div className="text-sky-200/70">
                     GDP: ${fmtCurrency(hoverDetail.gdpCurrentUsd)}
                   </div>
+                  {hoverDetail.series.length > 1 && !portfolio ? (
+                    <div className="pt-2">
+                      <div className="text-[11px] text-sky-200/70">
+                        Revenue FY{hoverDetail.series[0].year}–FY{hoverDetail.series[hoverDetail.series.length - 1].year}
+                      </div>
+                      <Sparkline
+                        points={hoverDetail.series.map((p) => ({ year: p.year, value: p.revenueMillions }))}
+                        activeYear={year}
+                      />
+                    </div>
+                  ) : null}
+                  {hoverDetail.attribution && !portfolio ? (
+                    <div className="pt-2">
+                      <div className="mb-1 text-[11px] font-semibold text-sky-100">How the score was built</div>
+                      <FactorWaterfall attribution={hoverDetail.attribution} />
+                    </div>
+                  ) : null}
                 </div>
               ) : (
                 <div className="mt-4 text-slate-400">hover a country</div>
@@ -438,8 +1270,131 @@ export default function Page() {
             </div>
           </div>
           </div>
+          <div
+            className="h-[560px] rounded-xl p-4 lg:h-auto lg:max-h-[900px]"
+            style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+          >
+            {portfolio ? (
+              <PortfolioContributions
+                portfolio={portfolio}
+                names={Object.fromEntries(Object.values(details).map((d) => [d.iso3, d.name]))}
+                hoverIso3={hoverIso3}
+                onHover={(iso3) => setHoverIso3(iso3 ?? searchIso)}
+                focusIso3={focusIso3}
+              />
+            ) : diff ? (
+              <MoversTable diff={diff} hoverIso3={hoverIso3} onHover={(iso3) => setHoverIso3(iso3 ?? searchIso)} />
+            ) : (
+              <RankingTable
+                rows={rankingRows}
+                segments={profile.segments}
+                hoverIso3={hoverIso3}
+                onHover={(iso3) => setHoverIso3(iso3 ?? searchIso)}
+                focusIso3={focusIso3}
+              />
+            )}
+          </div>
+          </div>
         )}
 
+        {payload && year != null ? (
+          <div className="mt-4 text-xs">
+            <div className="flex items-center gap-3">
+              <button
+                className="rounded-md px-3 py-2 text-sky-50"
+                style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+                aria-expanded={scenarios.show}
+                onClick={() => {
+                  if (!scenarios.show) modelInputs.request();
+                  scenarios.toggle();
+                }}
+              >
+                {scenarios.show ? "Hide scenario editor" : "Scenario editor"}
+              </button>
+              <button
+                className="rounded-md px-3 py-2 text-sky-50"
+                style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+                aria-expanded={portfolioMode.show}
+                onClick={portfolioMode.toggle}
+              >
+                {portfolioMode.show ? "Hide portfolio" : "Portfolio"}
+              </button>
+              <button
+                className="rounded-md px-3 py-2 text-sky-50"
+                style={{ background: PANEL, border: `1px solid ${BORDER}` }}
+                aria-expanded={compare.show}
+                onClick={() => {
+                  scenarios.readSaved();
+                  compare.toggle();
+                }}
+              >
+                {compare.show ? "Hide compare" : "Compare"}
+              </button>
+              {scenarios.label ? <span className="text-amber-200">Scenario: {scenarios.label}</span> : null}
+              {portfolio ? <span className="text-amber-200">Portfolio: {portfolioMode.fileName}</span> : null}
+              {diff ? <span className="text-amber-200">Comparing with {diff.before.label}</span> : null}
+              {modelInputs.loading ? (
+                <span className={modelInputs.error ? "text-red-400" : "text-slate-400"} role="status">
+                  {modelInputs.error ?? "Loading model inputs…"}
+                </span>
+              ) : null}
+            </div>
+            {compare.show ? (
+              <div className="mt-2 rounded-xl p-4" style={{ background: PANEL, border: `1px solid ${BORDER}` }}>
+                <ComparePanel
+                  source={compare.source}
+                  years={years}
+                  currentYear={year}
+                  scenarios={[
+                    BASELINE_SCENARIO_NAME,
+                    ...(scenarios.saved ?? [])
+                      .filter((s) => s.ticker === profile.ticker && s.name !== BASELINE_SCENARIO_NAME)
+                      .map((s) => s.name),
+                  ]}
+                  diff={diff}
+                  metric={compare.metric}
+                  error={compare.error}
+                  disabled={portfolio ? "Compare mode is off while a portfolio is loaded." : null}
+                  onSource={compare.choose}
+                  onUpload={compare.upload}
+                  onMetric={compare.setMetric}
+                  fmtRev={fmtRev}
+                />
+              </div>
+            ) : null}
+            {portfolioMode.show ? (
+              <div className="mt-2 rounded-xl p-4" style={{ background: PANEL, border: `1px solid ${BORDER}` }}>
+                <PortfolioPanel
+                  fileName={portfolioMode.fileName}
+                  portfolio={portfolio}
+                  error={portfolioMode.error}
+                  onUpload={portfolioMode.upload}
+                  onClear={portfolioMode.clear}
+                  fmtRev={fmtRev}
+                />
+              </div>
+            ) : null}
+            {scenarios.show ? (
+              <div className="mt-2 rounded-xl p-4" style={{ background: PANEL, border: `1px solid ${BORDER}` }}>
+                <ScenarioPanel
+                  profile={profile}
+                  year={year}
+                  baseline={baseline}
+                  scenario={scenario}
+                  saved={(scenarios.saved ?? []).filter((s) => s.ticker === profile.ticker)}
+                  knownIso3={(iso3) => Boolean(details[iso3])}
+                  droppedFactors={(payload?.meta.degraded ?? []).flatMap((d) => (d.factor ? [d.factor] : []))}
+                  error={computed.scenarioError}
+                  skipped={scenarios.skipped}
+                  onChange={scenarios.setScenario}
+                  onSave={scenarios.save}
+                  onDelete={scenarios.remove}
+                />
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
         <div className="mt-4 text-xs text-slate-400">
           <button
             className="rounded-md px-3 py-2 text-sky-50"
@@ -449,57 +1404,20 @@ export default function Page() {
             {showDetails ? "Hide method" : "Show method"}
           </button>
           {showDetails ? (
-            <div className="mt-2 space-y-2 leading-relaxed text-sky-200/80">
-              <div>
-                {metaNote ||
-                  "Estimated per-country revenue derived from FactSet FY2025 reported segment totals. Allocation blends GDP, market depth, credit, GDP per capita, internet use, plus explicit multipliers for hubs, disclosed offices, and comprehensive-sanctions near-zero. Units in USD millions."}
-              </div>
-              <div>
-                <button
-                  className="rounded-md px-2 py-1 text-[11px] text-sky-50"
-                  style={{ background: PANEL, border: `1px solid ${BORDER}` }}
-                  onClick={() => setShowFullMethod((s) => !s)}
-                >
-                  {showFullMethod ? "Hide full method" : "Full method"}
-                </button>
-                {showFullMethod ? (
-                  <div className="mt-2 space-y-2 text-[11px] text-sky-100/80">
-                    <div>
-                      1) Anchors: FactSet FY2025 segment totals (Americas, EMEA, APAC) in USD millions.
-                    </div>
-                    <div>
-                      2) ISO universe: ISO-3166 countries with UN regions/sub-regions. We keep every country, even if revenue is near-zero.
-                    </div>
-                    <div>
-                      3) Indicators (latest 2018–2024, World Bank): GDP, market cap % GDP, private credit % GDP, GDP per capita, internet users % population. Segment medians fill missing values.
-                    </div>
-                    <div>
-                      4) Base score per country in segment:&nbsp;
-                      <span className="font-semibold">
-                        GDP
-                        <sup>0.70</sup> · (1 + mcap%)
-                        <sup>0.90</sup> · (1 + credit%)
-                        <sup>0.60</sup> · (1 + min(gdppc, 80k)/50k)
-                        <sup>0.35</sup> · (0.2 + internet%)
-                        <sup>0.25</sup>
-                      </span>
-                    </div>
-                    <div>
-                      5) Explicit multipliers: hubs (e.g., USA, GBR, CHE, LUX, SGP, HKG…), offices per FY2025 10-K, and comprehensive-sanctions near-zero (CUB, IRN, PRK, RUS).
-                    </div>
-                    <div>
-                      6) Normalize scores within each segment to the segment total; sum across segments; report per-country revenue (USD millions) and share.
-                    </div>
-                    <div>
-                      7) Flags and hover data: ISO3/ISO2-driven, with overrides for name/ISO mismatches.
-                    </div>
-                  </div>
-                ) : null}
-              </div>
-            </div>
+            <MethodNotes
+              profile={profile}
+              note={metaNote}
+              model={model}
+              config={deferredScenario.config}
+              geometry={payload?.meta.geometry ?? null}
+              onGeoDiagnostics={() => setShowGeoDiagnostics((v) => !v)}
+            />
           ) : null}
         </div>
       </div>
+      {showGeoDiagnostics && payload ? (
+        <GeoDiagnosticsOverlay diagnostics={payload.meta.geometry} onClose={() => setShowGeoDiagnostics(false)} />
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import {
+  CLASSIFICATION_MODES,
+  PALETTES,
+  parseManualBreaks,
+  type ClassificationMode,
+  type ClassifyOptions,
+  type LegendScale,
+  type PaletteId,
+} from "../lib/classify";
+
+type ColorLegendProps = {
+  scale: LegendScale;
+  format: (value: number) => string; // a break value in the active metric, e.g. "1.2% · $18M"
+  options: ClassifyOptions;
+  onOptions: (next: ClassifyOptions) => void;
+  manualUnit: { label: string; scale: number }; // units manual breaks are typed in, e.g. "%" at 0.01
+  noDataColor: string | null; // set when some countries have no value for the metric
+  fixed?: boolean; // a scale the pickers do not apply to (compare mode's diverging scale)
+};
+
+const select = "rounded-md bg-[#0f1722] px-1.5 py-1 text-[11px] text-sky-50 ring-1 ring-[#1f2b38]";
+
+/** "from – to" for a legend class; shared with the image export. */
+export const classLabel = (from: number, to: number, format: (value: number) => string) =>
+  `${format(from)} – ${format(to)}`;
+
+const NoData = ({ color }: { color: string }) => (
+  <span className="flex items-center gap-1.5 text-[11px] text-sky-100">
+    <span className="h-2.5 w-2.5 rounded-sm ring-1 ring-[#1f2b38]" style={{ background: color }} />
+    No data
+  </span>
+);
+
+// Legend with the real class breaks, plus the classification and palette pickers.
+export default function ColorLegend({ scale, format, options, onOptions, manualUnit, noDataColor, fixed }: ColorLegendProps) {
+  const [manualText, setManualText] = useState(() => options.manualBreaks.map((b) => b / manualUnit.scale).join(", "));
+  const [manualError, setManualError] = useState<string | null>(null);
+
+  const editManual = (text: string) => {
+    setManualText(text);
+    const { breaks, error } = parseManualBreaks(text, manualUnit.scale);
+    setManualError(error);
+    if (!error) onOptions({ ...options, manualBreaks: breaks });
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {scale.kind === "continuous" ? (
+        <div>
+          <div
+            className="h-2 w-full rounded-full"
+            style={{ background: `linear-gradient(90deg, ${scale.stops.join(", ")})` }}
+          />
+          <div className="relative mt-1 h-4 text-[10px] text-slate-400">
+            {scale.ticks.map((t, i) => (
+              <span
+                key={t.position}
+                className="absolute whitespace-nowrap"
+                style={{
+                  left: `${t.position * 100}%`,
+                  transform: i === 0 ? undefined : i === scale.ticks.length - 1 ? "translateX(-100%)" : "translateX(-50%)",
+                }}
+              >
+                {format(t.value)}
+              </span>
+            ))}
+          </div>
+          {noDataColor ? <NoData color={noDataColor} /> : null}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-sky-100">
+          <span className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-sm ring-1 ring-[#1f2b38]" style={{ background: scale.zeroColor }} />
+            None
+          </span>
+          {scale.classes.map((c) => (
+            <span key={c.from} className="flex items-center gap-1.5">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ background: c.color }} />
+              {classLabel(c.from, c.to, format)}
+            </span>
+          ))}
+          {noDataColor ? <NoData color={noDataColor} /> : null}
+        </div>
+      )}
+      {fixed ? null : (
+        <div className="flex flex-wrap items-center gap-2 text-[11px] text-sky-200/80">
+          <select
+            aria-label="Color classification"
+            className={select}
+            value={options.mode}
+            onChange={(e) => onOptions({ ...options, mode: e.target.value as ClassificationMode })}
+          >
+            {CLASSIFICATION_MODES.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          {options.mode === "quantile" || options.mode === "jenks" ? (
+            <label className="flex items-center gap-1">
+              Classes
+              <select
+                className={select}
+                value={options.classes}
+                onChange={(e) => onOptions({ ...options, classes: Number(e.target.value) })}
+              >
+                {[3, 4, 5, 6, 7].map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          {options.mode === "manual" ? (
+            <input
+              aria-label={`Manual breaks in ${manualUnit.label}`}
+              title={`Breaks in ${manualUnit.label}`}
+              className={`${select} w-36`}
+              placeholder={`Breaks in ${manualUnit.label}`}
+              value={manualText}
+              onChange={(e) => editManual(e.target.value)}
+            />
+          ) : null}
+          <select
+            aria-label="Color palette"
+            className={select}
+            value={options.palette}
+            onChange={(e) => onOptions({ ...options, palette: e.target.value as PaletteId })}
+          >
+            {(Object.keys(PALETTES) as PaletteId[]).map((id) => (
+              <option key={id} value={id}>
+                {PALETTES[id].label}
+                {PALETTES[id].colorblindSafe ? " (colorblind-safe)" : ""}
+              </option>
+            ))}
+          </select>
+          {options.mode === "manual" && manualError ? <span className="text-red-400">{manualError}</span> : null}
+        </div>
+      )}
+    </div>
+  );
+}
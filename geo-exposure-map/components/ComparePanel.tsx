@@ -0,0 +1,132 @@
+import { useRef } from "react";
+import type { PayloadDiff, SeriesPayload } from "../lib/diff";
+
+/** What the current view is compared against. */
+export type CompareSource =
+  | { kind: "year"; year: number }
+  | { kind: "scenario"; name: string }
+  | { kind: "payload"; fileName: string; payload: SeriesPayload };
+
+export type DiffMetric = "revenue" | "share";
+
+type ComparePanelProps = {
+  source: CompareSource | null;
+  years: number[];
+  currentYear: number;
+  scenarios: string[]; // saved scenario names for the profile, baseline first
+  diff: PayloadDiff | null;
+  metric: DiffMetric;
+  error: string | null;
+  disabled: string | null; // why compare mode is unavailable (e.g. a portfolio is loaded)
+  onSource: (next: CompareSource | null) => void;
+  onUpload: (file: File) => void;
+  onMetric: (metric: DiffMetric) => void;
+  fmtRev: (millions: number) => string;
+};
+
+const button = "rounded-md px-2 py-1 text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600";
+
+const sourceKey = (s: CompareSource | null) =>
+  !s ? "" : s.kind === "year" ? `year:${s.year}` : s.kind === "scenario" ? `scenario:${s.name}` : "payload";
+
+// Picks the "before" side of compare mode; the current view (scenario and year) is always "after".
+export default function ComparePanel({
+  source,
+  years,
+  currentYear,
+  scenarios,
+  diff,
+  metric,
+  error,
+  disabled,
+  onSource,
+  onUpload,
+  onMetric,
+  fmtRev,
+}: ComparePanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const choose = (key: string) => {
+    if (!key) onSource(null);
+    else if (key === "payload") fileRef.current?.click();
+    else if (key.startsWith("year:")) onSource({ kind: "year", year: Number(key.slice(5)) });
+    else onSource({ kind: "scenario", name: key.slice(9) });
+  };
+
+  if (disabled) return <div className="text-[11px] text-sky-200/70">{disabled}</div>;
+
+  return (
+    <div className="space-y-3 text-[11px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sky-200/80">
+          Compare the current view with
+          <select
+            className="rounded-md bg-[#0f1722] px-2 py-1 text-sky-50 ring-1 ring-[#1f2b38]"
+            value={sourceKey(source)}
+            onChange={(e) => choose(e.target.value)}
+          >
+            <option value="">nothing (compare off)</option>
+            <optgroup label="Fiscal year">
+              {years
+                .filter((y) => y !== currentYear)
+                .map((y) => (
+                  <option key={y} value={`year:${y}`}>
+                    FY{y}
+                  </option>
+                ))}
+            </optgroup>
+            <optgroup label="Model scenario">
+              {scenarios.map((name) => (
+                <option key={name} value={`scenario:${name}`}>
+                  {name}
+                </option>
+              ))}
+            </optgroup>
+            <option value="payload">{source?.kind === "payload" ? source.fileName : "Saved payload JSON…"}</option>
+          </select>
+        </label>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = "";
+          }}
+        />
+        {source ? (
+          <>
+            <div className="flex overflow-hidden rounded-md ring-1 ring-[#1f2b38]">
+              {(["revenue", "share"] as const).map((m) => (
+                <button
+                  key={m}
+                  aria-pressed={metric === m}
+                  className={`px-2 py-1 ${metric === m ? "bg-sky-900/60 text-sky-50" : "text-sky-200/70"}`}
+                  onClick={() => onMetric(m)}
+                >
+                  {m === "revenue" ? "Revenue change" : "Share change"}
+                </button>
+              ))}
+            </div>
+            <button className={button} onClick={() => onSource(null)}>
+              Exit compare
+            </button>
+          </>
+        ) : null}
+      </div>
+      <div className="text-sky-200/70">
+        A saved payload can be a snapshot&apos;s payload.json, a precomputed payload from public/data or an
+        /api/exposure response. It is compared at the current fiscal year when it has one, otherwise at its own.
+      </div>
+      {error ? <pre className="whitespace-pre-wrap text-red-400">{error}</pre> : null}
+      {diff ? (
+        <div className="text-sky-50">
+          Before: {diff.before.label} · ${fmtRev(diff.before.totalMillions)} → After: {diff.after.label} · $
+          {fmtRev(diff.after.totalMillions)}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import type { MappingCoverage } from "../lib/company-profile";
+
+type CoverageWarningProps = {
+  coverage: MappingCoverage;
+  segmentLabel: (id: string) => string;
+};
+
+// Surfaces countries the profile's segment rules leave out (they get no revenue) and
+// countries two segments claim at the same rule level. Countries a more specific rule
+// moved out of a broader segment are listed too, but only as information.
+export default function CoverageWarning({ coverage, segmentLabel }: CoverageWarningProps) {
+  const [open, setOpen] = useState(false);
+  const { unassigned, ambiguous, overrides } = coverage;
+  if (!unassigned.length && !ambiguous.length && !overrides.length) return null;
+  const warn = unassigned.length > 0 || ambiguous.length > 0;
+
+  const summary = [
+    unassigned.length ? `${unassigned.length} of ${coverage.countries} countries match no segment and get no revenue.` : null,
+    ambiguous.length ? `${ambiguous.length} are claimed by two segments at the same rule level.` : null,
+    overrides.length ? `${overrides.length} are placed by a more specific rule over a broader one.` : null,
+  ];
+
+  return (
+    <div
+      className={`mt-3 rounded-md px-3 py-2 text-xs ring-1 ${
+        warn ? "bg-amber-950/40 text-amber-100 ring-amber-900/60" : "bg-zinc-900/60 text-zinc-300 ring-zinc-800"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <span>{summary.filter(Boolean).join(" ")}</span>
+        <button className="shrink-0 underline underline-offset-4" onClick={() => setOpen((o) => !o)}>
+          {open ? "Hide" : "Details"}
+        </button>
+      </div>
+      {open ? (
+        <div className={`mt-2 grid gap-3 text-[11px] sm:grid-cols-2 ${warn ? "text-amber-100/80" : "text-zinc-400"}`}>
+          {unassigned.length ? (
+            <div>
+              <div className="font-semibold text-amber-100">Unassigned</div>
+              <ul className="mt-1 max-h-40 overflow-y-auto">
+                {unassigned.map((c) => (
+                  <li key={c.iso3}>
+                    {c.iso3} · {c.name} · {[c.region, c.subRegion].filter(Boolean).join(" / ") || "no UN region"}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {ambiguous.length ? (
+            <div>
+              <div className="font-semibold text-amber-100">Claimed twice at the same level</div>
+              <ul className="mt-1 max-h-40 overflow-y-auto">
+                {ambiguous.map((c) => (
+                  <li key={c.iso3}>
+                    {c.iso3} · {c.name} ({c.matches.map((m) => `${segmentLabel(m.segment)} by ${m.rule}`).join(", ")})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {overrides.length ? (
+            <div>
+              <div className={`font-semibold ${warn ? "text-amber-100" : "text-zinc-300"}`}>
+                More specific rule wins (informational)
+              </div>
+              <ul className="mt-1 max-h-40 overflow-y-auto">
+                {overrides.map((c) => (
+                  <li key={c.iso3}>
+                    {c.iso3} · {c.name} → {segmentLabel(c.assigned)} (
+                    {c.matches.map((m) => `${segmentLabel(m.segment)} by ${m.rule}`).join(", ")})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
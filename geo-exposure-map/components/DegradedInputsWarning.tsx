@@ -0,0 +1,36 @@
+import { useState } from "react";
+import type { DegradedInput } from "../lib/exposure-core";
+
+type DegradedInputsWarningProps = {
+  degraded: DegradedInput[];
+};
+
+// Optional indicators (lib/indicators.ts) that could not be loaded; the model ran without their factors.
+export default function DegradedInputsWarning({ degraded }: DegradedInputsWarningProps) {
+  const [open, setOpen] = useState(false);
+  if (!degraded.length) return null;
+
+  return (
+    <div className="mt-3 rounded-md bg-amber-950/40 px-3 py-2 text-xs text-amber-100 ring-1 ring-amber-900/60">
+      <div className="flex items-center justify-between gap-3">
+        <span>
+          Degraded inputs: {degraded.map((d) => `${d.label} (${d.factor ? "factor dropped" : "not shown"})`).join(", ")}. The
+          allocation ran without them.
+        </span>
+        <button className="shrink-0 underline underline-offset-4" onClick={() => setOpen((o) => !o)}>
+          {open ? "Hide" : "Details"}
+        </button>
+      </div>
+      {open ? (
+        <ul className="mt-2 space-y-1 text-[11px] text-amber-100/80">
+          {degraded.map((d) => (
+            <li key={d.indicator}>
+              <span className="font-semibold text-amber-100">{d.indicator}</span>
+              <pre className="whitespace-pre-wrap font-sans">{d.message}</pre>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
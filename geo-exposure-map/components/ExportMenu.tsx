@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { EXPORT_MIME, serializeRows, type ExportFormat, type ExportRow } from "../lib/export";
+import { downloadBlob, svgToPngBlob, type MapImage } from "../lib/map-export";
+
+type ExportMenuProps = {
+  fileStem: string; // e.g. "fds-fy2025-revenue-by-country"
+  rows: () => ExportRow[];
+  mapImage: () => MapImage | null;
+};
+
+const TABLE_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "Table · CSV" },
+  { format: "xlsx", label: "Table · Excel (XLSX)" },
+  { format: "json", label: "Table · JSON" },
+];
+
+// Client-side downloads of the current view; builders are called lazily on click.
+export default function ExportMenu({ fileStem, rows, mapImage }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void> | void) => {
+    setOpen(false);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const exportTable = (format: ExportFormat) =>
+    run(() => {
+      const body = serializeRows(rows(), format);
+      // Blob parts must be ArrayBuffer-backed; fflate types its output over ArrayBufferLike.
+      const part = typeof body === "string" ? body : new Uint8Array(body);
+      downloadBlob(new Blob([part], { type: EXPORT_MIME[format] }), `${fileStem}.${format}`);
+    });
+
+  const exportMap = (format: "svg" | "png") =>
+    run(async () => {
+      const image = mapImage();
+      if (!image) return;
+      const blob = format === "svg" ? new Blob([image.svg], { type: "image/svg+xml" }) : await svgToPngBlob(image);
+      downloadBlob(blob, `${fileStem}.${format}`);
+    });
+
+  const item = "block w-full px-3 py-1.5 text-left text-[12px] text-sky-50 hover:bg-sky-900/40";
+
+  return (
+    <div className="relative">
+      <button
+        className="rounded-md bg-[#0f1722] px-3 py-2 text-sm text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        onClick={() => setOpen((o) => !o)}
+      >
+        Export
+      </button>
+      {open ? (
+        <div
+          role="menu"
+          className="absolute right-0 top-11 z-20 w-52 rounded-md bg-[#0f1722] py-1 ring-1 ring-[#1f2b38]"
+        >
+          {TABLE_FORMATS.map(({ format, label }) => (
+            <button key={format} role="menuitem" className={item} onClick={() => exportTable(format)}>
+              {label}
+            </button>
+          ))}
+          <div className="my-1 border-t border-[#1f2b38]" />
+          <button role="menuitem" className={item} onClick={() => exportMap("svg")}>
+            Map · SVG
+          </button>
+          <button role="menuitem" className={item} onClick={() => exportMap("png")}>
+            Map · PNG
+          </button>
+        </div>
+      ) : null}
+      {error ? <div className="absolute right-0 top-11 text-[11px] text-red-400">{error}</div> : null}
+    </div>
+  );
+}
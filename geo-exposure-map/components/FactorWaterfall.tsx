@@ -0,0 +1,113 @@
+import type { Attribution, FactorInput } from "../lib/exposure-core";
+import { BASE_INDICATOR, SCORING_INDICATORS, type IndicatorDefinition } from "../lib/indicators";
+
+type FactorWaterfallProps = {
+  attribution: Attribution;
+};
+
+// One step per registry factor, then the explicit multipliers. Multipliers only get a row
+// when they apply to the country; factors dropped because their input failed to load (no
+// value, multiplier 1) get none either.
+const STEPS: Array<{ key: string; label: string; multiplier?: boolean; input?: string }> = [
+  ...SCORING_INDICATORS.map(({ key, factor }) => ({ key: factor.name, label: factor.label, input: key })),
+  { key: "hub", label: "Hub", multiplier: true },
+  { key: "office", label: "Office", multiplier: true },
+  { key: "nearZero", label: "Sanctions", multiplier: true },
+];
+
+const INPUTS: IndicatorDefinition[] = [BASE_INDICATOR, ...SCORING_INDICATORS];
+
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 });
+const fmtInput = (input: FactorInput | undefined, unit: IndicatorDefinition["unit"]) => {
+  if (input?.value == null) return "n/a";
+  if (unit === "pct") return `${input.value.toFixed(1)}%`;
+  return unit === "usd" ? `$${compact.format(input.value)}` : compact.format(input.value);
+};
+
+// Multiplicative score build-up on a log axis: each bar spans the running score before
+// and after applying one factor, starting from the GDP term.
+export default function FactorWaterfall({ attribution }: FactorWaterfallProps) {
+  const { factors, inputs, scoreShare } = attribution;
+
+  const inputRows = (
+    <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[11px]">
+      {INPUTS.map(({ key, shortLabel, unit, factor }) => {
+        const input = inputs[key];
+        return (
+          <div key={key} className="contents">
+            <span className="text-sky-200/70">{shortLabel}</span>
+            <span className="text-sky-50">
+              {fmtInput(input, unit)}{" "}
+              {input?.imputed ? (
+                <span className="rounded bg-amber-900/60 px-1 text-[10px] text-amber-200">
+                  imputed · {factor?.imputation === "globalMedian" ? "global" : "segment"} median
+                </span>
+              ) : input?.year != null ? (
+                <span className="text-sky-200/50">({input.year})</span>
+              ) : null}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  if (!factors) {
+    return (
+      <div className="space-y-2">
+        {inputRows}
+        <div className="text-[11px] text-amber-200/80">No GDP for this year: placeholder score, near-zero allocation.</div>
+      </div>
+    );
+  }
+
+  const steps = STEPS.filter(
+    ({ key, multiplier, input }) =>
+      factors[key] != null &&
+      (!multiplier || factors[key] !== 1) &&
+      !(input && inputs[input]?.value == null && factors[key] === 1),
+  );
+  const gdpTerm = factors[BASE_INDICATOR.key];
+  let cum = Math.log(gdpTerm);
+  const bars = steps.map(({ key, label }) => {
+    const from = cum;
+    cum += Math.log(factors[key]);
+    return { key, label, from, to: cum, value: factors[key] };
+  });
+  const base = Math.log(gdpTerm);
+  const lo = Math.min(base, ...bars.map((b) => Math.min(b.from, b.to)));
+  const hi = Math.max(base, ...bars.map((b) => Math.max(b.from, b.to)));
+  const span = hi - lo || 1;
+  const pct = (v: number) => `${((v - lo) / span) * 100}%`;
+
+  return (
+    <div className="space-y-2">
+      {inputRows}
+      <div className="space-y-1 text-[11px]">
+        <div className="flex items-center justify-between text-sky-200/70">
+          <span>Base: GDP term</span>
+          <span className="text-sky-50">{compact.format(gdpTerm)}</span>
+        </div>
+        {bars.map((b) => (
+          <div key={b.key} className="grid grid-cols-[88px_1fr_48px] items-center gap-2">
+            <span className="text-sky-200/70">{b.label}</span>
+            <div className="relative h-2 rounded-full bg-[#0f1722]">
+              <div
+                className={`absolute top-0 h-2 rounded-full ${b.to >= b.from ? "bg-sky-400" : "bg-rose-400"}`}
+                style={{
+                  left: pct(Math.min(b.from, b.to)),
+                  width: `max(2px, calc(${pct(Math.max(b.from, b.to))} - ${pct(Math.min(b.from, b.to))}))`,
+                }}
+              />
+            </div>
+            <span className="text-right text-sky-50">×{b.value.toFixed(2)}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-1 text-sky-200/70">
+          <span>Score share within segment</span>
+          <span className="text-sky-50">{(scoreShare * 100).toFixed(2)}%</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { GeoDiagnostics } from "../lib/iso-reconcile";
+
+type GeoDiagnosticsOverlayProps = {
+  diagnostics: GeoDiagnostics;
+  onClose: () => void;
+};
+
+// Developer overlay for the geometry/ISO reconciliation: how features were matched, which
+// ones were not (drawn in a neutral fill), and which ISO countries have no shape.
+export default function GeoDiagnosticsOverlay({ diagnostics, onClose }: GeoDiagnosticsOverlayProps) {
+  const { features, matched, unmatchedFeatures, duplicateFeatures, missingGeometry } = diagnostics;
+  const list = "mt-1 max-h-32 overflow-y-auto text-sky-200/80";
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Geometry diagnostics"
+      className="fixed bottom-4 right-4 z-20 w-96 max-w-[calc(100vw-2rem)] rounded-lg bg-[#0f1722]/95 p-3 text-[11px] text-sky-100 shadow-xl ring-1 ring-[#1f2b38]"
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sky-50">Geometry diagnostics</span>
+        <button className="px-1 text-sky-200/70 hover:text-sky-50" aria-label="Close" onClick={onClose}>
+          ✕
+        </button>
+      </div>
+      <div className="mt-1">
+        {features} features · {matched.iso3} by ISO3 · {matched.iso2} by ISO2 · {matched.name} by name ·{" "}
+        {unmatchedFeatures.length} unmatched
+      </div>
+      {unmatchedFeatures.length ? (
+        <div className="mt-2">
+          <div className="font-semibold text-amber-100">Unmatched features</div>
+          <ul className={list}>
+            {unmatchedFeatures.map((f) => (
+              <li key={f.index}>
+                #{f.index} · {f.name ?? "unnamed"}
+                {f.codes.length ? ` · ${f.codes.join(" / ")}` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {duplicateFeatures.length ? (
+        <div className="mt-2">
+          <div className="font-semibold text-amber-100">Several features for one country</div>
+          <ul className={list}>
+            {duplicateFeatures.map((d) => (
+              <li key={d.iso3}>
+                {d.iso3} · features {d.indexes.map((i) => `#${i}`).join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {missingGeometry.length ? (
+        <div className="mt-2">
+          <div className="font-semibold text-amber-100">ISO countries without geometry ({missingGeometry.length})</div>
+          <ul className={list}>
+            {missingGeometry.map((c) => (
+              <li key={c.iso3}>
+                {c.iso3} · {c.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
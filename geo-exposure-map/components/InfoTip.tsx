@@ -0,0 +1,55 @@
+import { useId, useState, type ReactNode } from "react";
+
+type InfoTipProps = {
+  label: string; // accessible name of the "i" button, e.g. "About this map"
+  width?: string; // Tailwind width class of the bubble
+  children: ReactNode;
+};
+
+// The "i" help bubble. It opens on hover, on keyboard focus and on tap (touch has no
+// hover); Escape closes it. The text is also the button's description for screen readers.
+export default function InfoTip({ label, width = "w-64", children }: InfoTipProps) {
+  const id = useId();
+  const [pinned, setPinned] = useState(false);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const open = pinned || hovered || focused;
+
+  return (
+    <span
+      className="relative inline-flex items-center"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      <button
+        type="button"
+        aria-label={label}
+        aria-describedby={id}
+        aria-expanded={open}
+        className="flex h-5 w-5 items-center justify-center rounded-full bg-sky-900/60 text-[10px] font-semibold text-sky-100 outline-none focus-visible:ring-2 focus-visible:ring-amber-300"
+        onClick={() => setPinned((p) => !p)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false);
+          setPinned(false);
+        }}
+        onKeyDown={(e) => {
+          if (e.key !== "Escape" || !open) return;
+          e.stopPropagation();
+          setPinned(false);
+          setHovered(false);
+          setFocused(false);
+        }}
+      >
+        i
+      </button>
+      <span
+        id={id}
+        role="tooltip"
+        className={`${open ? "block" : "hidden"} pointer-events-none absolute left-0 top-6 z-10 ${width} rounded-md bg-[#0f1722] px-3 py-2 text-[11px] font-normal text-sky-100 ring-1 ring-[#1f2b38]`}
+      >
+        {children}
+      </span>
+    </span>
+  );
+}
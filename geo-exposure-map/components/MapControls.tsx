@@ -0,0 +1,72 @@
+import { PROJECTIONS, type ProjectionId } from "../lib/map-view";
+
+type MapControlsProps = {
+  projection: ProjectionId;
+  onProjection: (id: ProjectionId) => void;
+  zoom: number;
+  onZoom: (factor: number) => void;
+  onReset: () => void;
+  // Fit actions; null disables the button (nothing to focus on yet).
+  segmentLabel: string | null;
+  onFocusSegment: (() => void) | null;
+  countryLabel: string | null;
+  onFocusCountry: (() => void) | null;
+};
+
+const button =
+  "rounded-md bg-[#0f1722] px-2 py-1 text-[11px] text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600 disabled:opacity-40 disabled:hover:ring-[#1f2b38]";
+
+// Overlay on the map's top-left corner: projection choice, zoom buttons and fit-to-bounds.
+export default function MapControls({
+  projection,
+  onProjection,
+  zoom,
+  onZoom,
+  onReset,
+  segmentLabel,
+  onFocusSegment,
+  countryLabel,
+  onFocusCountry,
+}: MapControlsProps) {
+  return (
+    <div className="absolute left-2 top-2 flex flex-wrap items-center gap-1">
+      <select
+        aria-label="Map projection"
+        className="rounded-md bg-[#0f1722] px-1.5 py-1 text-[11px] text-sky-50 ring-1 ring-[#1f2b38]"
+        value={projection}
+        onChange={(e) => onProjection(e.target.value as ProjectionId)}
+      >
+        {PROJECTIONS.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+      <button className={button} aria-label="Zoom in" onClick={() => onZoom(2)}>
+        +
+      </button>
+      <button className={button} aria-label="Zoom out" disabled={zoom <= 1} onClick={() => onZoom(0.5)}>
+        −
+      </button>
+      <button className={button} onClick={onReset}>
+        Reset view
+      </button>
+      <button
+        className={button}
+        disabled={!onFocusSegment}
+        title={segmentLabel ? `Fit the map to ${segmentLabel}` : "Select or hover a country in a segment"}
+        onClick={() => onFocusSegment?.()}
+      >
+        Focus segment
+      </button>
+      <button
+        className={button}
+        disabled={!onFocusCountry}
+        title={countryLabel ? `Fit the map to ${countryLabel}` : "Select or hover a country"}
+        onClick={() => onFocusCountry?.()}
+      >
+        Focus country
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+type MapDataTableProps = {
+  caption: string;
+  columns: string[]; // after the Country column
+  rows: Array<{ iso3: string; name: string; cells: string[] }>;
+};
+
+// The map's data as a plain table for screen readers; visually hidden, it carries the same
+// values the colors and the hover panel show.
+export default function MapDataTable({ caption, columns, rows }: MapDataTableProps) {
+  return (
+    <table className="sr-only">
+      <caption>{caption}</caption>
+      <thead>
+        <tr>
+          <th scope="col">Country</th>
+          {columns.map((c) => (
+            <th key={c} scope="col">
+              {c}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.iso3}>
+            <th scope="row">{r.name}</th>
+            {r.cells.map((cell, i) => (
+              <td key={columns[i]}>{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import type { CompanyProfile } from "../lib/company-profile";
+import { imputationSummary, indicatorList, indicatorSources, scoreTerms } from "../lib/indicators";
+import type { GeoDiagnostics } from "../lib/iso-reconcile";
+import type { ModelConfig } from "../lib/model-config";
+
+type MethodNotesProps = {
+  profile: CompanyProfile;
+  note: string; // the payload's method note; empty before anything is scored
+  model: { name: string; hash: string } | null;
+  config: ModelConfig; // the model the map is scored with (the active scenario's), for the formula and multipliers
+  geometry: GeoDiagnostics | null;
+  onGeoDiagnostics: () => void;
+};
+
+const button = "rounded-md px-2 py-1 text-[11px] text-sky-50";
+
+// "USA, GBR ×1.3; ARE ×1.25": ISO3 codes grouped by multiplier, largest first.
+function multiplierGroups(weights: Record<string, number>) {
+  const groups = new Map<number, string[]>();
+  for (const [iso3, m] of Object.entries(weights)) groups.set(m, [...(groups.get(m) ?? []), iso3]);
+  return [...groups]
+    .sort((a, b) => b[0] - a[0])
+    .map(([m, isos]) => `${isos.join(", ")} ×${m}`)
+    .join("; ");
+}
+const panel = { background: "#0b1118", border: "1px solid #16202b" };
+
+// The method panel: the payload's note and model, and the full method step by step.
+export default function MethodNotes({ profile, note, model, config, geometry, onGeoDiagnostics }: MethodNotesProps) {
+  const [showFull, setShowFull] = useState(false);
+  const segmentLabels = profile.segments.map((s) => s.label).join(", ");
+
+  return (
+    <div className="mt-2 space-y-2 leading-relaxed text-sky-200/80">
+      <div>
+        {note ||
+          `Estimated per-country revenue derived from ${profile.name} FY${profile.fiscalYear} reported segment totals. Allocation blends ${indicatorList()}, plus explicit multipliers for hubs, disclosed offices, and comprehensive-sanctions near-zero. Units in USD millions.`}
+      </div>
+      {model ? (
+        <div className="text-[11px] text-sky-200/60">
+          Model: {model.name} · {model.hash}
+        </div>
+      ) : null}
+      {geometry ? (
+        <button className="text-[11px] text-sky-300 underline underline-offset-4 hover:text-sky-100" onClick={onGeoDiagnostics}>
+          Geometry diagnostics ({geometry.unmatchedFeatures.length} unmatched features, {geometry.missingGeometry.length}{" "}
+          countries without geometry)
+        </button>
+      ) : null}
+      <div>
+        <button className={button} style={panel} onClick={() => setShowFull((s) => !s)}>
+          {showFull ? "Hide full method" : "Full method"}
+        </button>
+        {showFull ? (
+          <div className="mt-2 space-y-2 text-[11px] text-sky-100/80">
+            <div>
+              1) Anchors: {profile.name} FY{profile.fiscalYear} segment totals ({segmentLabels}) in USD millions.
+            </div>
+            <div>
+              2) ISO universe: ISO-3166 countries with UN regions/sub-regions. We keep every country, even if revenue is near-zero.
+            </div>
+            <div>
+              3) Indicators, as of each fiscal year (latest value at or before it, at most seven years old):{" "}
+              {indicatorSources().join("; ")}. Missing values: {imputationSummary()}.
+            </div>
+            <div>
+              4) Base score per country in segment:&nbsp;
+              <span className="font-semibold">
+                {scoreTerms(config).map((t, i) => (
+                  <React.Fragment key={t.key}>
+                    {i ? " · " : null}
+                    {t.text}
+                    <sup>{t.exponent.toFixed(2)}</sup>
+                  </React.Fragment>
+                ))}
+              </span>
+            </div>
+            <div>
+              5) Explicit multipliers: hubs ({Object.keys(config.hubs).length ? multiplierGroups(config.hubs) : "none"}), disclosed
+              offices ({config.offices.countries.length ? `${config.offices.countries.join(", ")} ×${config.offices.multiplier}` : "none"}
+              {config.offices.weights && Object.keys(config.offices.weights).length
+                ? `, except ${multiplierGroups(config.offices.weights)}`
+                : ""}
+              ), and comprehensive-sanctions near-zero (
+              {config.nearZero.countries.length ? `${config.nearZero.countries.join(", ")} ×${config.nearZero.multiplier}` : "none"}).
+            </div>
+            <div>
+              6) Countries the company discloses directly keep their reported revenue; the remaining scores in each segment are normalized to the segment residual (total minus disclosed); sum across segments; report per-country revenue (USD millions) and share.
+            </div>
+            <div>
+              7) Ranges: the GDP and factor exponents, clamp ceilings, hub premiums and office multipliers (shared and per-country) are re-sampled from the model config&apos;s ranges (fixed seed) and the normalization re-run; the hover panel shows the p10–p90 spread. Segment totals, disclosed countries, the near-zero multiplier and the factor offsets, divisors and fallback medians are held fixed.
+            </div>
+            <div>
+              8) Map shapes are matched to ISO countries by ISO3, then ISO2, then name aliases (sources use &quot;-99&quot; for some countries); unmatched shapes are drawn grey and listed under geometry diagnostics.
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
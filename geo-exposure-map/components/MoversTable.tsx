@@ -0,0 +1,111 @@
+import { useState } from "react";
+import type { CountryChange, PayloadDiff } from "../lib/diff";
+
+type SortKey = "absolute" | "relative" | "share";
+
+type MoversTableProps = {
+  diff: PayloadDiff;
+  hoverIso3: string | null;
+  onHover: (iso3: string | null) => void;
+};
+
+const LIMIT = 30;
+
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+const fmtMillions = (m: number | undefined) => (m == null ? "—" : `$${compact.format(m * 1e6)}`);
+// `text` is the magnitude; the sign comes from `v`.
+const signed = (v: number, text: string) => `${v > 0 ? "+" : v < 0 ? "−" : ""}${text}`;
+const fmtDelta = (m: number) => signed(m, `$${compact.format(Math.abs(m) * 1e6)}`);
+const fmtPp = (s: number) => signed(s, `${Math.abs(s * 100).toFixed(2)}pp`);
+
+// New and dropped countries have no meaningful relative change; they rank after the rest.
+const SORT_VALUE: Record<SortKey, (c: CountryChange) => number | null> = {
+  absolute: (c) => Math.abs(c.revenueDelta),
+  relative: (c) => (c.relative == null || !c.after ? null : Math.abs(c.relative)),
+  share: (c) => Math.abs(c.shareDelta),
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "absolute", label: "Δ revenue" },
+  { key: "relative", label: "Δ %" },
+  { key: "share", label: "Δ share" },
+];
+
+// Biggest movers between the two sides of compare mode, largest change first; hover is
+// shared with the map through onHover.
+export default function MoversTable({ diff, hoverIso3, onHover }: MoversTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("absolute");
+
+  const value = SORT_VALUE[sortKey];
+  const sorted = diff.changes
+    .filter((c) => c.revenueDelta !== 0 || c.shareDelta !== 0)
+    .sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+      return y - x;
+    });
+  const visible = sorted.slice(0, LIMIT);
+
+  return (
+    <div className="flex h-full flex-col text-[11px]">
+      <div className="text-sky-200/70">
+        {diff.before.label} (FY{diff.before.year}) → {diff.after.label} (FY{diff.after.year})
+      </div>
+      <div className="mt-2 min-h-0 flex-1 overflow-y-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-[#0b1118] text-sky-200/70">
+            <tr>
+              <th className="py-1 pr-1 text-right font-normal">#</th>
+              <th className="py-1 pr-2 text-left font-normal">Country</th>
+              <th className="py-1 pl-2 text-right font-normal">Before</th>
+              <th className="py-1 pl-2 text-right font-normal">After</th>
+              {COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  className="py-1 pl-2 text-right font-normal"
+                  aria-sort={sortKey === key ? "descending" : "none"}
+                >
+                  <button className={sortKey === key ? "text-sky-50" : ""} onClick={() => setSortKey(key)}>
+                    {label}
+                    {sortKey === key ? " ↓" : ""}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((c, i) => (
+              <tr
+                key={c.iso3}
+                className={`cursor-default border-t border-[#16202b] ${
+                  hoverIso3 === c.iso3 ? "bg-sky-900/50 text-white" : "text-sky-50"
+                }`}
+                onMouseEnter={() => onHover(c.iso3)}
+                onMouseLeave={() => onHover(null)}
+              >
+                <td className="py-1 pr-1 text-right text-sky-200/50">{i + 1}</td>
+                <td className="max-w-[9rem] truncate py-1 pr-2" title={c.name}>
+                  {c.name}
+                </td>
+                <td className="py-1 pl-2 text-right">{fmtMillions(c.before?.revenueMillions)}</td>
+                <td className="py-1 pl-2 text-right">{fmtMillions(c.after?.revenueMillions)}</td>
+                <td className={`py-1 pl-2 text-right ${c.revenueDelta < 0 ? "text-orange-300" : "text-sky-300"}`}>
+                  {fmtDelta(c.revenueDelta)}
+                </td>
+                <td className="py-1 pl-2 text-right">
+                  {!c.before ? "new" : !c.after ? "dropped" : c.relative == null ? "n/a" : signed(c.relative, `${Math.abs(c.relative * 100).toFixed(1)}%`)}
+                </td>
+                <td className="py-1 pl-2 text-right">{fmtPp(c.shareDelta)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!visible.length ? <div className="py-4 text-center text-slate-400">No country changed</div> : null}
+      </div>
+      <div className="mt-2 text-sky-200/70">
+        {sorted.length} countries changed{sorted.length > LIMIT ? `, top ${LIMIT} shown` : ""}
+      </div>
+    </div>
+  );
+}
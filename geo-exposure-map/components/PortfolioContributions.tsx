@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import type { PortfolioExposure } from "../lib/portfolio";
+
+type PortfolioContributionsProps = {
+  portfolio: PortfolioExposure;
+  names: Record<string, string>;
+  hoverIso3: string | null;
+  onHover: (iso3: string | null) => void;
+  focusIso3: string | null; // set by a map click; the table pages and scrolls to it
+};
+
+const PAGE_SIZE = 25;
+const TOP_HOLDINGS = 3;
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+// Countries ranked by portfolio exposure, each with the holdings that drive it.
+export default function PortfolioContributions({ portfolio, names, hoverIso3, onHover, focusIso3 }: PortfolioContributionsProps) {
+  const [page, setPage] = useState(0);
+  const [lastFocus, setLastFocus] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+
+  const rows = Object.entries(portfolio.exposure)
+    .filter(([, v]) => v > 0)
+    .sort((a, b) => b[1] - a[1]);
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const current = Math.min(page, pageCount - 1);
+
+  if (focusIso3 !== lastFocus) {
+    setLastFocus(focusIso3);
+    const index = rows.findIndex(([iso3]) => iso3 === focusIso3);
+    if (index >= 0) setPage(Math.floor(index / PAGE_SIZE));
+  }
+
+  useEffect(() => {
+    if (focusIso3) rowRefs.current.get(focusIso3)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focusIso3, current]);
+
+  const visible = rows.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  return (
+    <div className="flex h-full flex-col text-[11px]">
+      <div className="text-sky-100">
+        Portfolio exposure · {portfolio.holdings.length} holdings · FY{portfolio.year}
+      </div>
+      <div className="mt-2 min-h-0 flex-1 overflow-y-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-[#0b1118] text-sky-200/70">
+            <tr>
+              <th className="py-1 pr-1 text-right font-normal">#</th>
+              <th className="py-1 pr-2 text-left font-normal">Country</th>
+              <th className="py-1 pl-2 text-right font-normal">Exposure</th>
+              <th className="py-1 pl-2 text-left font-normal">Top contributors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(([iso3, exposure], i) => {
+              const contributions = portfolio.contributions[iso3] ?? [];
+              return (
+                <tr
+                  key={iso3}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(iso3, el);
+                    else rowRefs.current.delete(iso3);
+                  }}
+                  className={`cursor-default border-t border-[#16202b] align-top ${
+                    hoverIso3 === iso3 ? "bg-sky-900/50 text-white" : "text-sky-50"
+                  }`}
+                  onMouseEnter={() => onHover(iso3)}
+                  onMouseLeave={() => onHover(null)}
+                >
+                  <td className="py-1 pr-1 text-right text-sky-200/50">{current * PAGE_SIZE + i + 1}</td>
+                  <td className="max-w-[8rem] truncate py-1 pr-2" title={names[iso3] ?? iso3}>
+                    {names[iso3] ?? iso3}
+                  </td>
+                  <td className="py-1 pl-2 text-right">{pct(exposure)}</td>
+                  <td className="py-1 pl-2 text-sky-200/80">
+                    {contributions.slice(0, TOP_HOLDINGS).map((c) => (
+                      <div key={c.holding} className="truncate" title={`${pct(c.weight)} weight × ${pct(c.share)} of its revenue`}>
+                        {c.holding} · {pct(exposure > 0 ? c.contribution / exposure : 0)}
+                      </div>
+                    ))}
+                    {contributions.length > TOP_HOLDINGS ? (
+                      <div className="text-sky-200/50">+{contributions.length - TOP_HOLDINGS} more</div>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-2 flex items-center justify-between text-sky-200/70">
+        <span>{rows.length} countries</span>
+        <div className="flex items-center gap-2">
+          <button className="px-1 disabled:opacity-40" disabled={current === 0} onClick={() => setPage(current - 1)}>
+            ‹ Prev
+          </button>
+          <span>
+            {current + 1} / {pageCount}
+          </span>
+          <button
+            className="px-1 disabled:opacity-40"
+            disabled={current >= pageCount - 1}
+            onClick={() => setPage(current + 1)}
+          >
+            Next ›
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useRef } from "react";
+import { downloadBlob } from "../lib/map-export";
+import { HOLDINGS_COLUMNS, HOLDINGS_TEMPLATE, REST_OF_WORLD, type PortfolioExposure } from "../lib/portfolio";
+
+type PortfolioPanelProps = {
+  fileName: string | null;
+  portfolio: PortfolioExposure | null;
+  error: string | null;
+  onUpload: (file: File) => void;
+  onClear: () => void;
+  fmtRev: (millions: number) => string;
+};
+
+const button = "rounded-md px-2 py-1 text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600";
+
+// Holdings upload: the file is parsed and allocated in the browser; nothing is uploaded anywhere.
+export default function PortfolioPanel({ fileName, portfolio, error, onUpload, onClear, fmtRev }: PortfolioPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-3 text-[11px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = "";
+          }}
+        />
+        <button className={button} onClick={() => fileRef.current?.click()}>
+          {fileName ? "Replace holdings CSV" : "Upload holdings CSV"}
+        </button>
+        <button
+          className={button}
+          onClick={() => downloadBlob(new Blob([HOLDINGS_TEMPLATE], { type: "text/csv" }), "holdings-template.csv")}
+        >
+          Template
+        </button>
+        {fileName ? (
+          <button className={button} onClick={onClear}>
+            Back to company view
+          </button>
+        ) : null}
+        {fileName ? <span className="text-sky-200/80">{fileName}</span> : null}
+      </div>
+      <div className="text-sky-200/70">
+        Columns: {HOLDINGS_COLUMNS.join(", ")}. One row per holding segment; repeat the holding&apos;s weight on each of its
+        rows. A segment names UN regions, sub-regions, intermediate regions or ISO3 codes separated by &quot;;&quot;, or
+        &quot;{REST_OF_WORLD}&quot; for everything the holding&apos;s other segments leave out. Weights are normalized to
+        sum to 100%.
+      </div>
+      {error ? <pre className="whitespace-pre-wrap text-red-400">{error}</pre> : null}
+      {portfolio ? (
+        <table className="w-full max-w-xl border-collapse">
+          <thead className="text-sky-200/70">
+            <tr>
+              <th className="py-1 pr-2 text-left font-normal">Holding</th>
+              <th className="py-1 pl-2 text-right font-normal">Weight</th>
+              <th className="py-1 pl-2 text-right font-normal">Allocated revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolio.holdings.map((h) => (
+              <tr key={h.name} className="border-t border-[#16202b] text-sky-50">
+                <td className="py-1 pr-2">{h.name}</td>
+                <td className="py-1 pl-2 text-right">{(h.weight * 100).toFixed(2)}%</td>
+                <td className="py-1 pl-2 text-right">${fmtRev(h.revenueMillions)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
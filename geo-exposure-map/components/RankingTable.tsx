@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+export type RankingRow = {
+  iso3: string;
+  name: string;
+  segment: string;
+  region: string;
+  revenueMillions: number;
+  share: number;
+  gdpCurrentUsd: number | null;
+  population: number | null;
+  office: boolean;
+  hub: boolean;
+  nearZero: boolean;
+};
+
+type SortKey = "revenue" | "share" | "gdp" | "population" | "perCapita";
+type FlagKey = "office" | "hub" | "nearZero";
+
+type RankingTableProps = {
+  rows: RankingRow[];
+  segments: Array<{ id: string; label: string }>;
+  hoverIso3: string | null;
+  onHover: (iso3: string | null) => void;
+  focusIso3: string | null; // set by a map click; the table pages and scrolls to it
+};
+
+const PAGE_SIZE = 25;
+
+const perCapitaUsd = (r: RankingRow) =>
+  r.population && r.population > 0 ? (r.revenueMillions * 1e6) / r.population : null;
+
+const SORT_VALUE: Record<SortKey, (r: RankingRow) => number | null> = {
+  revenue: (r) => r.revenueMillions,
+  share: (r) => r.share,
+  gdp: (r) => r.gdpCurrentUsd,
+  population: (r) => r.population,
+  perCapita: perCapitaUsd,
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "revenue", label: "Revenue" },
+  { key: "share", label: "Share" },
+  { key: "gdp", label: "GDP" },
+  { key: "population", label: "Pop." },
+  { key: "perCapita", label: "Rev/cap" },
+];
+
+const FLAGS: Array<{ key: FlagKey; label: string }> = [
+  { key: "office", label: "Office" },
+  { key: "hub", label: "Hub" },
+  { key: "nearZero", label: "Near-zero" },
+];
+
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+const fmtMillions = (m: number) => `$${compact.format(m * 1e6)}`;
+const fmtCompact = (v: number | null, prefix = "") => (v == null ? "n/a" : `${prefix}${compact.format(v)}`);
+const fmtPerCapita = (v: number | null) => (v == null ? "n/a" : `$${v < 1 ? v.toFixed(3) : v.toFixed(2)}`);
+
+// Ranking of the selected year's allocation. Sorting, filters and paging are local state;
+// hover is shared with the map through onHover.
+export default function RankingTable({ rows, segments, hoverIso3, onHover, focusIso3 }: RankingTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("revenue");
+  const [desc, setDesc] = useState(true);
+  const [segment, setSegment] = useState("");
+  const [region, setRegion] = useState("");
+  const [flags, setFlags] = useState<FlagKey[]>([]);
+  const [page, setPage] = useState(0);
+  const [lastFocus, setLastFocus] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+
+  const regions = useMemo(() => [...new Set(rows.map((r) => r.region).filter(Boolean))].sort(), [rows]);
+
+  const matches = (r: RankingRow) =>
+    (!segment || r.segment === segment) && (!region || r.region === region) && flags.every((k) => r[k]);
+
+  // Missing values sort last in either direction.
+  const sortRows = (list: RankingRow[]) => {
+    const value = SORT_VALUE[sortKey];
+    return list.sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+      return desc ? y - x : x - y;
+    });
+  };
+
+  const sorted = sortRows(rows.filter(matches));
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const current = Math.min(page, pageCount - 1);
+
+  // A map click jumps to the clicked country's page, clearing filters that would hide it.
+  if (focusIso3 !== lastFocus) {
+    setLastFocus(focusIso3);
+    const target = focusIso3 ? rows.find((r) => r.iso3 === focusIso3) : undefined;
+    if (target) {
+      let list = sorted;
+      if (!matches(target)) {
+        setSegment("");
+        setRegion("");
+        setFlags([]);
+        list = sortRows([...rows]);
+      }
+      const index = list.findIndex((r) => r.iso3 === focusIso3);
+      if (index >= 0) setPage(Math.floor(index / PAGE_SIZE));
+    }
+  }
+
+  useEffect(() => {
+    if (focusIso3) rowRefs.current.get(focusIso3)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focusIso3, current]);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setDesc((d) => !d);
+    else {
+      setSortKey(key);
+      setDesc(true);
+    }
+    setPage(0);
+  };
+
+  const toggleFlag = (key: FlagKey) => {
+    setFlags((f) => (f.includes(key) ? f.filter((k) => k !== key) : [...f, key]));
+    setPage(0);
+  };
+
+  const select = "rounded-md bg-[#0f1722] px-2 py-1 text-[11px] text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600";
+  const visible = sorted.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  return (
+    <div className="flex h-full flex-col text-[11px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Filter by segment"
+          className={select}
+          value={segment}
+          onChange={(e) => {
+            setSegment(e.target.value);
+            setPage(0);
+          }}
+        >
+          <option value="">All segments</option>
+          {segments.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by region"
+          className={select}
+          value={region}
+          onChange={(e) => {
+            setRegion(e.target.value);
+            setPage(0);
+          }}
+        >
+          <option value="">All regions</option>
+          {regions.map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+        {FLAGS.map(({ key, label }) => (
+          <button
+            key={key}
+            aria-pressed={flags.includes(key)}
+            className={`rounded-full px-2 py-0.5 ring-1 ${
+              flags.includes(key) ? "bg-sky-900/70 text-sky-50 ring-sky-600" : "text-sky-200/70 ring-[#1f2b38]"
+            }`}
+            onClick={() => toggleFlag(key)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-2 min-h-0 flex-1 overflow-y-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-[#0b1118] text-sky-200/70">
+            <tr>
+              <th className="py-1 pr-1 text-right font-normal">#</th>
+              <th className="py-1 pr-2 text-left font-normal">Country</th>
+              {COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  className="py-1 pl-2 text-right font-normal"
+                  aria-sort={sortKey === key ? (desc ? "descending" : "ascending") : "none"}
+                >
+                  <button className={sortKey === key ? "text-sky-50" : ""} onClick={() => sortBy(key)}>
+                    {label}
+                    {sortKey === key ? (desc ? " ↓" : " ↑") : ""}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((r, i) => (
+              <tr
+                key={r.iso3}
+                ref={(el) => {
+                  if (el) rowRefs.current.set(r.iso3, el);
+                  else rowRefs.current.delete(r.iso3);
+                }}
+                className={`cursor-default border-t border-[#16202b] ${
+                  hoverIso3 === r.iso3 ? "bg-sky-900/50 text-white" : "text-sky-50"
+                }`}
+                onMouseEnter={() => onHover(r.iso3)}
+                onMouseLeave={() => onHover(null)}
+              >
+                <td className="py-1 pr-1 text-right text-sky-200/50">{current * PAGE_SIZE + i + 1}</td>
+                <td className="max-w-[9rem] truncate py-1 pr-2" title={r.name}>
+                  {r.name}
+                </td>
+                <td className="py-1 pl-2 text-right">{fmtMillions(r.revenueMillions)}</td>
+                <td className="py-1 pl-2 text-right">{(r.share * 100).toFixed(2)}%</td>
+                <td className="py-1 pl-2 text-right">{fmtCompact(r.gdpCurrentUsd, "$")}</td>
+                <td className="py-1 pl-2 text-right">{fmtCompact(r.population)}</td>
+                <td className="py-1 pl-2 text-right">{fmtPerCapita(perCapitaUsd(r))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!visible.length ? <div className="py-4 text-center text-slate-400">No countries match these filters</div> : null}
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-sky-200/70">
+        <span>
+          {sorted.length} countries
+        </span>
+        <div className="flex items-center gap-2">
+          <button className="px-1 disabled:opacity-40" disabled={current === 0} onClick={() => setPage(current - 1)}>
+            ‹ Prev
+          </button>
+          <span>
+            {current + 1} / {pageCount}
+          </span>
+          <button
+            className="px-1 disabled:opacity-40"
+            disabled={current >= pageCount - 1}
+            onClick={() => setPage(current + 1)}
+          >
+            Next ›
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import type { CompanyProfile } from "../lib/company-profile";
+import { FACTOR_NAMES, SCORING_INDICATORS, type FactorName } from "../lib/indicators";
+import type { ModelConfig } from "../lib/model-config";
+import { BASELINE_SCENARIO_NAME, type Scenario } from "../lib/scenario";
+
+type ScenarioPanelProps = {
+  profile: CompanyProfile;
+  year: number;
+  baseline: Scenario;
+  scenario: Scenario;
+  saved: Scenario[]; // saved scenarios for this profile
+  knownIso3: (iso3: string) => boolean;
+  droppedFactors: FactorName[]; // factors whose input failed to load; their sliders do nothing
+  error: string | null;
+  skipped: string[]; // why saved scenarios that no longer parse were left out
+  onChange: (scenario: Scenario) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+};
+
+const FACTOR_LABELS = Object.fromEntries(SCORING_INDICATORS.map((d) => [d.factor.name, d.shortLabel])) as Record<
+  FactorName,
+  string
+>;
+
+type SliderProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  baseline?: number;
+  disabled?: boolean;
+  onChange: (v: number) => void;
+};
+
+function Slider({ label, value, min, max, step, baseline, disabled, onChange }: SliderProps) {
+  const changed = baseline != null && Math.abs(value - baseline) > step / 2;
+  return (
+    <label className={`grid grid-cols-[7.5rem_1fr_3.5rem] items-center gap-2 ${disabled ? "opacity-40" : ""}`}>
+      <span className={changed ? "text-amber-200" : "text-sky-200/80"}>{label}</span>
+      <input
+        type="range"
+        className="accent-sky-400"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      <span className="text-right text-sky-50">{Number(value.toPrecision(4))}</span>
+    </label>
+  );
+}
+
+const section = "space-y-1.5 rounded-lg p-3 ring-1 ring-[#1f2b38]";
+const heading = "mb-1 text-[11px] font-semibold uppercase tracking-wide text-sky-100";
+const button = "rounded-md px-2 py-1 text-sky-50 ring-1 ring-[#1f2b38] hover:ring-sky-600 disabled:opacity-40";
+
+// Model parameters as controls. Every edit produces a new Scenario; the page re-scores
+// its cached inputs, so nothing is refetched.
+export default function ScenarioPanel(props: ScenarioPanelProps) {
+  const { profile, year, baseline, scenario, saved, knownIso3, droppedFactors, error, skipped, onChange, onSave, onDelete } = props;
+  const [name, setName] = useState("");
+  const [nearZeroInput, setNearZeroInput] = useState("");
+  const { config } = scenario;
+  const base = baseline.config;
+
+  const update = (fn: (c: ModelConfig) => ModelConfig) => onChange({ ...scenario, config: fn(config) });
+  const setFactor = (f: FactorName, patch: Partial<ModelConfig["factors"][FactorName]>) =>
+    update((c) => ({ ...c, factors: { ...c.factors, [f]: { ...c.factors[f], ...patch } } }));
+
+  const hubIsos = [...new Set([...Object.keys(base.hubs), ...Object.keys(config.hubs)])].sort();
+  const officeIsos = [...new Set([...base.offices.countries, ...config.offices.countries])].sort();
+
+  const toggleHub = (iso: string, on: boolean) =>
+    update((c) => {
+      const hubs = { ...c.hubs };
+      if (on) hubs[iso] = base.hubs[iso] ?? 1.2;
+      else delete hubs[iso];
+      return { ...c, hubs };
+    });
+
+  const toggleOffice = (iso: string, on: boolean) =>
+    update((c) => {
+      const countries = on ? [...c.offices.countries, iso].sort() : c.offices.countries.filter((x) => x !== iso);
+      const offices: ModelConfig["offices"] = { multiplier: c.offices.multiplier, countries };
+      const weights = { ...c.offices.weights };
+      if (!on) delete weights[iso];
+      if (Object.keys(weights).length) offices.weights = weights;
+      return { ...c, offices };
+    });
+
+  const setOfficeWeight = (iso: string, w: number) =>
+    update((c) => ({ ...c, offices: { ...c.offices, weights: { ...c.offices.weights, [iso]: w } } }));
+
+  const nearZeroCandidate = nearZeroInput.trim().toUpperCase();
+  const canAddNearZero = knownIso3(nearZeroCandidate) && !config.nearZero.countries.includes(nearZeroCandidate);
+  const addNearZero = () => {
+    if (!canAddNearZero) return;
+    update((c) => ({ ...c, nearZero: { ...c.nearZero, countries: [...c.nearZero.countries, nearZeroCandidate].sort() } }));
+    setNearZeroInput("");
+  };
+
+  const yearKey = String(year);
+  const setSegmentTotal = (id: string, value: number | null) => {
+    const totals = { ...scenario.segmentTotals[yearKey] };
+    if (value == null) delete totals[id];
+    else totals[id] = value;
+    const segmentTotals = { ...scenario.segmentTotals, [yearKey]: totals };
+    if (!Object.keys(totals).length) delete segmentTotals[yearKey];
+    onChange({ ...scenario, segmentTotals });
+  };
+
+  return (
+    <div className="space-y-3 text-[11px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Saved scenarios"
+          className="rounded-md bg-[#0f1722] px-2 py-1 text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
+          value={saved.some((s) => s.name === scenario.name) ? scenario.name : ""}
+          onChange={(e) => {
+            const next = saved.find((s) => s.name === e.target.value);
+            if (next) onChange(next);
+          }}
+        >
+          <option value="">{saved.length ? "Load saved scenario…" : "No saved scenarios"}</option>
+          {saved.map((s) => (
+            <option key={s.name} value={s.name}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <input
+          className="w-40 rounded-md bg-[#0f1722] px-2 py-1 text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
+          placeholder="Scenario name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className={button}
+          disabled={!name.trim() || name.trim() === BASELINE_SCENARIO_NAME}
+          onClick={() => {
+            onSave(name.trim());
+            setName("");
+          }}
+        >
+          Save
+        </button>
+        {saved.some((s) => s.name === scenario.name) ? (
+          <button className={button} onClick={() => onDelete(scenario.name)}>
+            Delete “{scenario.name}”
+          </button>
+        ) : null}
+        <button className={button} onClick={() => onChange(baseline)}>
+          Reset to published baseline
+        </button>
+      </div>
+      {error ? <div className="text-red-400">{error}</div> : null}
+      {skipped.length ? (
+        <div className="text-amber-200">
+          Skipped saved scenarios that no longer load:
+          <ul className="mt-1 list-disc pl-5 text-amber-100/80">
+            {skipped.map((issue, i) => (
+              <li key={i}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className={section}>
+          <div className={heading}>Exponents and clamps</div>
+          <Slider
+            label="GDP exponent"
+            value={config.gdpExponent}
+            baseline={base.gdpExponent}
+            min={0}
+            max={1.5}
+            step={0.01}
+            onChange={(v) => update((c) => ({ ...c, gdpExponent: v }))}
+          />
+          {FACTOR_NAMES.map((f) => (
+            <div key={f} className="space-y-1 pt-1">
+              <Slider
+                label={`${FACTOR_LABELS[f]} exp.`}
+                value={config.factors[f].exponent}
+                baseline={base.factors[f].exponent}
+                min={0}
+                max={2}
+                step={0.01}
+                disabled={droppedFactors.includes(f)}
+                onChange={(v) => setFactor(f, { exponent: v })}
+              />
+              <Slider
+                label="clamp max"
+                value={config.factors[f].clamp[1]}
+                baseline={base.factors[f].clamp[1]}
+                min={config.factors[f].clamp[0]}
+                max={base.factors[f].clamp[1] * 3}
+                step={base.factors[f].clamp[1] / 100}
+                disabled={droppedFactors.includes(f)}
+                onChange={(v) => setFactor(f, { clamp: [config.factors[f].clamp[0], v] })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className={section}>
+            <div className={heading}>Segment totals · FY{year} (USD millions)</div>
+            {profile.segments.map((s) => {
+              const published = profile.anchors[yearKey]?.[s.id];
+              const override = scenario.segmentTotals[yearKey]?.[s.id];
+              return (
+                <label key={s.id} className="grid grid-cols-[7.5rem_1fr_auto] items-center gap-2">
+                  <span className={override != null ? "text-amber-200" : "text-sky-200/80"}>{s.label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="rounded-md bg-[#0f1722] px-2 py-1 text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
+                    value={override ?? published ?? ""}
+                    onChange={(e) => {
+                      const v = e.target.valueAsNumber;
+                      if (Number.isFinite(v) && v >= 0) setSegmentTotal(s.id, v);
+                    }}
+                  />
+                  <button
+                    className="text-sky-300 disabled:opacity-30"
+                    disabled={override == null}
+                    onClick={() => setSegmentTotal(s.id, null)}
+                  >
+                    reset
+                  </button>
+                </label>
+              );
+            })}
+          </div>
+
+          <div className={section}>
+            <div className={heading}>Near-zero (sanctions)</div>
+            <Slider
+              label="Multiplier"
+              value={config.nearZero.multiplier}
+              baseline={base.nearZero.multiplier}
+              min={0.001}
+              max={0.5}
+              step={0.001}
+              onChange={(v) => update((c) => ({ ...c, nearZero: { ...c.nearZero, multiplier: v } }))}
+            />
+            <div className="flex flex-wrap items-center gap-1.5">
+              {config.nearZero.countries.map((iso) => (
+                <button
+                  key={iso}
+                  className="rounded-full px-2 py-0.5 text-sky-50 ring-1 ring-[#1f2b38] hover:ring-red-500"
+                  aria-label={`Remove ${iso} from near-zero`}
+                  onClick={() =>
+                    update((c) => ({
+                      ...c,
+                      nearZero: { ...c.nearZero, countries: c.nearZero.countries.filter((x) => x !== iso) },
+                    }))
+                  }
+                >
+                  {iso} ×
+                </button>
+              ))}
+              <input
+                className="w-16 rounded-md bg-[#0f1722] px-2 py-0.5 uppercase text-sky-50 outline-none ring-1 ring-[#1f2b38] focus:ring-sky-600"
+                placeholder="ISO3"
+                maxLength={3}
+                value={nearZeroInput}
+                onChange={(e) => setNearZeroInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addNearZero()}
+              />
+              <button className={button} disabled={!canAddNearZero} onClick={addNearZero}>
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className={section}>
+          <div className={heading}>Hubs</div>
+          {hubIsos.map((iso) => {
+            const on = config.hubs[iso] != null;
+            return (
+              <div key={iso} className="grid grid-cols-[auto_1fr] items-center gap-2">
+                <input
+                  type="checkbox"
+                  aria-label={`${iso} hub`}
+                  className="accent-sky-400"
+                  checked={on}
+                  onChange={(e) => toggleHub(iso, e.target.checked)}
+                />
+                <Slider
+                  label={iso}
+                  value={config.hubs[iso] ?? base.hubs[iso] ?? 1}
+                  baseline={base.hubs[iso]}
+                  min={1}
+                  max={3}
+                  step={0.01}
+                  disabled={!on}
+                  onChange={(v) => update((c) => ({ ...c, hubs: { ...c.hubs, [iso]: v } }))}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={section}>
+          <div className={heading}>Offices</div>
+          <Slider
+            label="Default multiplier"
+            value={config.offices.multiplier}
+            baseline={base.offices.multiplier}
+            min={1}
+            max={2}
+            step={0.01}
+            onChange={(v) => update((c) => ({ ...c, offices: { ...c.offices, multiplier: v } }))}
+          />
+          {officeIsos.map((iso) => {
+            const on = config.offices.countries.includes(iso);
+            return (
+              <div key={iso} className="grid grid-cols-[auto_1fr] items-center gap-2">
+                <input
+                  type="checkbox"
+                  aria-label={`${iso} office`}
+                  className="accent-sky-400"
+                  checked={on}
+                  onChange={(e) => toggleOffice(iso, e.target.checked)}
+                />
+                <Slider
+                  label={iso}
+                  value={config.offices.weights?.[iso] ?? config.offices.multiplier}
+                  baseline={base.offices.weights?.[iso] ?? base.offices.multiplier}
+                  min={0.5}
+                  max={2}
+                  step={0.01}
+                  disabled={!on}
+                  onChange={(v) => setOfficeWeight(iso, v)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+export type SegmentStat = {
+  id: string;
+  label: string;
+  color: string;
+  anchorMillions: number; // reported segment revenue for the year
+  countryCount: number;
+  top: Array<{ iso3: string; name: string; withinShare: number }>;
+};
+
+type SegmentSummaryProps = {
+  segments: SegmentStat[];
+  focusSegment: string | null;
+  onSelect: (id: string | null) => void;
+  fmtRev: (millions: number) => string;
+};
+
+// One card per reporting segment; clicking a card drills the map into that segment.
+export default function SegmentSummary({ segments, focusSegment, onSelect, fmtRev }: SegmentSummaryProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-3">
+      {segments.map((s) => {
+        const active = focusSegment === s.id;
+        return (
+          <button
+            key={s.id}
+            aria-pressed={active}
+            className={`rounded-lg px-3 py-2 text-left text-[11px] ring-1 transition ${
+              active ? "bg-[#0f1722] ring-sky-500" : "ring-[#1f2b38] hover:ring-sky-700"
+            }`}
+            onClick={() => onSelect(active ? null : s.id)}
+          >
+            <div className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ background: s.color }} />
+              <span className="font-semibold text-sky-50">{s.label}</span>
+            </div>
+            <div className="mt-1 text-sky-100">
+              ${fmtRev(s.anchorMillions)} · {s.countryCount} countries
+            </div>
+            <ol className="mt-1 space-y-0.5 text-sky-200/80">
+              {s.top.map((c) => (
+                <li key={c.iso3} className="flex justify-between gap-2">
+                  <span className="truncate">{c.name}</span>
+                  <span>{(c.withinShare * 100).toFixed(1)}%</span>
+                </li>
+              ))}
+            </ol>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+type SparklineProps = {
+  points: Array<{ year: number; value: number }>;
+  activeYear: number | null;
+  width?: number;
+  height?: number;
+};
+
+// Tiny revenue trajectory for the hover panel; the active fiscal year is marked with a dot.
+export default function Sparkline({ points, activeYear, width = 160, height = 36 }: SparklineProps) {
+  if (points.length < 2) return null;
+  const pad = 3;
+  const years = points.map((p) => p.year);
+  const values = points.map((p) => p.value);
+  const minYear = Math.min(...years);
+  const maxYear = Math.max(...years);
+  const maxValue = Math.max(...values) || 1;
+  const x = (year: number) => pad + ((year - minYear) / (maxYear - minYear || 1)) * (width - pad * 2);
+  const y = (value: number) => height - pad - (value / maxValue) * (height - pad * 2);
+  const active = points.find((p) => p.year === activeYear);
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+      <polyline
+        points={points.map((p) => `${x(p.year)},${y(p.value)}`).join(" ")}
+        fill="none"
+        stroke="#38bdf8"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      {active ? <circle cx={x(active.year)} cy={y(active.value)} r={2.8} fill="#e0f7ff" /> : null}
+    </svg>
+  );
+}
@@ -0,0 +1,16 @@
+// Number formats shared by the page, its hooks and the panels it passes them to.
+
+export const fmtRev = (millions: number) => {
+  if (millions >= 1000) {
+    const b = millions / 1000;
+    return `${new Intl.NumberFormat("en-US", { maximumFractionDigits: b >= 10 ? 1 : 2 }).format(b)}B`;
+  }
+  return `${new Intl.NumberFormat("en-US", { maximumFractionDigits: millions >= 10 ? 1 : 2 }).format(millions)}M`;
+};
+export const fmtPct = (share: number) => `${Math.round(share * 10000) / 100}%`;
+export const fmtPopulation = (v: number | null) =>
+  v == null ? "n/a" : new Intl.NumberFormat("en-US", { notation: "compact" }).format(v);
+export const fmtCurrency = (v: number | null) =>
+  v == null
+    ? "n/a"
+    : new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 }).format(v);
@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+import { divergingScale } from "../lib/classify";
+import type { CompanyProfile } from "../lib/company-profile";
+import { DiffError, diffSides, parseComparisonPayload, payloadSide } from "../lib/diff";
+import { AllocationError, computeExposure, type ApiPayload, type ExposureInputs } from "../lib/exposure-core";
+import type { PortfolioExposure } from "../lib/portfolio";
+import { applyScenario, BASELINE_SCENARIO_NAME, type Scenario } from "../lib/scenario";
+import type { CompareSource, DiffMetric } from "./ComparePanel";
+import { fmtRev } from "./format";
+
+type CompareOptions = {
+  profile: CompanyProfile;
+  payload: ApiPayload | null;
+  year: number | null;
+  label: string | null; // the current scenario's label; null for the published baseline
+  inputs: ExposureInputs | null; // only scenario comparisons re-score; years and saved payloads do not
+  baseline: Scenario;
+  saved: Scenario[] | null;
+  portfolio: PortfolioExposure | null; // compare mode is off while a portfolio is loaded
+  requestInputs: () => void; // asks for the inputs when a scenario becomes the source
+};
+
+/** Compare mode: the current view (scenario and year) is "after"; the chosen source is "before". */
+export function useCompare(options: CompareOptions) {
+  const { profile, payload, year, label, inputs, baseline, saved, portfolio, requestInputs } = options;
+  const [source, setSource] = useState<CompareSource | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<DiffMetric>("revenue");
+  const [show, setShow] = useState<boolean>(false);
+
+  const comparison = useMemo(() => {
+    if (!source || portfolio || !payload || year == null) return { diff: null, error: null };
+    const after = payloadSide(payload, year, label ?? BASELINE_SCENARIO_NAME);
+    if (source.kind === "year") return { diff: diffSides(payloadSide(payload, source.year, `FY${source.year}`), after), error: null };
+    if (source.kind === "payload") {
+      const other = source.payload;
+      const at = other.years.includes(year) ? year : other.fiscalYear;
+      return { diff: diffSides(payloadSide(other, at, `${source.fileName} (${other.meta.model.name})`), after), error: null };
+    }
+    const scenario =
+      source.name === BASELINE_SCENARIO_NAME ? baseline : saved?.find((s) => s.ticker === profile.ticker && s.name === source.name);
+    if (!scenario) return { diff: null, error: `no saved scenario named "${source.name}"` };
+    if (!inputs) return { diff: null, error: null }; // still loading; the page shows the load status
+    try {
+      const { config, profile: p } = applyScenario(profile, scenario);
+      const before = computeExposure(inputs, { config, profile: p, uncertainty: false });
+      return { diff: diffSides(payloadSide(before, year, scenario.name), after), error: null };
+    } catch (e) {
+      if (!(e instanceof AllocationError)) throw e;
+      return { diff: null, error: `${scenario.name}: ${e.message}` };
+    }
+  }, [source, portfolio, payload, inputs, year, label, baseline, saved, profile]);
+  const diff = comparison.diff;
+  const scale = useMemo(
+    () => divergingScale(!diff ? 0 : metric === "revenue" ? diff.maxAbsRevenueDelta : diff.maxAbsShareDelta),
+    [diff, metric],
+  );
+  const value = (iso3: string) => {
+    const change = diff?.byIso[iso3];
+    return !change ? 0 : metric === "revenue" ? change.revenueDelta : change.shareDelta;
+  };
+
+  const choose = (next: CompareSource | null) => {
+    if (next?.kind === "scenario") requestInputs();
+    setSource(next);
+    setSourceError(null);
+  };
+
+  return {
+    source,
+    diff,
+    error: sourceError ?? comparison.error,
+    metric,
+    setMetric,
+    scale,
+    value,
+    format: (v: number) => {
+      const sign = v > 0 ? "+" : v < 0 ? "−" : "";
+      return metric === "revenue" ? `${sign}$${fmtRev(Math.abs(v))}` : `${sign}${(Math.abs(v) * 100).toFixed(2)}pp`;
+    },
+    show,
+    toggle: () => setShow(!show),
+    choose,
+    upload: async (file: File) => {
+      try {
+        const other = parseComparisonPayload(await file.text(), file.name);
+        if (other.meta.profile.ticker && other.meta.profile.ticker !== profile.ticker) {
+          setSourceError(`${file.name} is a ${other.meta.profile.ticker} payload; the current company is ${profile.ticker}`);
+          return;
+        }
+        choose({ kind: "payload", fileName: file.name, payload: other });
+      } catch (e) {
+        if (!(e instanceof DiffError)) throw e;
+        setSourceError(e.message);
+      }
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { CompanyProfile } from "../lib/company-profile";
+import { DEFAULT_PROFILE, profileByTicker } from "../lib/profiles";
+import type { Scenario } from "../lib/scenario";
+import { decodeLink, encodeLink, type LinkState } from "../lib/url-state";
+
+// The URL hash follows the page after this pause, so slider drags do not flood history.replaceState.
+const LINK_WRITE_MS = 300;
+
+/**
+ * Shared links (lib/url-state.ts): the hash is read once after hydration and whenever it
+ * is edited by hand, and rewritten (without a history entry) as `state` changes. `apply`
+ * receives each decoded link with the company it names; parts that did not decode are
+ * kept in `issues` for the page to list.
+ */
+export function useLinkState(
+  state: LinkState,
+  baseline: Scenario,
+  apply: (link: LinkState, linked: CompanyProfile) => void,
+) {
+  const [issues, setIssues] = useState<string[]>([]);
+  const [version, setVersion] = useState<number>(0); // remounts local editor state when a link applies
+  const [copied, setCopied] = useState<boolean>(false);
+  const applied = useRef(false);
+
+  const applyLink = useEffectEvent((hash: string) => {
+    const { state: link, issues: found } = decodeLink(hash, (t) => (t ? (profileByTicker(t) ?? null) : DEFAULT_PROFILE));
+    const linked = profileByTicker(link.ticker ?? "") ?? DEFAULT_PROFILE;
+    setIssues(found);
+    setVersion((v) => v + 1);
+    apply(link, linked);
+  });
+
+  useEffect(() => {
+    const onHashChange = () => applyLink(window.location.hash);
+    const frame = requestAnimationFrame(() => {
+      if (window.location.hash) applyLink(window.location.hash);
+      applied.current = true;
+    });
+    window.addEventListener("hashchange", onHashChange);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("hashchange", onHashChange);
+    };
+  }, []);
+
+  const hash = encodeLink(state, baseline);
+  useEffect(() => {
+    if (!applied.current) return;
+    const timer = setTimeout(() => {
+      const url = `${window.location.pathname}${window.location.search}#${hash}`;
+      if (window.location.hash !== `#${hash}`) window.history.replaceState(window.history.state, "", url);
+    }, LINK_WRITE_MS);
+    return () => clearTimeout(timer);
+  }, [hash]);
+
+  return {
+    issues,
+    dismissIssues: () => setIssues([]),
+    version,
+    copied,
+    copy: () => {
+      const { origin, pathname, search } = window.location;
+      navigator.clipboard
+        .writeText(`${origin}${pathname}${search}#${hash}`)
+        .then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        })
+        .catch((e) => console.error(e));
+    },
+  };
+}
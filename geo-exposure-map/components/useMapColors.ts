@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import { classify, DEFAULT_CLASSIFY, type ClassifyOptions } from "../lib/classify";
+import type { CompanyProfile } from "../lib/company-profile";
+import type { ApiPayload } from "../lib/exposure-core";
+import { formatMetric, metricDefinition, metricValues, type MetricId } from "../lib/metrics";
+import type { PortfolioExposure } from "../lib/portfolio";
+import { fmtPct, fmtRev } from "./format";
+import type { SegmentStat } from "./SegmentSummary";
+
+export type ColorMode = "share" | "segment";
+
+type CountryDetail = ApiPayload["countryDetails"][number];
+
+// Segment mode: one categorical color per reporting segment, in profile order (Okabe–Ito,
+// distinguishable with the common color-vision deficiencies).
+const SEGMENT_PALETTE = ["#56b4e9", "#e69f00", "#009e73", "#f0e442", "#cc79a7", "#d55e00", "#0072b2", "#bbbbbb"];
+const UNSEGMENTED_FILL = "#1e293b";
+const DIMMED_FILL = "#0b1219";
+// Metric value missing (no population or GDP for the denominator).
+export const NO_DATA_FILL = "#334155";
+const SEGMENT_TOP_N = 3;
+
+type MapColorOptions = {
+  profile: CompanyProfile;
+  payload: ApiPayload | null;
+  details: Record<string, CountryDetail>;
+  year: number | null;
+  // Each country's values as of the selected year.
+  yearView: {
+    shares: Record<string, number>;
+    revenue: Record<string, number>;
+    population: Record<string, number | null>;
+    gdp: Record<string, { usd: number | null }>;
+  };
+  focusSegment: string | null; // the drilled segment
+  portfolio: PortfolioExposure | null;
+  diffColor: ((iso3: string) => string) | null; // compare mode colors by change instead
+};
+
+/**
+ * What the map's colors stand for: the metric, classification and color mode, and the
+ * fill they give each country. The share view colors by the selected metric; a portfolio
+ * by exposure, segment mode by segment and a drilled segment by share within it.
+ */
+export function useMapColors(options: MapColorOptions) {
+  const { profile, payload, details, year, yearView, focusSegment, portfolio, diffColor } = options;
+  const [metric, setMetric] = useState<MetricId>("share");
+  const [colorMode, setColorMode] = useState<ColorMode>("share");
+  const [classifyOptions, setClassifyOptions] = useState<ClassifyOptions>(DEFAULT_CLASSIFY);
+
+  // Segment mode: per-segment totals and each country's share within its own segment.
+  const segmentView = useMemo(() => {
+    const colors: Record<string, string> = {};
+    profile.segments.forEach((s, i) => (colors[s.id] = SEGMENT_PALETTE[i % SEGMENT_PALETTE.length]));
+    const totals: Record<string, number> = {};
+    const members: Record<string, CountryDetail[]> = {};
+    for (const d of Object.values(details)) {
+      if (!d.segment) continue;
+      totals[d.segment] = (totals[d.segment] ?? 0) + (yearView.revenue[d.iso3] ?? 0);
+      (members[d.segment] ??= []).push(d);
+    }
+    const within: Record<string, number> = {};
+    for (const d of Object.values(details)) {
+      if (!d.segment) continue;
+      const total = totals[d.segment];
+      within[d.iso3] = total > 0 ? (yearView.revenue[d.iso3] ?? 0) / total : 0;
+    }
+    const anchors = payload?.meta.profile.segments ?? [];
+    const stats: SegmentStat[] = profile.segments.map((s) => ({
+      id: s.id,
+      label: s.label,
+      color: colors[s.id],
+      anchorMillions: anchors.find((a) => a.id === s.id)?.revenueByYear[String(year)] ?? totals[s.id] ?? 0,
+      countryCount: members[s.id]?.length ?? 0,
+      top: [...(members[s.id] ?? [])]
+        .sort((a, b) => (within[b.iso3] ?? 0) - (within[a.iso3] ?? 0))
+        .slice(0, SEGMENT_TOP_N)
+        .map((d) => ({ iso3: d.iso3, name: d.name, withinShare: within[d.iso3] ?? 0 })),
+    }));
+    return { colors, within, stats };
+  }, [details, yearView, profile, payload, year]);
+  const focusLabel = profile.segments.find((s) => s.id === focusSegment)?.label ?? null;
+
+  const drilled = colorMode === "segment" && focusSegment != null;
+  const activeMetric = metricDefinition(colorMode === "share" && !portfolio ? metric : "share");
+  const metricMap = useMemo(
+    () =>
+      metricValues(
+        activeMetric.id,
+        Object.values(details).map((d) => ({
+          iso3: d.iso3,
+          segment: d.segment,
+          revenueMillions: yearView.revenue[d.iso3] ?? 0,
+          share: yearView.shares[d.iso3] ?? 0,
+          population: yearView.population[d.iso3] ?? null,
+          gdpCurrentUsd: yearView.gdp[d.iso3]?.usd ?? null,
+        })),
+      ),
+    [activeMetric, details, yearView],
+  );
+  const metricMissing = Object.values(metricMap).some((v) => v == null);
+  const intensity = portfolio?.exposure ?? yearView.shares;
+  const colorScale = useMemo(() => {
+    const values = drilled
+      ? Object.entries(segmentView.within).flatMap(([iso, v]) => (details[iso]?.segment === focusSegment ? [v] : []))
+      : portfolio
+        ? Object.values(intensity)
+        : Object.values(metricMap).filter((v): v is number => v != null);
+    return classify(values, classifyOptions);
+  }, [drilled, segmentView, details, focusSegment, portfolio, intensity, metricMap, classifyOptions]);
+
+  // Legend values: shares in percent plus the USD they stand for (none for a portfolio's
+  // weighted shares); other metrics in their own units.
+  const legendTotalMillions = drilled
+    ? (segmentView.stats.find((st) => st.id === focusSegment)?.anchorMillions ?? 0)
+    : portfolio
+      ? null
+      : Object.values(yearView.revenue).reduce((a, v) => a + v, 0);
+  const formatLegend = (v: number) =>
+    !drilled && !portfolio && activeMetric.id !== "share"
+      ? formatMetric(activeMetric.id, v, false)
+      : legendTotalMillions == null
+        ? fmtPct(v)
+        : `${fmtPct(v)} · $${fmtRev(v * legendTotalMillions)}`;
+
+  const fillFor = (iso3: string) => {
+    if (diffColor) return diffColor(iso3);
+    if (colorMode === "share" && portfolio) return colorScale.color(intensity[iso3] ?? 0);
+    if (colorMode === "share") {
+      const v = metricMap[iso3];
+      return v === null ? NO_DATA_FILL : colorScale.color(v ?? 0);
+    }
+    const seg = details[iso3]?.segment;
+    if (focusSegment) {
+      return seg === focusSegment ? colorScale.color(segmentView.within[iso3] ?? 0) : DIMMED_FILL;
+    }
+    return seg ? segmentView.colors[seg] : UNSEGMENTED_FILL;
+  };
+
+  return {
+    metric,
+    setMetric,
+    colorMode,
+    setColorMode,
+    classifyOptions,
+    setClassifyOptions,
+    segmentView,
+    focusLabel,
+    drilled,
+    activeMetric,
+    metricMap,
+    metricMissing,
+    intensity,
+    colorScale,
+    formatLegend,
+    fillFor,
+  };
+}
@@ -0,0 +1,60 @@
+import { useMemo, useRef, useState } from "react";
+import { centerView, nearestInDirection, neighborInDirection, type ArrowDirection, type MapView } from "../lib/map-view";
+
+type Shape = { key: string; iso3: string | null; d: string; centroid: [number, number] };
+
+/**
+ * Keyboard navigation on the map: each country's first shape is focusable, one tab stop
+ * for the whole map (the hovered country, else the one with the most revenue), and the
+ * arrow keys move to the bordering country that way (from the topology's shared arcs),
+ * else the nearest country that way, panning it into view.
+ */
+export function useMapKeyboard<S extends Shape>(
+  shapes: S[],
+  neighbors: Record<string, string[]> | null,
+  revenue: Record<string, number>,
+  hoverIso3: string | null,
+  view: MapView,
+  setView: (update: (v: MapView) => MapView) => void,
+) {
+  const [focusIso3, setFocusIso3] = useState<string | null>(null); // keyboard focus, which gets the ring
+  const refs = useRef(new Map<string, SVGPathElement>());
+
+  const shapeByIso = useMemo(() => {
+    const first = new Map<string, S>();
+    for (const s of shapes) if (s.iso3 && !first.has(s.iso3)) first.set(s.iso3, s);
+    return first;
+  }, [shapes]);
+  const largestIso3 = useMemo(
+    () =>
+      Object.entries(revenue)
+        .filter(([iso]) => shapeByIso.has(iso))
+        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? shapeByIso.keys().next().value ?? null,
+    [revenue, shapeByIso],
+  );
+
+  return {
+    shapeByIso,
+    tabIso3: hoverIso3 && shapeByIso.has(hoverIso3) ? hoverIso3 : largestIso3,
+    focusIso3,
+    setFocusIso3,
+    // Ref callback for a country's focusable shape.
+    ref: (iso3: string) => (el: SVGPathElement | null) => {
+      if (el) refs.current.set(iso3, el);
+      else refs.current.delete(iso3);
+    },
+    move: (from: string, direction: ArrowDirection) => {
+      const origin = shapeByIso.get(from)?.centroid;
+      if (!origin) return;
+      const candidate = (s: S | undefined) => (s?.iso3 ? [{ iso3: s.iso3, point: s.centroid }] : []);
+      const bordering = (neighbors?.[from] ?? []).flatMap((iso3) => candidate(shapeByIso.get(iso3)));
+      const next =
+        neighborInDirection(origin, bordering, direction) ??
+        nearestInDirection(origin, [...shapeByIso.values()].flatMap(candidate), direction);
+      if (!next) return;
+      const [x, y] = next.point;
+      if (x < view.x || x > view.x + view.w || y < view.y || y > view.y + view.h) setView((v) => centerView(v, next.point));
+      refs.current.get(next.iso3)?.focus();
+    },
+  };
+}
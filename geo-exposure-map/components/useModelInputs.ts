@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from "react";
+import { exposureInputs, fetchArtifact, type InputsArtifact, type LoadedArtifacts } from "../lib/artifacts";
+import type { ExposureInputs } from "../lib/exposure-core";
+
+/**
+ * The profile's inputs artifact (computeExposure's inputs), fetched the first time
+ * something re-scores: while `required` (an edited scenario, a stale published baseline),
+ * or once a feature calls `request` (the scenario editor, a portfolio, a scenario
+ * comparison). Each request retries a load that failed.
+ */
+export function useModelInputs(base: string, artifacts: LoadedArtifacts | null, ticker: string, required: boolean) {
+  const [requests, setRequests] = useState(0);
+  const [loaded, setLoaded] = useState<{ file: string; inputs: ExposureInputs | null; error: string | null } | null>(null);
+  const pending = useRef(new Set<string>());
+  const file = artifacts?.manifest.profiles[ticker]?.inputs ?? null;
+  const wanted = required || requests > 0;
+
+  useEffect(() => {
+    if (!wanted || !artifacts || !file || pending.current.has(file)) return;
+    pending.current.add(file);
+    fetchArtifact<InputsArtifact>(base, file)
+      .then((artifact) => setLoaded({ file, inputs: exposureInputs(artifact, artifacts.features), error: null }))
+      .catch((e) => {
+        console.error(e);
+        pending.current.delete(file); // retried on the next request
+        setLoaded({ file, inputs: null, error: `Failed to load model inputs: ${e instanceof Error ? e.message : String(e)}` });
+      });
+  }, [base, wanted, requests, artifacts, file]);
+
+  const inputs = loaded?.file === file ? loaded.inputs : null;
+  return {
+    inputs,
+    error: loaded?.file === file ? loaded.error : null,
+    loading: wanted && !inputs,
+    request: () => setRequests((n) => n + 1),
+  };
+}
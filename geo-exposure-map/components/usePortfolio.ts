@@ -0,0 +1,54 @@
+import { useMemo, useState } from "react";
+import { AllocationError, type ExposureInputs } from "../lib/exposure-core";
+import type { ModelConfig } from "../lib/model-config";
+import { computePortfolio, parseHoldingsCsv, PortfolioError, type Holding } from "../lib/portfolio";
+
+type PortfolioOptions = {
+  inputs: ExposureInputs | null;
+  year: number | null;
+  config: ModelConfig; // the scenario's model; every holding is allocated with it
+  requestInputs: () => void;
+  onLoad: () => void; // a holdings file was parsed
+};
+
+/** Portfolio mode: the uploaded holdings, each allocated on the same inputs and model at the selected year. */
+export function usePortfolio({ inputs, year, config, requestInputs, onLoad }: PortfolioOptions) {
+  const [holdings, setHoldings] = useState<{ fileName: string; holdings: Holding[] } | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [show, setShow] = useState<boolean>(false);
+
+  const result = useMemo(() => {
+    if (!holdings || !inputs || year == null) return { portfolio: null, error: null };
+    try {
+      return { portfolio: computePortfolio(inputs, holdings.holdings, { year, config }), error: null };
+    } catch (e) {
+      if (!(e instanceof PortfolioError || e instanceof AllocationError)) throw e;
+      return { portfolio: null, error: e.message };
+    }
+  }, [holdings, inputs, year, config]);
+
+  return {
+    fileName: holdings?.fileName ?? null,
+    portfolio: result.portfolio,
+    error: uploadError ?? result.error,
+    show,
+    toggle: () => {
+      if (!show) requestInputs();
+      setShow(!show);
+    },
+    upload: async (file: File) => {
+      try {
+        setHoldings({ fileName: file.name, holdings: parseHoldingsCsv(await file.text(), file.name) });
+        setUploadError(null);
+        onLoad();
+      } catch (e) {
+        if (!(e instanceof PortfolioError)) throw e;
+        setUploadError(e.message);
+      }
+    },
+    clear: () => {
+      setHoldings(null);
+      setUploadError(null);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { useDeferredValue, useEffect, useMemo, useState } from "react";
+import type { LoadedArtifacts } from "../lib/artifacts";
+import type { CompanyProfile } from "../lib/company-profile";
+import { AllocationError, computeExposure, type ExposureInputs } from "../lib/exposure-core";
+import { hashModelConfig } from "../lib/model-config";
+import {
+  applyScenario,
+  BASELINE_SCENARIO_NAME,
+  baselineScenario,
+  loadScenarios,
+  saveScenarios,
+  type Scenario,
+} from "../lib/scenario";
+
+// Uncertainty bands re-run the model once per sample, so an edited scenario is scored without
+// them first and gets its bands after editing pauses this long.
+const BANDS_DELAY_MS = 600;
+
+/**
+ * The scenario being edited for `profile` and the scenarios saved in localStorage (read
+ * the first time the editor or compare mode opens). `label` is null while the published
+ * baseline is shown unedited.
+ */
+export function useScenarios(profile: CompanyProfile) {
+  const [scenario, setScenario] = useState<Scenario>(() => baselineScenario(profile));
+  const [saved, setSaved] = useState<Scenario[] | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [show, setShow] = useState<boolean>(false);
+
+  const baseline = useMemo(() => baselineScenario(profile), [profile]);
+  const reference = saved?.find((s) => s.ticker === profile.ticker && s.name === scenario.name) ?? baseline;
+  const modified =
+    hashModelConfig(scenario.config) !== hashModelConfig(reference.config) ||
+    JSON.stringify(scenario.segmentTotals) !== JSON.stringify(reference.segmentTotals);
+  const label = scenario.name === BASELINE_SCENARIO_NAME && !modified ? null : `${scenario.name}${modified ? " (edited)" : ""}`;
+
+  const readSaved = () => {
+    if (saved) return;
+    const { scenarios, issues } = loadScenarios();
+    setSaved(scenarios);
+    setSkipped(issues);
+  };
+
+  const store = (next: Scenario[]) => {
+    saveScenarios(next);
+    setSaved(next);
+  };
+
+  return {
+    scenario,
+    setScenario,
+    baseline,
+    label,
+    saved,
+    skipped,
+    show,
+    readSaved,
+    toggle: () => {
+      readSaved();
+      setShow(!show);
+    },
+    save: (name: string) => {
+      const entry = { ...scenario, name };
+      store([...(saved ?? []).filter((s) => !(s.ticker === entry.ticker && s.name === name)), entry]);
+      setScenario(entry);
+    },
+    remove: (name: string) => {
+      store((saved ?? []).filter((s) => !(s.ticker === profile.ticker && s.name === name)));
+      setScenario(baseline);
+    },
+  };
+}
+
+type ScenarioPayloadOptions = {
+  artifacts: LoadedArtifacts | null;
+  profile: CompanyProfile;
+  inputs: ExposureInputs | null;
+  inputsError: string | null;
+  scenario: Scenario;
+  label: string | null;
+  baseline: Scenario;
+  staleBaseline: boolean; // the published payloads came from another model than the baseline
+};
+
+/**
+ * The payload the page shows: the published baseline while it is current, otherwise the
+ * scenario scored on the inputs. Slider drags stay responsive because scoring runs on a
+ * deferred copy of the scenario; an invalid scenario falls back to the baseline.
+ */
+export function useScenarioPayload(options: ScenarioPayloadOptions) {
+  const { artifacts, profile, inputs, inputsError, baseline, staleBaseline } = options;
+  const deferredScenario = useDeferredValue(options.scenario);
+  const deferredLabel = useDeferredValue(options.label);
+  const [settledScenario, setSettledScenario] = useState<Scenario | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledScenario(deferredScenario), BANDS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [deferredScenario]);
+  const withBands = settledScenario === deferredScenario;
+
+  const computed = useMemo(() => {
+    if (!artifacts) return { payload: null, scenarioError: null, error: null };
+    const { payload: precomputed, features } = artifacts;
+    const published = precomputed.meta.profile.ticker === profile.ticker ? { ...precomputed, geo: { features } } : null;
+    // The published baseline was scored at build time; reuse it unless the model has changed since.
+    if (published && deferredLabel == null && !staleBaseline) return { payload: published, scenarioError: null, error: null };
+    if (!inputs) {
+      // Still loading the inputs: the published baseline stands in when it is current.
+      if (!published || staleBaseline) return { payload: null, scenarioError: null, error: inputsError };
+      return { payload: published, scenarioError: inputsError && `${inputsError}; showing the published baseline`, error: null };
+    }
+    const run = (s: Scenario, label: string | null) => {
+      const { config, profile: p } = applyScenario(profile, s);
+      return computeExposure(inputs, {
+        config: label ? { ...config, name: label } : config,
+        profile: p,
+        uncertainty: withBands ? undefined : false,
+      });
+    };
+    try {
+      return { payload: run(deferredScenario, deferredLabel), scenarioError: null, error: null };
+    } catch (e) {
+      if (!(e instanceof AllocationError)) throw e;
+      // An invalid scenario (e.g. a segment total below its disclosed countries) falls back to the baseline.
+      try {
+        return { payload: run(baseline, null), scenarioError: `${e.message}; showing the published baseline`, error: null };
+      } catch (inner) {
+        if (!(inner instanceof AllocationError)) throw inner;
+        return { payload: null, scenarioError: null, error: inner.message };
+      }
+    }
+  }, [artifacts, inputs, inputsError, staleBaseline, profile, deferredScenario, deferredLabel, baseline, withBands]);
+
+  return { ...computed, deferredScenario, deferredLabel };
+}
@@ -0,0 +1,107 @@
+// Writes and reads the build-time artifacts described in lib/artifacts.ts (Node only;
+// never import from client code).
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  ARTIFACT_VERSION,
+  GEOMETRY_RESOLUTIONS,
+  MANIFEST_FILE,
+  type ArtifactManifest,
+  type InputsArtifact,
+} from "./artifacts";
+import type { CompanyProfile } from "./company-profile";
+import type { ExposureDataProvider } from "./data-provider";
+import {
+  computeExposure,
+  indicatorWindow,
+  loadExposureInputs,
+  type ApiPayload,
+  type DegradedInput,
+} from "./exposure-core";
+import { DEFAULT_MODEL_CONFIG, hashModelConfig, type ModelConfig } from "./model-config";
+import { simplifyTopology, toTopology } from "./topology";
+
+export type WriteArtifactsOptions = {
+  provider: ExposureDataProvider;
+  profiles: CompanyProfile[];
+  config?: ModelConfig;
+  onDegraded?: (degraded: DegradedInput[]) => void; // optional indicators that failed to load
+};
+
+// One indicator window covering every profile's fiscal years, so the inputs load once.
+function sharedWindow(profiles: CompanyProfile[]) {
+  const windows = profiles.map(indicatorWindow);
+  return { from: Math.min(...windows.map((w) => w.from)), to: Math.max(...windows.map((w) => w.to)) };
+}
+
+const contentHash = (text: string) => createHash("sha256").update(text, "utf8").digest("hex").slice(0, 12);
+
+/** Replaces `dir` with a fresh artifact set and returns its manifest. */
+export async function writeArtifacts(
+  dir: string,
+  { provider, profiles, config = DEFAULT_MODEL_CONFIG, onDegraded }: WriteArtifactsOptions,
+) {
+  await rm(dir, { recursive: true, force: true });
+  await mkdir(dir, { recursive: true });
+  const write = async (stem: string, value: unknown) => {
+    const text = JSON.stringify(value);
+    const file = `${stem}.${contentHash(text)}.json`;
+    await writeFile(path.join(dir, file), text, "utf8");
+    return file;
+  };
+
+  const manifest: ArtifactManifest = {
+    version: ARTIFACT_VERSION,
+    generatedAt: new Date().toISOString(),
+    source: provider.name,
+    model: { name: config.name, hash: hashModelConfig(config) },
+    profiles: {},
+    geometry: [],
+  };
+  if (!profiles.length) {
+    await writeFile(path.join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+    return manifest;
+  }
+
+  const inputs = await loadExposureInputs(provider, sharedWindow(profiles));
+  if (inputs.degraded.length) onDegraded?.(inputs.degraded);
+  const inputsArtifact: InputsArtifact = {
+    countries: inputs.countries,
+    indicators: inputs.indicators,
+    degraded: inputs.degraded,
+    geometry: inputs.geoMatch.diagnostics,
+  };
+  // Every profile points at the same (content-addressed) inputs file.
+  const inputsFile = await write("inputs", inputsArtifact);
+  for (const profile of profiles) {
+    const payload = computeExposure(inputs, { config, profile });
+    const stem = profile.ticker.toLowerCase();
+    manifest.profiles[profile.ticker] = {
+      inputs: inputsFile,
+      // Geometry ships separately as TopoJSON.
+      payload: await write(`${stem}.payload`, { ...payload, geo: { features: [] } } satisfies ApiPayload),
+    };
+  }
+
+  const topology = toTopology(
+    (inputs.geo.features ?? []).map((f) => ({ geometry: f.geometry, properties: f.properties })),
+    inputs.geoMatch.featureIso3,
+  );
+  for (const { name, tolerance, maxZoom } of GEOMETRY_RESOLUTIONS) {
+    const file = await write(`countries.${name}`, simplifyTopology(topology, tolerance));
+    manifest.geometry.push({ name, file, tolerance, maxZoom: Number.isFinite(maxZoom) ? maxZoom : null });
+  }
+
+  await writeFile(path.join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  return manifest;
+}
+
+/** The precomputed baseline payload for `ticker`, or null when it was not built. */
+export async function readPayload(dir: string, ticker: string): Promise<ApiPayload | null> {
+  const manifest = JSON.parse(await readFile(path.join(dir, MANIFEST_FILE), "utf8")) as ArtifactManifest;
+  const entry = manifest.profiles[ticker];
+  if (!entry) return null;
+  return JSON.parse(await readFile(path.join(dir, entry.payload), "utf8")) as ApiPayload;
+}
@@ -0,0 +1,94 @@
+// Build-time artifacts the page loads instead of calling third-party APIs. `npm run
+// precompute` (lib/artifact-store.ts) writes them under public/data/:
+//
+//   manifest.json                       what was built, from which source, and file names
+//   inputs.<hash>.json                  ExposureInputs without geometry, shared by every profile (scenarios and
+//                                       portfolios re-score these)
+//   <ticker>.payload.<hash>.json        the published-baseline ApiPayload
+//   countries.<resolution>.<hash>.json  simplified TopoJSON, coarse to fine
+//
+// Content-hashed names make every file except the manifest safe to cache forever.
+
+import type { ApiPayload, ExposureInputs } from "./exposure-core";
+import type { GeoDiagnostics } from "./iso-reconcile";
+import { topologyFeatures, topologyNeighbors, type Topology } from "./topology";
+
+export const ARTIFACT_VERSION = 1;
+export const ARTIFACT_DIR = "data";
+export const MANIFEST_FILE = "manifest.json";
+
+// Simplification tolerance in degrees; a resolution serves map zoom levels up to maxZoom.
+export const GEOMETRY_RESOLUTIONS = [
+  { name: "low", tolerance: 0.25, maxZoom: 2 },
+  { name: "medium", tolerance: 0.06, maxZoom: 6 },
+  { name: "high", tolerance: 0.015, maxZoom: Infinity },
+] as const;
+
+export type GeometryArtifact = { name: string; file: string; tolerance: number; maxZoom: number | null };
+
+export type ArtifactManifest = {
+  version: typeof ARTIFACT_VERSION;
+  generatedAt: string;
+  source: string; // data provider the build read from, e.g. "http" or "snapshot:<dir>"
+  model: { name: string; hash: string }; // config the baseline payloads were computed with
+  profiles: Record<string, { inputs: string; payload: string }>; // ticker -> file names
+  geometry: GeometryArtifact[]; // coarse to fine; maxZoom null = no limit
+};
+
+export type InputsArtifact = Omit<ExposureInputs, "geo" | "geoMatch"> & { geometry: GeoDiagnostics };
+
+export class ArtifactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtifactError";
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new ArtifactError(`artifact ${url}: HTTP ${res.status}`);
+  return (await res.json()) as T;
+}
+
+/** The manifest is the one file that changes per build, so it bypasses the HTTP cache. */
+export async function fetchManifest(base: string): Promise<ArtifactManifest> {
+  const res = await fetch(`${base}/${ARTIFACT_DIR}/${MANIFEST_FILE}`, { cache: "no-cache" });
+  if (!res.ok) {
+    throw new ArtifactError(`no data artifacts at ${base}/${ARTIFACT_DIR} (HTTP ${res.status}); run npm run precompute`);
+  }
+  const manifest = (await res.json()) as ArtifactManifest;
+  if (manifest.version !== ARTIFACT_VERSION) {
+    throw new ArtifactError(`data artifacts are version ${manifest.version}; this page reads version ${ARTIFACT_VERSION}`);
+  }
+  return manifest;
+}
+
+export const fetchArtifact = <T>(base: string, file: string) => fetchJson<T>(`${base}/${ARTIFACT_DIR}/${file}`);
+
+/** The coarsest resolution whose maxZoom covers `zoom`. */
+export function geometryForZoom(manifest: ArtifactManifest, zoom: number): GeometryArtifact {
+  return manifest.geometry.find((g) => g.maxZoom == null || zoom <= g.maxZoom) ?? manifest.geometry[manifest.geometry.length - 1];
+}
+
+export async function fetchGeometry(base: string, artifact: GeometryArtifact) {
+  const topology = await fetchArtifact<Topology>(base, artifact.file);
+  return { features: topologyFeatures(topology), neighbors: topologyNeighbors(topology) };
+}
+
+/** Rebuilds computeExposure inputs from the inputs artifact and decoded map features. */
+export function exposureInputs(artifact: InputsArtifact, features: ReturnType<typeof topologyFeatures>): ExposureInputs {
+  const { geometry, ...rest } = artifact;
+  return {
+    ...rest,
+    geo: { features },
+    geoMatch: { featureIso3: features.map((f) => (typeof f.id === "string" ? f.id : null)), diagnostics: geometry },
+  };
+}
+
+/** What the page paints first; the inputs artifact loads once a scenario, portfolio or comparison needs it. */
+export type LoadedArtifacts = {
+  manifest: ArtifactManifest;
+  payload: ApiPayload;
+  features: ReturnType<typeof topologyFeatures>; // coarsest geometry
+  neighbors: Record<string, string[]>; // bordering countries by ISO3, for keyboard navigation
+};
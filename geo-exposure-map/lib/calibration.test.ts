@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sample from "../config/calibration/sample.json";
+import { calibrate, CalibrationError, checkCalibrationDataset, parseCalibrationDataset } from "./calibration";
+import { syntheticInputs } from "./fixtures/synthetic-inputs";
+import { DEFAULT_MODEL_CONFIG } from "./model-config";
+
+// The sample's country revenue was generated on these inputs with gdpExponent 0.9 and half
+// the baseline's hub premiums (see README, Calibration).
+const inputs = syntheticInputs();
+const dataset = parseCalibrationDataset(sample, "config/calibration/sample.json");
+
+describe("calibrate", () => {
+  it("accepts the sample dataset", () => {
+    checkCalibrationDataset(dataset, inputs, "config/calibration/sample.json");
+    assert.deepEqual(
+      dataset.companies.map((c) => c.profile.ticker),
+      ["SYNA", "SYNB", "SYNC", "SYND"],
+    );
+  });
+
+  it("fits the sample better than the baseline, in and out of sample", () => {
+    const result = calibrate(inputs, dataset, { base: DEFAULT_MODEL_CONFIG });
+    assert.deepEqual(result.holdout?.tickers, ["SYND"]);
+    assert.ok(result.train.fitted.shareError < result.train.baseline.shareError / 2, JSON.stringify(result.train));
+    assert.ok(result.holdout && result.holdout.fitted.shareError < result.holdout.baseline.shareError, JSON.stringify(result.holdout));
+    const fitted = Object.fromEntries(result.parameters.map((p) => [p.name, p.after]));
+    assert.ok(Math.abs(fitted.gdpExponent - 0.9) < 0.1, `gdpExponent ${fitted.gdpExponent}`);
+    assert.ok(Math.abs(fitted.hubPremiumScale - 0.5) < 0.15, `hubPremiumScale ${fitted.hubPremiumScale}`);
+    assert.equal(result.config.name, `${DEFAULT_MODEL_CONFIG.name}-calibrated`);
+  });
+});
+
+describe("calibrate holdout", () => {
+  const split = (holdout: string[] | number) => {
+    const { train, holdout: held } = calibrate(inputs, dataset, { base: DEFAULT_MODEL_CONFIG, holdout, maxEvaluations: 1 });
+    return { train: train.tickers, held: held?.tickers ?? [] };
+  };
+
+  it("holds out nothing for a share of 0", () => {
+    assert.deepEqual(split(0), { train: ["SYNA", "SYNB", "SYNC", "SYND"], held: [] });
+  });
+
+  it("holds out every k-th company in ticker order", () => {
+    assert.deepEqual(split(0.25), { train: ["SYNA", "SYNB", "SYNC"], held: ["SYND"] });
+    assert.deepEqual(split(0.5), { train: ["SYNA", "SYNC"], held: ["SYNB", "SYND"] });
+  });
+
+  it("holds out the listed tickers", () => {
+    assert.deepEqual(split(["SYNA", "SYNC"]), { train: ["SYNB", "SYND"], held: ["SYNA", "SYNC"] });
+  });
+
+  it("rejects unknown tickers and an empty training set", () => {
+    assert.throws(() => split(["SYNA", "NOPE"]), CalibrationError);
+    assert.throws(() => split(["SYNA", "SYNB", "SYNC", "SYND"]), CalibrationError);
+  });
+});
@@ -0,0 +1,379 @@
+// Calibration of the scoring parameters against companies that publish country-level
+// revenue. A dataset lists each such company as a profile (segments and anchors) plus the
+// countries it reports; calibrate() searches the exponents and multipliers that best
+// reproduce those countries within each segment, scores the fit on held-out companies,
+// and returns a ModelConfig the allocator loads like any other variant.
+
+import { allocateRevenue, type ExposureInputs } from "./exposure-core";
+import { parseCompanyProfile, ProfileError, segmentOfCountry, type CompanyProfile } from "./company-profile";
+import { FACTOR_NAMES, type FactorName } from "./indicators";
+import { parseModelConfig, type ModelConfig } from "./model-config";
+import { ISO3, isObj, num, obj } from "./validation";
+
+export type CalibrationCompany = {
+  profile: CompanyProfile;
+  countryRevenue: Record<string, Record<string, number>>; // fiscal year -> ISO3 -> reported revenue, USD millions
+};
+
+export type CalibrationDataset = { companies: CalibrationCompany[] };
+
+export class CalibrationError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid calibration dataset ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "CalibrationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates an untyped dataset: `{ companies: [...] }`, each entry a company profile plus
+ * `countryRevenue`. Profiles may not carry `disclosed` pins, since those are the very
+ * values the fit has to predict. Throws CalibrationError listing every problem.
+ */
+export function parseCalibrationDataset(raw: unknown, source = "<inline>"): CalibrationDataset {
+  const issues: string[] = [];
+  const root = obj(raw, "(root)", issues);
+  if (!Array.isArray(root.companies) || !root.companies.length) {
+    issues.push("companies: expected a non-empty array");
+  }
+  const companies: CalibrationCompany[] = [];
+  (Array.isArray(root.companies) ? root.companies : []).forEach((entry: unknown, i) => {
+    const path = `companies[${i}]`;
+    if (!isObj(entry)) {
+      issues.push(`${path}: expected an object`);
+      return;
+    }
+    const { countryRevenue, ...rest } = entry;
+    if (rest.disclosed !== undefined) issues.push(`${path}.disclosed: not allowed; list reported countries under countryRevenue`);
+    let profile: CompanyProfile;
+    try {
+      profile = parseCompanyProfile(rest, `${source} ${path}`);
+    } catch (e) {
+      if (!(e instanceof ProfileError)) throw e;
+      issues.push(...e.issues.map((msg) => `${path}: ${msg}`));
+      return;
+    }
+    const revenue: CalibrationCompany["countryRevenue"] = {};
+    const years = Object.entries(obj(countryRevenue, `${path}.countryRevenue`, issues));
+    if (isObj(countryRevenue) && !years.length) issues.push(`${path}.countryRevenue: no fiscal years`);
+    for (const [year, values] of years) {
+      const at = `${path}.countryRevenue.${year}`;
+      if (!profile.anchors[year]) issues.push(`${at}: no segment anchors for this year`);
+      revenue[year] = {};
+      for (const [iso, value] of Object.entries(obj(values, at, issues))) {
+        if (!ISO3.test(iso)) issues.push(`${at}.${iso}: expected an ISO3 code key`);
+        revenue[year][iso] = num(value, `${at}.${iso}`, issues, { min: 0 });
+      }
+    }
+    companies.push({ profile, countryRevenue: revenue });
+  });
+  const tickers = companies.map((c) => c.profile.ticker);
+  for (const t of new Set(tickers)) {
+    if (tickers.indexOf(t) !== tickers.lastIndexOf(t)) issues.push(`companies: duplicate ticker ${t}`);
+  }
+  if (issues.length) throw new CalibrationError(source, issues);
+  return { companies };
+}
+
+/**
+ * Checks the dataset against the ISO list: every reported country must exist and map to a
+ * segment, and a segment's reported countries may not exceed its anchor.
+ */
+export function checkCalibrationDataset(dataset: CalibrationDataset, inputs: ExposureInputs, source = "<inline>") {
+  const issues: string[] = [];
+  const byIso = new Map(inputs.countries.map((c) => [c.iso3, c]));
+  for (const { profile, countryRevenue } of dataset.companies) {
+    for (const [year, values] of Object.entries(countryRevenue)) {
+      const bySeg = new Map<string, number>();
+      for (const [iso, value] of Object.entries(values)) {
+        const c = byIso.get(iso);
+        const seg = c ? segmentOfCountry(profile, c) : null;
+        if (!c) issues.push(`${profile.ticker} FY${year}: ${iso} is not in the ISO list`);
+        else if (!seg) issues.push(`${profile.ticker} FY${year}: ${iso} is not mapped to any segment`);
+        else bySeg.set(seg, (bySeg.get(seg) ?? 0) + value);
+      }
+      for (const [seg, sum] of bySeg) {
+        const total = profile.anchors[year][seg];
+        // countries are usually reported rounded, so allow 0.1% over the segment total
+        if (sum > total * 1.001 + 1e-6) issues.push(`${profile.ticker} FY${year}: countries in ${seg} sum to ${sum} but the segment total is ${total}`);
+      }
+    }
+  }
+  if (issues.length) throw new CalibrationError(source, issues);
+}
+
+// The fitted parameters. `hubPremiumScale` scales every hub's premium (multiplier - 1), as
+// the uncertainty ranges do, so the hub list and its relative sizes stay as configured.
+export type CalibratedParameters = {
+  gdpExponent: number;
+  factorExponents: Record<FactorName, number>;
+  hubPremiumScale: number;
+  officeMultiplier: number;
+};
+
+type Bound = { lo: number; hi: number };
+
+export const PARAMETER_BOUNDS = {
+  gdpExponent: { lo: 0, hi: 1.5 },
+  factorExponent: { lo: 0, hi: 2 },
+  hubPremiumScale: { lo: 0, hi: 3 },
+  officeMultiplier: { lo: 1, hi: 2 },
+} satisfies Record<string, Bound>;
+
+// Flat vector view of the parameters, in a fixed order, for the search.
+const PARAMETER_NAMES = ["gdpExponent", ...FACTOR_NAMES.map((f) => `${f}.exponent`), "hubPremiumScale", "officeMultiplier"];
+const BOUNDS: Bound[] = [
+  PARAMETER_BOUNDS.gdpExponent,
+  ...FACTOR_NAMES.map(() => PARAMETER_BOUNDS.factorExponent),
+  PARAMETER_BOUNDS.hubPremiumScale,
+  PARAMETER_BOUNDS.officeMultiplier,
+];
+
+const toVector = (p: CalibratedParameters) => [
+  p.gdpExponent,
+  ...FACTOR_NAMES.map((f) => p.factorExponents[f]),
+  p.hubPremiumScale,
+  p.officeMultiplier,
+];
+
+function fromVector(v: number[]): CalibratedParameters {
+  return {
+    gdpExponent: v[0],
+    factorExponents: Object.fromEntries(FACTOR_NAMES.map((f, i) => [f, v[1 + i]])) as Record<FactorName, number>,
+    hubPremiumScale: v[1 + FACTOR_NAMES.length],
+    officeMultiplier: v[2 + FACTOR_NAMES.length],
+  };
+}
+
+export function parametersOf(config: ModelConfig): CalibratedParameters {
+  return {
+    gdpExponent: config.gdpExponent,
+    factorExponents: Object.fromEntries(FACTOR_NAMES.map((f) => [f, config.factors[f].exponent])) as Record<FactorName, number>,
+    hubPremiumScale: 1,
+    officeMultiplier: config.offices.multiplier,
+  };
+}
+
+/** `base` with the fitted parameters applied; hub premiums are folded into the hub list. */
+export function applyParameters(base: ModelConfig, p: CalibratedParameters): ModelConfig {
+  const factors = { ...base.factors };
+  for (const f of FACTOR_NAMES) factors[f] = { ...base.factors[f], exponent: p.factorExponents[f] };
+  return {
+    ...base,
+    gdpExponent: p.gdpExponent,
+    factors,
+    hubs: Object.fromEntries(Object.entries(base.hubs).map(([iso, m]) => [iso, 1 + (m - 1) * p.hubPremiumScale])),
+    offices: { ...base.offices, multiplier: p.officeMultiplier },
+  };
+}
+
+export type CalibrationMetrics = {
+  companies: number;
+  points: number; // reported company-year-country values
+  mae: number; // mean absolute error, USD millions
+  mape: number | null; // mean absolute percentage error over positive reported values
+  spearman: number | null; // mean rank correlation per company-year with at least 3 countries
+  shareError: number; // mean |error| as a share of the segment anchor; the fitted loss
+};
+
+type Point = { predicted: number; observed: number; anchor: number };
+
+function ranks(values: number[]) {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let k = i; k <= j; k++) out[order[k][1]] = (i + j) / 2; // ties share their mean rank
+    i = j + 1;
+  }
+  return out;
+}
+
+function pearson(x: number[], y: number[]) {
+  const mx = x.reduce((s, v) => s + v, 0) / x.length;
+  const my = y.reduce((s, v) => s + v, 0) / y.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxx && syy ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+// Predicted vs reported values, grouped per company-year.
+function predict(inputs: ExposureInputs, companies: CalibrationCompany[], config: ModelConfig): Point[][] {
+  const groups: Point[][] = [];
+  for (const { profile, countryRevenue } of companies) {
+    const segOf = new Map(inputs.countries.map((c) => [c.iso3, segmentOfCountry(profile, c)]));
+    for (const [year, values] of Object.entries(countryRevenue)) {
+      const revenue = allocateRevenue(inputs, profile, config, Number(year));
+      groups.push(
+        Object.entries(values).map(([iso, observed]) => ({
+          predicted: revenue.get(iso) ?? 0,
+          observed,
+          anchor: profile.anchors[year][segOf.get(iso) ?? ""] ?? 0,
+        })),
+      );
+    }
+  }
+  return groups;
+}
+
+export function calibrationMetrics(
+  inputs: ExposureInputs,
+  companies: CalibrationCompany[],
+  config: ModelConfig,
+): CalibrationMetrics {
+  const groups = predict(inputs, companies, config);
+  const points = groups.flat();
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((s, v) => s + v, 0) / xs.length : null);
+  const positive = points.filter((p) => p.observed > 0);
+  const correlations = groups
+    .filter((g) => g.length >= 3)
+    .map((g) => pearson(ranks(g.map((p) => p.predicted)), ranks(g.map((p) => p.observed))))
+    .filter((r): r is number => r !== null);
+  return {
+    companies: companies.length,
+    points: points.length,
+    mae: mean(points.map((p) => Math.abs(p.predicted - p.observed))) ?? 0,
+    mape: mean(positive.map((p) => Math.abs(p.predicted - p.observed) / p.observed)),
+    spearman: mean(correlations),
+    shareError: mean(points.map((p) => (p.anchor > 0 ? Math.abs(p.predicted - p.observed) / p.anchor : 0))) ?? 0,
+  };
+}
+
+export type CalibrationOptions = {
+  base: ModelConfig;
+  holdout?: string[] | number; // tickers, or the share of companies to hold out; default 0.25
+  name?: string; // default: `${base.name}-calibrated`
+  maxEvaluations?: number; // default 2000
+  source?: string; // dataset file, recorded in the output's description
+};
+
+export type CalibrationResult = {
+  config: ModelConfig;
+  parameters: { name: string; before: number; after: number }[];
+  train: { tickers: string[]; baseline: CalibrationMetrics; fitted: CalibrationMetrics };
+  holdout: { tickers: string[]; baseline: CalibrationMetrics; fitted: CalibrationMetrics } | null;
+  evaluations: number;
+};
+
+// Every k-th company in ticker order, so a given dataset always splits the same way.
+function splitHoldout(companies: CalibrationCompany[], holdout: string[] | number) {
+  const sorted = [...companies].sort((a, b) => a.profile.ticker.localeCompare(b.profile.ticker));
+  let held: Set<string>;
+  if (Array.isArray(holdout)) {
+    const known = new Set(sorted.map((c) => c.profile.ticker));
+    const unknown = holdout.filter((t) => !known.has(t));
+    if (unknown.length) throw new CalibrationError("holdout", [`unknown tickers ${unknown.join(", ")}`]);
+    held = new Set(holdout);
+  } else {
+    const count = holdout > 0 && sorted.length >= 2 ? Math.max(1, Math.round(sorted.length * holdout)) : 0;
+    const step = count ? sorted.length / count : 0;
+    held = new Set(Array.from({ length: count }, (_, i) => sorted[Math.floor(i * step + step - 1)].profile.ticker));
+  }
+  const train = sorted.filter((c) => !held.has(c.profile.ticker));
+  if (!train.length) throw new CalibrationError("holdout", ["no companies left to fit on"]);
+  return { train, test: sorted.filter((c) => held.has(c.profile.ticker)) };
+}
+
+/**
+ * Fits the parameters to the training companies by minimising `shareError` with a bounded
+ * coordinate pattern search (deterministic, derivative-free: allocation is piecewise in
+ * the parameters through clamps and fallbacks). Allocation errors while searching, such as
+ * a residual with nowhere to go, surface unchanged.
+ */
+export function calibrate(inputs: ExposureInputs, dataset: CalibrationDataset, options: CalibrationOptions): CalibrationResult {
+  const { base, holdout = 0.25, maxEvaluations = 2000 } = options;
+  const { train, test } = splitHoldout(dataset.companies, holdout);
+
+  let evaluations = 0;
+  const loss = (v: number[]) => {
+    evaluations++;
+    return calibrationMetrics(inputs, train, applyParameters(base, fromVector(v))).shareError;
+  };
+  const clamp = (x: number, b: Bound) => Math.min(b.hi, Math.max(b.lo, x));
+
+  let best = toVector(parametersOf(base)).map((x, i) => clamp(x, BOUNDS[i]));
+  let bestLoss = loss(best);
+  const steps = BOUNDS.map((b) => (b.hi - b.lo) / 8);
+  const minSteps = BOUNDS.map((b) => (b.hi - b.lo) / 1000);
+  while (evaluations < maxEvaluations && steps.some((s, i) => s > minSteps[i])) {
+    let improved = false;
+    for (let i = 0; i < best.length && evaluations < maxEvaluations; i++) {
+      for (const dir of [1, -1]) {
+        const trial = [...best];
+        trial[i] = clamp(best[i] + dir * steps[i], BOUNDS[i]);
+        if (trial[i] === best[i]) continue;
+        const l = loss(trial);
+        if (l < bestLoss - 1e-12) {
+          best = trial;
+          bestLoss = l;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) steps.forEach((s, i) => (steps[i] = s / 2));
+  }
+
+  const fitted = fromVector(best.map((x) => Number(x.toFixed(4))));
+  const before = toVector(parametersOf(base));
+  const config = calibratedConfig(base, fitted, train, options);
+  return {
+    config,
+    parameters: PARAMETER_NAMES.map((name, i) => ({ name, before: before[i], after: toVector(fitted)[i] })),
+    train: {
+      tickers: train.map((c) => c.profile.ticker),
+      baseline: calibrationMetrics(inputs, train, base),
+      fitted: calibrationMetrics(inputs, train, config),
+    },
+    holdout: test.length
+      ? {
+          tickers: test.map((c) => c.profile.ticker),
+          baseline: calibrationMetrics(inputs, test, base),
+          fitted: calibrationMetrics(inputs, test, config),
+        }
+      : null,
+    evaluations,
+  };
+}
+
+// The fitted config, with the uncertainty ranges moved along with their point estimates.
+function calibratedConfig(
+  base: ModelConfig,
+  p: CalibratedParameters,
+  train: CalibrationCompany[],
+  options: CalibrationOptions,
+): ModelConfig {
+  const shift = (r: [number, number] | undefined, by: number): [number, number] | undefined =>
+    r && [Math.max(0, Number((r[0] + by).toFixed(4))), Math.max(0, Number((r[1] + by).toFixed(4)))];
+  const config = applyParameters(base, p);
+  const u = base.uncertainty;
+  if (u) {
+    const factorExponents: Partial<Record<FactorName, [number, number]>> = {};
+    for (const f of FACTOR_NAMES) {
+      const r = shift(u.factorExponents?.[f], p.factorExponents[f] - base.factors[f].exponent);
+      if (r) factorExponents[f] = r;
+    }
+    config.uncertainty = {
+      ...u,
+      ...(u.gdpExponent ? { gdpExponent: shift(u.gdpExponent, p.gdpExponent - base.gdpExponent) } : {}),
+      ...(u.factorExponents ? { factorExponents } : {}),
+      ...(u.officeMultiplier ? { officeMultiplier: shift(u.officeMultiplier, p.officeMultiplier - base.offices.multiplier) } : {}),
+    };
+  }
+  config.hubs = Object.fromEntries(Object.entries(config.hubs).map(([iso, m]) => [iso, Number(m.toFixed(4))]));
+  config.name = options.name ?? `${base.name}-calibrated`;
+  config.description = `${base.name} with exponents, hub premiums and the office multiplier fitted to the reported country revenue of ${train
+    .map((c) => c.profile.ticker)
+    .join(", ")}${options.source ? ` (${options.source})` : ""}.`;
+  // Round-trip through the parser so the output is guaranteed to load with --config.
+  return parseModelConfig(JSON.parse(JSON.stringify(config)), config.name);
+}
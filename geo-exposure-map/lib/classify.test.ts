@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { classify, DEFAULT_CLASSIFY, jenksBreaks, parseManualBreaks, quantileBreaks } from "./classify";
+
+describe("jenksBreaks", () => {
+  it("splits well-separated clusters at their gaps", () => {
+    assert.deepEqual(jenksBreaks([1, 2, 3, 10, 11, 12, 20, 21, 22], 3), [1, 10, 20, 22]);
+    assert.deepEqual(jenksBreaks([1, 2, 4, 5, 7, 8, 9, 30, 31, 32], 2), [1, 30, 32]);
+  });
+
+  it("keeps duplicates in one class", () => {
+    assert.deepEqual(jenksBreaks([1, 1, 1, 5, 5, 9], 3), [1, 5, 9, 9]);
+  });
+
+  it("uses at most one class per distinct value", () => {
+    assert.deepEqual(jenksBreaks([2, 2, 7], 5), [2, 7, 7]);
+    assert.deepEqual(jenksBreaks([4, 4, 4], 3), [4, 4]);
+    assert.deepEqual(jenksBreaks([], 3), []);
+  });
+});
+
+describe("quantileBreaks", () => {
+  it("breaks at equal-count positions", () => {
+    assert.deepEqual(quantileBreaks([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 4), [1, 3, 6, 8, 10]);
+  });
+
+  it("collapses equal breaks from duplicated values", () => {
+    assert.deepEqual(quantileBreaks([1, 1, 1, 1, 2], 4), [1, 2]);
+    assert.deepEqual(quantileBreaks([3, 3, 3], 3), [3, 3]);
+  });
+
+  it("returns fewer breaks when k exceeds the number of values", () => {
+    assert.deepEqual(quantileBreaks([1, 5], 5), [1, 5]);
+    assert.deepEqual(quantileBreaks([], 5), []);
+  });
+});
+
+describe("classify", () => {
+  it("draws one legend class per Jenks class and paints zero apart", () => {
+    const { color, legend } = classify([0, 2, 2, 7], { ...DEFAULT_CLASSIFY, mode: "jenks", classes: 5 });
+    assert.equal(legend.kind, "classed");
+    if (legend.kind !== "classed") return;
+    assert.deepEqual(legend.classes.map((c) => [c.from, c.to]), [[2, 7], [7, 7]]);
+    assert.equal(color(0), legend.zeroColor);
+    assert.equal(color(2), legend.classes[0].color);
+    assert.equal(color(7), legend.classes[1].color);
+  });
+
+  it("drops manual breaks outside the data", () => {
+    const { legend } = classify([0.1, 0.5, 1], { ...DEFAULT_CLASSIFY, mode: "manual", manualBreaks: [0.2, 2] });
+    assert.ok(legend.kind === "classed");
+    assert.deepEqual(legend.classes.map((c) => [c.from, c.to]), [[0, 0.2], [0.2, 1]]);
+  });
+});
+
+describe("parseManualBreaks", () => {
+  it("reads percent values in any separator into fractions", () => {
+    const { breaks, error } = parseManualBreaks("0.5, 1;2.5% 4");
+    assert.equal(error, null);
+    assert.deepEqual(breaks.map((b) => Math.round(b * 1e6) / 1e6), [0.005, 0.01, 0.025, 0.04]);
+    assert.deepEqual(parseManualBreaks("100 250", 1), { breaks: [100, 250], error: null });
+  });
+
+  it("rejects non-positive or non-numeric values", () => {
+    assert.deepEqual(parseManualBreaks("1, -2, x, 0"), { breaks: [], error: "not a positive number: -2, x, 0" });
+  });
+
+  it("rejects repeated or decreasing breaks", () => {
+    assert.deepEqual(parseManualBreaks("1, 1"), { breaks: [], error: "breaks must increase" });
+    assert.deepEqual(parseManualBreaks("2, 1"), { breaks: [], error: "breaks must increase" });
+  });
+
+  it("reads empty input as no breaks", () => {
+    assert.deepEqual(parseManualBreaks("  "), { breaks: [], error: null });
+  });
+});
@@ -0,0 +1,218 @@
+// Choropleth color classification: maps a metric's values to palette colors and describes
+// the result as a legend with real break values (the page formats them in USD and percent).
+//
+// Continuous modes (gamma, linear, log) color along the whole palette; classed modes
+// (quantile, Jenks, manual) bin values into a few flat colors. Zero always gets the
+// palette's first color, so countries without revenue read as "none" in every mode.
+
+export type ClassificationMode = "gamma" | "linear" | "log" | "quantile" | "jenks" | "manual";
+
+export const CLASSIFICATION_MODES: Array<{ id: ClassificationMode; label: string; classed: boolean }> = [
+  { id: "gamma", label: "Continuous (gamma 0.35)", classed: false },
+  { id: "linear", label: "Linear", classed: false },
+  { id: "log", label: "Logarithmic", classed: false },
+  { id: "quantile", label: "Quantiles", classed: true },
+  { id: "jenks", label: "Natural breaks (Jenks)", classed: true },
+  { id: "manual", label: "Manual breaks", classed: true },
+];
+
+export type PaletteId = "factset" | "viridis" | "cividis" | "magma" | "blues";
+
+type Rgb = [number, number, number];
+
+const hex = (h: string): Rgb => [1, 3, 5].map((i) => parseInt(h.slice(i, i + 2), 16)) as Rgb;
+const rgb = ([r, g, b]: Rgb) => `rgb(${Math.round(r)},${Math.round(g)},${Math.round(b)})`;
+const mix = (a: Rgb, b: Rgb, f: number) => a.map((v, i) => v + (b[i] - v) * f) as Rgb;
+
+// Piecewise-linear ramp through evenly spaced stops.
+function ramp(stops: string[]) {
+  const colors = stops.map(hex);
+  return (t: number) => {
+    const x = Math.max(0, Math.min(1, t)) * (colors.length - 1);
+    const i = Math.min(colors.length - 2, Math.floor(x));
+    return rgb(mix(colors[i], colors[i + 1], x - i));
+  };
+}
+
+// The original brand ramp: deep navy -> FactSet blue -> aqua, with a bent second leg.
+function factsetRamp(t: number) {
+  const start: Rgb = [10, 25, 40];
+  const mid: Rgb = [0, 174, 239];
+  const end: Rgb = [120, 230, 255];
+  const rounded = (c: Rgb) => c.map(Math.round) as Rgb;
+  return rgb(rounded(mix(rounded(mix(start, mid, t * 0.7)), end, Math.pow(t, 1.2))));
+}
+
+export const PALETTES: Record<PaletteId, { label: string; colorblindSafe: boolean; color: (t: number) => string }> = {
+  factset: { label: "FactSet blue", colorblindSafe: false, color: factsetRamp },
+  viridis: {
+    label: "Viridis",
+    colorblindSafe: true,
+    color: ramp(["#440154", "#482878", "#3e4989", "#31688e", "#26828e", "#1f9e89", "#35b779", "#6ece58", "#b5de2b", "#fde725"]),
+  },
+  cividis: {
+    label: "Cividis",
+    colorblindSafe: true,
+    color: ramp(["#00204d", "#00336f", "#39486b", "#575d6d", "#707173", "#8a8779", "#a69d75", "#c4b56c", "#e4cf5b", "#ffea46"]),
+  },
+  magma: {
+    label: "Magma",
+    colorblindSafe: true,
+    color: ramp(["#000004", "#180f3d", "#440f76", "#721f81", "#9e2f7f", "#cd4071", "#f1605d", "#fd9668", "#feca8d", "#fcfdbf"]),
+  },
+  // ColorBrewer Blues, dark to light so high values stand out on the dark page.
+  blues: {
+    label: "Blues (single hue)",
+    colorblindSafe: true,
+    color: ramp(["#08306b", "#08519c", "#2171b5", "#4292c6", "#6baed6", "#9ecae1", "#c6dbef", "#deebf7", "#f7fbff"]),
+  },
+};
+
+export type ClassifyOptions = {
+  mode: ClassificationMode;
+  palette: PaletteId;
+  classes: number; // quantile and Jenks
+  manualBreaks: number[]; // ascending inner breaks in metric units, manual mode
+};
+
+// Colorblind-safe by default; the brand ramp stays selectable.
+export const DEFAULT_CLASSIFY: ClassifyOptions = { mode: "gamma", palette: "blues", classes: 5, manualBreaks: [] };
+
+export type LegendScale =
+  | { kind: "continuous"; stops: string[]; ticks: Array<{ position: number; value: number }> }
+  | { kind: "classed"; zeroColor: string; classes: Array<{ from: number; to: number; color: string }> };
+
+export type Classification = { color: (value: number) => string; legend: LegendScale };
+
+const GAMMA = 0.35;
+const TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+/** Classifies `values` (non-negative; zeros allowed) for a choropleth. */
+export function classify(values: number[], { mode, palette, classes, manualBreaks }: ClassifyOptions): Classification {
+  const paint = PALETTES[palette].color;
+  const positive = values.filter((v) => v > 0).sort((a, b) => a - b);
+  const max = positive[positive.length - 1] ?? 1;
+  const min = positive[0] ?? max;
+
+  if (mode === "gamma" || mode === "linear" || mode === "log") {
+    // t(v) in [0, 1] and its inverse, for colors and for placing legend ticks.
+    const [t, inverse]: [(v: number) => number, (p: number) => number] =
+      mode === "gamma"
+        ? [(v) => Math.pow(v / max, GAMMA), (p) => max * Math.pow(p, 1 / GAMMA)]
+        : mode === "linear"
+          ? [(v) => v / max, (p) => max * p]
+          : max > min
+            ? [(v) => Math.log(v / min) / Math.log(max / min), (p) => min * Math.pow(max / min, p)]
+            : [() => 1, () => max];
+    return {
+      color: (v) => paint(v > 0 ? Math.max(0, Math.min(1, t(v))) : 0),
+      legend: {
+        kind: "continuous",
+        stops: TICKS.map(paint),
+        // Log ticks start at the smallest non-zero value; zero sits below the scale.
+        ticks: TICKS.map((p) => ({ position: p, value: mode === "log" || p > 0 ? inverse(p) : 0 })),
+      },
+    };
+  }
+
+  const breaks =
+    mode === "manual"
+      ? [0, ...manualBreaks.filter((b) => b > 0 && b < max), max]
+      : mode === "quantile"
+        ? quantileBreaks(positive, classes)
+        : jenksBreaks(positive, classes);
+  const n = breaks.length - 1;
+  const bins = Array.from({ length: n }, (_, i) => ({ from: breaks[i], to: breaks[i + 1], color: paint((i + 1) / n) }));
+  const zeroColor = paint(0);
+  return {
+    color: (v) => {
+      if (!(v > 0) || !bins.length) return zeroColor;
+      const bin = bins.find((b) => v < b.to) ?? bins[bins.length - 1];
+      return bin.color;
+    },
+    legend: { kind: "classed", zeroColor, classes: bins },
+  };
+}
+
+// Orange (decrease) to blue (increase) through a dark neutral, readable with red-green
+// colour blindness and on the dark page.
+const DIVERGING = ramp(["#f97316", "#9a4a1c", "#1e293b", "#1d5a8f", "#38bdf8"]);
+
+/**
+ * Diverging scale for signed changes, symmetric around zero. A signed square root keeps
+ * small changes visible next to a few large ones (ticks show the real values).
+ */
+export function divergingScale(maxAbs: number): Classification & { legend: { kind: "continuous" } } {
+  const m = maxAbs > 0 ? maxAbs : 1;
+  const t = (v: number) => 0.5 + 0.5 * Math.sign(v) * Math.sqrt(Math.min(1, Math.abs(v) / m));
+  const inverse = (p: number) => Math.sign(p - 0.5) * m * Math.pow(2 * Math.abs(p - 0.5), 2);
+  return {
+    color: (v) => DIVERGING(t(v)),
+    legend: { kind: "continuous", stops: TICKS.map(DIVERGING), ticks: TICKS.map((p) => ({ position: p, value: inverse(p) })) },
+  };
+}
+
+/** Class breaks at equal-count quantiles of sorted positive values; equal breaks collapse. */
+export function quantileBreaks(sorted: number[], k: number): number[] {
+  if (!sorted.length) return [];
+  const breaks = [sorted[0]];
+  for (let i = 1; i < k; i++) {
+    const b = sorted[Math.floor((i * sorted.length) / k)];
+    if (b > breaks[breaks.length - 1]) breaks.push(b);
+  }
+  const last = sorted[sorted.length - 1];
+  if (last > breaks[breaks.length - 1] || breaks.length === 1) breaks.push(last);
+  return breaks;
+}
+
+/**
+ * Fisher–Jenks natural breaks: the k-class split of sorted values that minimizes the
+ * within-class sum of squared deviations (exact dynamic program, O(k·n²)).
+ */
+export function jenksBreaks(sorted: number[], k: number): number[] {
+  const n = sorted.length;
+  if (!n) return [];
+  k = Math.max(1, Math.min(k, new Set(sorted).size));
+  // cost[j][i]: best cost of the first i values in j classes; start[j][i]: where the last class starts.
+  const cost = Array.from({ length: k + 1 }, () => new Float64Array(n + 1).fill(Infinity));
+  const start = Array.from({ length: k + 1 }, () => new Int32Array(n + 1));
+  const sum = new Float64Array(n + 1);
+  const sq = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) {
+    sum[i + 1] = sum[i] + sorted[i];
+    sq[i + 1] = sq[i] + sorted[i] * sorted[i];
+  }
+  const ssd = (a: number, b: number) => sq[b] - sq[a] - ((sum[b] - sum[a]) * (sum[b] - sum[a])) / (b - a);
+  cost[0][0] = 0;
+  for (let j = 1; j <= k; j++) {
+    for (let i = j; i <= n; i++) {
+      for (let s = j - 1; s < i; s++) {
+        const c = cost[j - 1][s] + ssd(s, i);
+        if (c < cost[j][i]) {
+          cost[j][i] = c;
+          start[j][i] = s;
+        }
+      }
+    }
+  }
+  const lower: number[] = [];
+  for (let j = k, i = n; j > 0; j--) {
+    const s = start[j][i];
+    lower.unshift(sorted[s]);
+    i = s;
+  }
+  return [...lower, sorted[n - 1]];
+}
+
+/**
+ * Parses manual breakpoints typed in display units ("0.5, 1, 2.5" percent with scale 0.01)
+ * into metric units, or returns an error.
+ */
+export function parseManualBreaks(text: string, scale = 0.01): { breaks: number[]; error: string | null } {
+  const parts = text.split(/[,;\s]+/).filter(Boolean);
+  const values = parts.map((p) => Number(p.replace(/%$/, "")));
+  const bad = parts.filter((_, i) => !Number.isFinite(values[i]) || values[i] <= 0);
+  if (bad.length) return { breaks: [], error: `not a positive number: ${bad.join(", ")}` };
+  if (values.some((v, i) => i > 0 && v <= values[i - 1])) return { breaks: [], error: "breaks must increase" };
+  return { breaks: values.map((v) => v * scale), error: null };
+}
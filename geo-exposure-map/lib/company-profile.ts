@@ -0,0 +1,210 @@
+// Company profiles: which issuer we allocate, its reported geographic segments,
+// how ISO countries map into those segments, and the segment revenue anchors.
+// Profiles live as JSON files under profiles/ and are registered in lib/profiles.ts.
+
+import { checkKeys, describe, ISO3, isoList, num, obj, str, strList } from "./validation";
+
+// Mapping rules, most specific first: an ISO3 override beats an intermediate-region match,
+// which beats a sub-region match, which beats a region match.
+export type SegmentDefinition = {
+  id: string; // stable key, e.g. "EMEA"
+  label: string; // display name, e.g. "Europe, Middle East & Africa"
+  regions?: string[]; // UN regions (ISO dataset "region" column)
+  subRegions?: string[]; // UN sub-regions ("sub-region" column)
+  intermediateRegions?: string[]; // UN intermediate regions ("intermediate-region" column), e.g. "South America"
+  countries?: string[]; // explicit ISO3 overrides, e.g. ["MEX"] for a LatAm segment
+};
+
+export type MappingRule = "country" | "intermediateRegion" | "subRegion" | "region";
+
+// The ISO dataset columns the mapping rules look at.
+export type CountryRegions = {
+  iso3: string;
+  name: string;
+  region: string | null;
+  subRegion: string | null;
+  intermediateRegion: string | null;
+};
+
+type SegmentMatch = { segment: string; rule: MappingRule };
+
+// Countries the rules could not place, and countries two segments claim at the same rule
+// level (parsing rejects those, so only unvalidated profiles have any). `overrides` is
+// informational: countries a more specific rule moved out of a broader rule's segment.
+export type MappingCoverage = {
+  countries: number;
+  assigned: number;
+  unassigned: Array<{ iso3: string; name: string; region: string | null; subRegion: string | null }>;
+  ambiguous: Array<{ iso3: string; name: string; matches: SegmentMatch[] }>;
+  overrides: Array<{ iso3: string; name: string; assigned: string; matches: SegmentMatch[] }>;
+};
+
+export type CompanyProfile = {
+  ticker: string;
+  name: string;
+  fiscalYear: number; // headline year shown by default; must have anchors
+  source?: string;
+  segments: SegmentDefinition[];
+  anchors: Record<string, Record<string, number>>; // fiscal year -> segment id -> reported revenue, USD millions
+  disclosed?: Record<string, Record<string, number>>; // fiscal year -> ISO3 -> disclosed revenue, USD millions
+  offices?: string[]; // ISO3 office countries; replaces the model config's office list when set
+};
+
+export class ProfileError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid company profile ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ProfileError";
+    this.issues = issues;
+  }
+}
+
+const TICKER = /^[A-Z0-9][A-Z0-9.-]*$/;
+
+// Segment rule lists by specificity, paired with the country column each one matches.
+const RULES: Array<[key: "countries" | "intermediateRegions" | "subRegions" | "regions", rule: MappingRule]> = [
+  ["countries", "country"],
+  ["intermediateRegions", "intermediateRegion"],
+  ["subRegions", "subRegion"],
+  ["regions", "region"],
+];
+const RULE_KEYS = RULES.map(([key]) => key);
+
+function parseSegment(v: unknown, path: string, issues: string[]): SegmentDefinition {
+  const o = obj(v, path, issues);
+  checkKeys(o, path, ["id", "label", "regions", "subRegions", "intermediateRegions", "countries"], issues);
+  const seg: SegmentDefinition = {
+    id: str(o.id, `${path}.id`, issues),
+    label: str(o.label, `${path}.label`, issues),
+  };
+  if (o.regions !== undefined) seg.regions = strList(o.regions, `${path}.regions`, issues);
+  if (o.subRegions !== undefined) seg.subRegions = strList(o.subRegions, `${path}.subRegions`, issues);
+  if (o.intermediateRegions !== undefined) {
+    seg.intermediateRegions = strList(o.intermediateRegions, `${path}.intermediateRegions`, issues);
+  }
+  if (o.countries !== undefined) seg.countries = isoList(o.countries, `${path}.countries`, issues);
+  if (!RULE_KEYS.some((k) => seg[k]?.length)) {
+    issues.push(`${path}: needs at least one of regions, subRegions, intermediateRegions or countries`);
+  }
+  return seg;
+}
+
+/** Validates an untyped profile (parsed JSON) and returns it typed; throws ProfileError listing every problem. */
+export function parseCompanyProfile(raw: unknown, source = "<inline>"): CompanyProfile {
+  const issues: string[] = [];
+  const o = obj(raw, "(root)", issues);
+  checkKeys(o, "", ["ticker", "name", "fiscalYear", "source", "segments", "anchors", "disclosed", "offices"], issues);
+
+  const ticker = str(o.ticker, "ticker", issues);
+  if (ticker && !TICKER.test(ticker)) issues.push(`ticker: expected upper-case letters/digits, got ${describe(ticker)}`);
+  if (o.source !== undefined && typeof o.source !== "string") {
+    issues.push(`source: expected a string, got ${describe(o.source)}`);
+  }
+
+  const segments = Array.isArray(o.segments)
+    ? o.segments.map((s, i) => parseSegment(s, `segments[${i}]`, issues))
+    : [];
+  if (!Array.isArray(o.segments) || !segments.length) {
+    issues.push(`segments: expected a non-empty array, got ${describe(o.segments)}`);
+  }
+  const ids = segments.map((s) => s.id);
+  for (const id of new Set(ids)) {
+    if (ids.indexOf(id) !== ids.lastIndexOf(id)) issues.push(`segments: duplicate id ${describe(id)}`);
+  }
+  // Each rule value may only belong to one segment, otherwise membership is ambiguous.
+  for (const key of RULE_KEYS) {
+    const seen = new Map<string, string>();
+    for (const seg of segments) {
+      for (const r of seg[key] ?? []) {
+        const prev = seen.get(r);
+        if (prev && prev !== seg.id) issues.push(`segments: ${key} entry ${describe(r)} is claimed by ${prev} and ${seg.id}`);
+        seen.set(r, seg.id);
+      }
+    }
+  }
+
+  const anchors: CompanyProfile["anchors"] = {};
+  for (const [year, totals] of Object.entries(obj(o.anchors, "anchors", issues))) {
+    if (!/^\d{4}$/.test(year)) issues.push(`anchors.${year}: expected a four-digit fiscal year key`);
+    const t = obj(totals, `anchors.${year}`, issues);
+    checkKeys(t, `anchors.${year}`, ids, issues);
+    anchors[year] = {};
+    for (const id of ids) anchors[year][id] = num(t[id], `anchors.${year}.${id}`, issues, { min: 0 });
+  }
+  let disclosed: CompanyProfile["disclosed"];
+  if (o.disclosed !== undefined) {
+    disclosed = {};
+    for (const [year, pins] of Object.entries(obj(o.disclosed, "disclosed", issues))) {
+      if (!anchors[year]) issues.push(`disclosed.${year}: no segment anchors for this year`);
+      disclosed[year] = {};
+      for (const [iso, value] of Object.entries(obj(pins, `disclosed.${year}`, issues))) {
+        if (!ISO3.test(iso)) issues.push(`disclosed.${year}.${iso}: expected an ISO3 code key`);
+        disclosed[year][iso] = num(value, `disclosed.${year}.${iso}`, issues, { min: 0 });
+      }
+    }
+  }
+  const fiscalYear = num(o.fiscalYear, "fiscalYear", issues, { integer: true, min: 1900 });
+  if (Number.isInteger(fiscalYear) && !anchors[String(fiscalYear)]) {
+    issues.push(`fiscalYear: ${fiscalYear} has no entry in anchors`);
+  }
+
+  const profile: CompanyProfile = {
+    ticker,
+    name: str(o.name, "name", issues),
+    fiscalYear,
+    ...(typeof o.source === "string" ? { source: o.source } : {}),
+    segments,
+    anchors,
+    ...(disclosed ? { disclosed } : {}),
+    ...(o.offices !== undefined ? { offices: isoList(o.offices, "offices", issues) } : {}),
+  };
+  if (issues.length) throw new ProfileError(source, issues);
+  return profile;
+}
+
+/** Fiscal years with segment anchors, ascending. */
+export function anchorYears(profile: CompanyProfile): number[] {
+  return Object.keys(profile.anchors)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+const ruleValue = (c: CountryRegions, rule: MappingRule) =>
+  rule === "country" ? c.iso3 : rule === "intermediateRegion" ? c.intermediateRegion : rule === "subRegion" ? c.subRegion : c.region;
+
+/** Every segment rule that matches a country, most specific first. */
+export function segmentMatches(profile: CompanyProfile, country: CountryRegions) {
+  const matches: SegmentMatch[] = [];
+  for (const [key, rule] of RULES) {
+    const value = ruleValue(country, rule);
+    if (!value) continue;
+    for (const s of profile.segments) if (s[key]?.includes(value)) matches.push({ segment: s.id, rule });
+  }
+  return matches;
+}
+
+/** Segment id for a country: the most specific matching rule wins; null when nothing matches. */
+export function segmentOfCountry(profile: CompanyProfile, country: CountryRegions): string | null {
+  return segmentMatches(profile, country)[0]?.segment ?? null;
+}
+
+/** Coverage of the profile's mapping rules over the ISO country list. */
+export function mappingCoverage(profile: CompanyProfile, countries: CountryRegions[]): MappingCoverage {
+  const report: MappingCoverage = { countries: countries.length, assigned: 0, unassigned: [], ambiguous: [], overrides: [] };
+  const segmentCount = (matches: SegmentMatch[]) => new Set(matches.map((m) => m.segment)).size;
+  for (const c of countries) {
+    const matches = segmentMatches(profile, c);
+    if (!matches.length) {
+      report.unassigned.push({ iso3: c.iso3, name: c.name, region: c.region, subRegion: c.subRegion });
+      continue;
+    }
+    report.assigned++;
+    if (segmentCount(matches.filter((m) => m.rule === matches[0].rule)) > 1) {
+      report.ambiguous.push({ iso3: c.iso3, name: c.name, matches });
+    } else if (segmentCount(matches) > 1) {
+      report.overrides.push({ iso3: c.iso3, name: c.name, assigned: matches[0].segment, matches });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { COUNTRIES_GEOJSON, FetchError, httpProvider, ISO_CSV_URL, WB, type IndicatorRequest } from "./data-provider";
+import { loadExposureInputs } from "./exposure-core";
+import { WorldBankError } from "./world-bank";
+
+const POLICY = { timeoutMs: 20, retries: 2, backoffMs: 1 };
+const GDP: IndicatorRequest = { indicator: "NY.GDP.MKTP.CD", from: 2024, to: 2024 };
+
+const row = (iso3: string, value = 1) => ({ countryiso3code: iso3, date: "2024", value });
+const page = (n: number, pages: number, rows: unknown[], total = rows.length) =>
+  JSON.stringify([{ page: n, pages, per_page: 2, total }, rows]);
+
+type Reply = { status: number; body?: string } | "hang";
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Replaces fetch with `route`, which answers each URL in call order; returns the URLs requested.
+function stubFetch(route: (url: string, call: number) => Reply) {
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const reply = route(url, calls.filter((u) => u === url).length);
+    calls.push(url);
+    if (reply === "hang") {
+      // Never answers; rejects with the timeout's reason once the request's signal aborts.
+      return new Promise<Response>((_, reject) => {
+        const keepAlive = setTimeout(() => {}, 1_000);
+        init?.signal?.addEventListener("abort", () => {
+          clearTimeout(keepAlive);
+          reject(init.signal!.reason);
+        });
+      });
+    }
+    return new Response(reply.body ?? "", { status: reply.status });
+  }) as typeof fetch;
+  return calls;
+}
+
+describe("httpProvider retries", () => {
+  it("retries a server error and returns the later success", async () => {
+    const calls = stubFetch((_, call) => (call < 2 ? { status: 503 } : { status: 200, body: "ok" }));
+    assert.equal(await httpProvider(POLICY).geometry(), "ok");
+    assert.deepEqual(calls, [COUNTRIES_GEOJSON, COUNTRIES_GEOJSON, COUNTRIES_GEOJSON]);
+  });
+
+  it("gives up after the configured retries with the last status", async () => {
+    const calls = stubFetch(() => ({ status: 429 }));
+    await assert.rejects(
+      httpProvider(POLICY).isoCountries(),
+      (e) => e instanceof FetchError && e.status === 429 && e.url === ISO_CSV_URL,
+    );
+    assert.equal(calls.length, POLICY.retries + 1);
+  });
+
+  it("does not retry a client error", async () => {
+    const calls = stubFetch(() => ({ status: 404 }));
+    await assert.rejects(httpProvider(POLICY).geometry(), (e) => e instanceof FetchError && e.status === 404);
+    assert.equal(calls.length, 1);
+  });
+
+  it("times out a request that never answers and retries it", async () => {
+    const calls = stubFetch(() => "hang");
+    await assert.rejects(
+      httpProvider(POLICY).geometry(),
+      (e) => e instanceof FetchError && e.status === null && /timeout after 20ms/.test(e.message),
+    );
+    assert.equal(calls.length, POLICY.retries + 1);
+  });
+});
+
+describe("httpProvider indicator pages", () => {
+  const FIRST = page(1, 2, [row("USA"), row("FRA")], 3); // the first of two pages, holding 2 of 3 rows
+
+  it("fetches the later pages and merges them into one document", async () => {
+    const calls = stubFetch((url) => ({ status: 200, body: url === WB(GDP) ? FIRST : page(2, 2, [row("DEU")], 3) }));
+    const [meta, rows] = JSON.parse(await httpProvider(POLICY).indicator(GDP)) as [unknown, Array<{ countryiso3code: string }>];
+    assert.deepEqual(calls, [WB(GDP), WB(GDP, 2)]);
+    assert.deepEqual(meta, { page: 1, pages: 1, per_page: 3, total: 3 });
+    assert.deepEqual(rows.map((r) => r.countryiso3code), ["USA", "FRA", "DEU"]);
+  });
+
+  it("rejects when a later page is missing", async () => {
+    stubFetch((url) => (url === WB(GDP) ? { status: 200, body: FIRST } : { status: 404 }));
+    await assert.rejects(httpProvider(POLICY).indicator(GDP), (e) => e instanceof FetchError && e.url === WB(GDP, 2));
+  });
+
+  it("rejects a malformed later page with the page's URL", async () => {
+    stubFetch((url) => ({ status: 200, body: url === WB(GDP) ? FIRST : '{"error":"bad"}' }));
+    await assert.rejects(
+      httpProvider(POLICY).indicator(GDP),
+      (e) => e instanceof WorldBankError && e.message.includes(WB(GDP, 2)) && /expected \[meta, rows\]/.test(e.issues[0]),
+    );
+  });
+});
+
+describe("loadExposureInputs over HTTP", () => {
+  const years = { from: 2024, to: 2024 };
+  // Every source answers except the World Bank indicators listed in `failing`.
+  const route = (failing: string[]) => (url: string): Reply => {
+    if (url === ISO_CSV_URL) {
+      return { status: 200, body: "name,alpha-2,alpha-3,region,sub-region\nFrance,FR,FRA,Europe,Western Europe\n" };
+    }
+    if (url === COUNTRIES_GEOJSON) return { status: 200, body: '{"type":"FeatureCollection","features":[]}' };
+    if (failing.some((code) => url.includes(`/indicator/${code}?`))) return { status: 500 };
+    return { status: 200, body: page(1, 1, [row("FRA", 2)]) };
+  };
+
+  it("scores without an optional indicator that stays unavailable and records it as degraded", async () => {
+    stubFetch(route(["IT.NET.USER.ZS"]));
+    const inputs = await loadExposureInputs(httpProvider(POLICY), years);
+    assert.deepEqual(inputs.indicators.net, {});
+    assert.deepEqual(inputs.indicators.gdp, { FRA: [{ year: 2024, value: 2 }] });
+    assert.equal(inputs.degraded.length, 1);
+    assert.equal(inputs.degraded[0].indicator, "IT.NET.USER.ZS");
+    assert.equal(inputs.degraded[0].factor, "internet");
+    assert.match(inputs.degraded[0].message, /fetch failed 500/);
+  });
+
+  it("fails when a required indicator is unavailable", async () => {
+    stubFetch(route(["NY.GDP.MKTP.CD"]));
+    await assert.rejects(
+      loadExposureInputs(httpProvider(POLICY), years),
+      /required indicator .*\(NY\.GDP\.MKTP\.CD\) is unavailable/,
+    );
+  });
+});
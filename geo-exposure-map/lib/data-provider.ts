@@ -0,0 +1,100 @@
+// Data providers feed buildExposureData its raw inputs. Every method returns the
+// response body as text so a recorded snapshot replays byte-for-byte.
+
+import { mergeWorldBankPages, parseWorldBankPage } from "./world-bank";
+
+export type IndicatorRequest = {
+  indicator: string; // World Bank indicator code, e.g. NY.GDP.MKTP.CD
+  from: number;
+  to: number;
+};
+
+export interface ExposureDataProvider {
+  readonly name: string;
+  isoCountries(): Promise<string>; // ISO-3166 CSV with UN regions
+  geometry(): Promise<string>; // countries GeoJSON
+  indicator(req: IndicatorRequest): Promise<string>; // World Bank `[meta, rows]` JSON
+}
+
+export const ISO_CSV_URL =
+  "https://raw.githubusercontent.com/lukes/iso-3166-countries-with-regional-codes/master/all/all.csv";
+export const COUNTRIES_GEOJSON =
+  "https://raw.githubusercontent.com/datasets/geo-countries/main/data/countries.geojson";
+export const WB = ({ indicator, from, to }: IndicatorRequest, page = 1) =>
+  `https://api.worldbank.org/v2/country/all/indicator/${indicator}?format=json&per_page=20000&date=${
+    from === to ? from : `${from}:${to}`
+  }${page > 1 ? `&page=${page}` : ""}`;
+
+// Stable file-system friendly key for an indicator request (used by snapshots).
+export function indicatorKey({ indicator, from, to }: IndicatorRequest) {
+  return `${indicator}.${from}-${to}`;
+}
+
+// Per-request timeout, and retries with exponential backoff (plus jitter) for network
+// errors, timeouts, 408/429 and 5xx responses.
+export type FetchPolicy = { timeoutMs: number; retries: number; backoffMs: number };
+
+export const DEFAULT_FETCH_POLICY: FetchPolicy = { timeoutMs: 20_000, retries: 3, backoffMs: 500 };
+
+export class FetchError extends Error {
+  readonly url: string;
+  readonly status: number | null; // null: no response (network error or timeout)
+
+  constructor(url: string, status: number | null, detail: string) {
+    super(`fetch failed ${detail} ${url}`);
+    this.name = "FetchError";
+    this.url = url;
+    this.status = status;
+  }
+}
+
+const retryable = (status: number | null) => status == null || status === 408 || status === 429 || status >= 500;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function fetchOnce(url: string, timeoutMs: number): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(url, { cache: "force-cache", signal: AbortSignal.timeout(timeoutMs) });
+  } catch (e) {
+    const timedOut = e instanceof Error && e.name === "TimeoutError";
+    throw new FetchError(url, null, timedOut ? `timeout after ${timeoutMs}ms` : `(${e instanceof Error ? e.message : e})`);
+  }
+  if (!res.ok) throw new FetchError(url, res.status, String(res.status));
+  return res.text();
+}
+
+async function fetchText(url: string, policy: FetchPolicy): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, policy.timeoutMs);
+    } catch (e) {
+      if (!(e instanceof FetchError) || !retryable(e.status) || attempt >= policy.retries) throw e;
+      await sleep(policy.backoffMs * 2 ** attempt * (0.5 + Math.random() / 2));
+    }
+  }
+}
+
+// The API pages large results; later pages are fetched and merged into one response so
+// callers (and snapshots) always see a single complete `[meta, rows]` document.
+async function fetchIndicator(req: IndicatorRequest, policy: FetchPolicy): Promise<string> {
+  const first = await fetchText(WB(req), policy);
+  const page = parseWorldBankPage(JSON.parse(first) as unknown, WB(req));
+  if (page.meta.pages <= 1) return first;
+  const rest = await Promise.all(
+    Array.from({ length: page.meta.pages - 1 }, async (_, i) => {
+      const url = WB(req, i + 2);
+      return parseWorldBankPage(JSON.parse(await fetchText(url, policy)) as unknown, url);
+    }),
+  );
+  const { meta, rows } = mergeWorldBankPages([page, ...rest]);
+  return JSON.stringify([meta, rows]);
+}
+
+export function httpProvider(policy: FetchPolicy = DEFAULT_FETCH_POLICY): ExposureDataProvider {
+  return {
+    name: "http",
+    isoCountries: () => fetchText(ISO_CSV_URL, policy),
+    geometry: () => fetchText(COUNTRIES_GEOJSON, policy),
+    indicator: (req) => fetchIndicator(req, policy),
+  };
+}
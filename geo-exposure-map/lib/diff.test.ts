@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DiffError, diffSides, parseComparisonPayload, payloadSide, type DiffSide } from "./diff";
+
+const side = (label: string, values: Record<string, [number, number]>): DiffSide => ({
+  label,
+  year: 2024,
+  values: Object.fromEntries(
+    Object.entries(values).map(([iso3, [revenueMillions, share]]) => [iso3, { revenueMillions, share }]),
+  ),
+  names: Object.fromEntries(Object.keys(values).map((iso3) => [iso3, `${iso3} name`])),
+});
+
+// The issues parseComparisonPayload reports for `raw` (serialized unless a string), or [] when it parses.
+function issuesOf(raw: unknown) {
+  try {
+    parseComparisonPayload(typeof raw === "string" ? raw : JSON.stringify(raw), "test");
+    return [];
+  } catch (e) {
+    assert.ok(e instanceof DiffError);
+    return e.issues;
+  }
+}
+
+const country = (iso3: string, series: unknown = [{ year: 2024, revenueMillions: 10, share: 0.5 }]) => ({
+  iso3,
+  name: `${iso3} name`,
+  series,
+});
+
+describe("diffSides", () => {
+  const diff = diffSides(
+    side("before", { USA: [100, 0.5], FRA: [0, 0], DEU: [100, 0.5] }),
+    side("after", { USA: [150, 0.6], FRA: [20, 0.08], JPN: [80, 0.32] }),
+  );
+
+  it("keeps countries present on one side only, with the other side null", () => {
+    assert.deepEqual(diff.byIso.DEU.after, null);
+    assert.equal(diff.byIso.DEU.revenueDelta, -100);
+    assert.equal(diff.byIso.DEU.shareDelta, -0.5);
+    assert.deepEqual(diff.byIso.JPN.before, null);
+    assert.equal(diff.byIso.JPN.revenueDelta, 80);
+    assert.equal(diff.byIso.JPN.name, "JPN name");
+  });
+
+  it("leaves the relative change null without revenue before", () => {
+    assert.equal(diff.byIso.USA.relative, 0.5);
+    assert.equal(diff.byIso.DEU.relative, -1);
+    assert.equal(diff.byIso.FRA.relative, null);
+    assert.equal(diff.byIso.JPN.relative, null);
+  });
+
+  it("orders changes by absolute revenue change and totals each side", () => {
+    assert.deepEqual(diff.changes.map((c) => c.iso3), ["DEU", "JPN", "USA", "FRA"]);
+    assert.equal(diff.maxAbsRevenueDelta, 100);
+    assert.equal(diff.maxAbsShareDelta, 0.5);
+    assert.deepEqual([diff.before.totalMillions, diff.after.totalMillions], [200, 250]);
+  });
+
+  it("reports no change between empty sides", () => {
+    const empty = diffSides(side("a", {}), side("b", {}));
+    assert.deepEqual([empty.changes, empty.maxAbsRevenueDelta, empty.maxAbsShareDelta], [[], 0, 0]);
+  });
+});
+
+describe("payloadSide", () => {
+  it("leaves out countries without the requested year but keeps their names", () => {
+    const usa = { iso3: "USA", name: "USA name", series: [{ year: 2024, revenueMillions: 10, share: 0.5 }] };
+    const s = payloadSide({ countryDetails: [usa, { iso3: "FRA", name: "FRA name", series: [] }] }, 2024, "FY2024");
+    assert.deepEqual(Object.keys(s.values), ["USA"]);
+    assert.equal(s.names.FRA, "FRA name");
+  });
+});
+
+describe("parseComparisonPayload", () => {
+  it("reads a payload and fills in missing metadata", () => {
+    const payload = parseComparisonPayload(JSON.stringify({ fiscalYear: 2024, countryDetails: [country("usa")] }), "test");
+    assert.deepEqual(payload.years, [2024]);
+    assert.equal(payload.countryDetails[0].iso3, "USA");
+    assert.deepEqual(payload.meta, { model: { name: "unknown model", hash: "" }, profile: { ticker: "" } });
+  });
+
+  it("rejects text that is not a JSON object", () => {
+    assert.match(issuesOf("{ nope")[0], /^not JSON: /);
+    assert.deepEqual(issuesOf([1, 2]), ["expected a payload object, got [1,2]"]);
+  });
+
+  it("lists every problem at once", () => {
+    assert.deepEqual(
+      issuesOf({
+        fiscalYear: "2024",
+        countryDetails: [
+          country("USA"),
+          country("FRA", [{ year: 2024.5, revenueMillions: -1, share: 0.1 }]),
+          { iso3: "DEU", series: {} },
+        ],
+      }),
+      [
+        'fiscalYear: expected a finite number, got "2024"',
+        "countryDetails[1].series[0].year: must be an integer, got 2024.5",
+        "countryDetails[1].series[0].revenueMillions: must be >= 0, got -1",
+        "countryDetails[2].name: expected a non-empty string, got nothing",
+        "countryDetails[2].series: expected an array, got {}",
+      ],
+    );
+    assert.deepEqual(issuesOf({ fiscalYear: 2024 }), ["countryDetails: expected an array, got nothing"]);
+  });
+
+  it("lists the first malformed countries and counts the rest", () => {
+    const issues = issuesOf({ fiscalYear: 2024, countryDetails: Array.from({ length: 8 }, (_, i) => country(`C${i}`, null)) });
+    assert.equal(issues.length, 6);
+    assert.equal(issues[0], "countryDetails[0].series: expected an array, got null");
+    assert.equal(issues[5], "... and 3 more malformed countries");
+  });
+});
@@ -0,0 +1,147 @@
+// Compare mode: the per-country change in revenue and share between two allocations,
+// e.g. two model configs, two fiscal years, or a saved payload against the current run.
+
+import { describe, isObj, num, str } from "./validation";
+
+export type SideValue = { revenueMillions: number; share: number };
+
+/** One side of a comparison: a year's revenue and share per country. */
+export type DiffSide = { label: string; year: number; values: Record<string, SideValue>; names: Record<string, string> };
+
+// The part of an ApiPayload a comparison reads; a full payload satisfies it.
+export type SeriesPayload = {
+  fiscalYear: number;
+  years: number[];
+  countryDetails: Array<{
+    iso3: string;
+    name: string;
+    series: Array<{ year: number; revenueMillions: number; share: number }>;
+  }>;
+  meta: { model: { name: string; hash: string }; profile: { ticker: string } };
+};
+
+export type CountryChange = {
+  iso3: string;
+  name: string;
+  before: SideValue | null; // null when the country has no allocation on that side
+  after: SideValue | null;
+  revenueDelta: number; // USD millions, after - before
+  shareDelta: number; // after - before, in share units (0.01 = 1 pp)
+  relative: number | null; // revenueDelta / before revenue; null when there was none before
+};
+
+export type PayloadDiff = {
+  before: { label: string; year: number; totalMillions: number };
+  after: { label: string; year: number; totalMillions: number };
+  changes: CountryChange[]; // largest absolute revenue change first
+  byIso: Record<string, CountryChange>;
+  maxAbsRevenueDelta: number;
+  maxAbsShareDelta: number;
+};
+
+export class DiffError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid comparison payload ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "DiffError";
+    this.issues = issues;
+  }
+}
+
+/** The `year` slice of a payload's country series; countries without that year are left out. */
+export function payloadSide(payload: Pick<SeriesPayload, "countryDetails">, year: number, label: string): DiffSide {
+  const values: Record<string, SideValue> = {};
+  const names: Record<string, string> = {};
+  for (const d of payload.countryDetails) {
+    const point = d.series.find((p) => p.year === year);
+    names[d.iso3] = d.name;
+    if (point) values[d.iso3] = { revenueMillions: point.revenueMillions, share: point.share };
+  }
+  return { label, year, values, names };
+}
+
+export function diffSides(before: DiffSide, after: DiffSide): PayloadDiff {
+  const total = (s: DiffSide) => Object.values(s.values).reduce((a, v) => a + v.revenueMillions, 0);
+  const changes: CountryChange[] = [];
+  for (const iso3 of new Set([...Object.keys(before.values), ...Object.keys(after.values)])) {
+    const b = before.values[iso3] ?? null;
+    const a = after.values[iso3] ?? null;
+    const revenueDelta = (a?.revenueMillions ?? 0) - (b?.revenueMillions ?? 0);
+    changes.push({
+      iso3,
+      name: after.names[iso3] ?? before.names[iso3] ?? iso3,
+      before: b,
+      after: a,
+      revenueDelta,
+      shareDelta: (a?.share ?? 0) - (b?.share ?? 0),
+      relative: b && b.revenueMillions > 0 ? revenueDelta / b.revenueMillions : null,
+    });
+  }
+  changes.sort((x, y) => Math.abs(y.revenueDelta) - Math.abs(x.revenueDelta));
+  return {
+    before: { label: before.label, year: before.year, totalMillions: total(before) },
+    after: { label: after.label, year: after.year, totalMillions: total(after) },
+    changes,
+    byIso: Object.fromEntries(changes.map((c) => [c.iso3, c])),
+    maxAbsRevenueDelta: Math.max(0, ...changes.map((c) => Math.abs(c.revenueDelta))),
+    maxAbsShareDelta: Math.max(0, ...changes.map((c) => Math.abs(c.shareDelta))),
+  };
+}
+
+const MAX_ROW_ISSUES = 5;
+
+/**
+ * Reads a saved payload (a snapshot's payload.json, a precomputed payload artifact or an
+ * /api/exposure response) for comparison; throws DiffError listing every problem.
+ */
+export function parseComparisonPayload(text: string, source: string): SeriesPayload {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new DiffError(source, [`not JSON: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  if (!isObj(raw)) throw new DiffError(source, [`expected a payload object, got ${describe(raw).slice(0, 120)}`]);
+  const issues: string[] = [];
+  const fiscalYear = num(raw.fiscalYear, "fiscalYear", issues, { integer: true });
+  const meta = isObj(raw.meta) ? raw.meta : {};
+  const model = isObj(meta.model) ? meta.model : {};
+  const profile = isObj(meta.profile) ? meta.profile : {};
+  const years = Array.isArray(raw.years) ? raw.years.filter((y): y is number => Number.isInteger(y)) : [];
+  if (!Array.isArray(raw.countryDetails)) issues.push(`countryDetails: expected an array, got ${describe(raw.countryDetails).slice(0, 120)}`);
+
+  const countryDetails: SeriesPayload["countryDetails"] = [];
+  let bad = 0;
+  for (const [i, d] of (Array.isArray(raw.countryDetails) ? raw.countryDetails : []).entries()) {
+    const rowIssues: string[] = [];
+    const row = isObj(d) ? d : {};
+    const iso3 = str(row.iso3, `countryDetails[${i}].iso3`, rowIssues);
+    const name = str(row.name, `countryDetails[${i}].name`, rowIssues);
+    const series = (Array.isArray(row.series) ? row.series : []).flatMap((p, j) => {
+      const point = isObj(p) ? p : {};
+      const path = `countryDetails[${i}].series[${j}]`;
+      const year = num(point.year, `${path}.year`, rowIssues, { integer: true });
+      const revenueMillions = num(point.revenueMillions, `${path}.revenueMillions`, rowIssues, { min: 0 });
+      const share = num(point.share, `${path}.share`, rowIssues, { min: 0 });
+      return [{ year, revenueMillions, share }];
+    });
+    if (!Array.isArray(row.series)) rowIssues.push(`countryDetails[${i}].series: expected an array, got ${describe(row.series).slice(0, 80)}`);
+    if (rowIssues.length) {
+      if (++bad <= MAX_ROW_ISSUES) issues.push(...rowIssues.slice(0, 2));
+      continue;
+    }
+    countryDetails.push({ iso3: iso3.toUpperCase(), name, series });
+  }
+  if (bad > MAX_ROW_ISSUES) issues.push(`... and ${bad - MAX_ROW_ISSUES} more malformed countries`);
+  if (issues.length) throw new DiffError(source, issues);
+  return {
+    fiscalYear,
+    years: years.length ? years : [fiscalYear],
+    countryDetails,
+    meta: {
+      model: { name: typeof model.name === "string" ? model.name : "unknown model", hash: typeof model.hash === "string" ? model.hash : "" },
+      profile: { ticker: typeof profile.ticker === "string" ? profile.ticker : "" },
+    },
+  };
+}
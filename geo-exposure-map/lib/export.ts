@@ -0,0 +1,182 @@
+// Tabular exports of an ApiPayload (CSV, JSON, NDJSON, XLSX). Pure and browser-safe so
+// the command-line estimator and the web app write identical rows from the same payload.
+
+import { strToU8, zipSync } from "fflate";
+import type { ApiPayload } from "./exposure-core";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "ndjson", "xlsx"];
+
+export const EXPORT_MIME: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// One country in one fiscal year. GDP and population are the latest values at or before
+// that year (`gdp_year` says which year GDP came from).
+export type ExportRow = {
+  iso3: string;
+  country: string;
+  segment: string;
+  region: string;
+  year: number;
+  basis: string;
+  revenue_usd_millions_est: number;
+  revenue_usd_millions_p10: number | null;
+  revenue_usd_millions_p90: number | null;
+  share: number;
+  gdp_current_usd: number | null;
+  gdp_year: number | null;
+  population: number | null;
+  office: 0 | 1;
+  hub: 0 | 1;
+  near_zero: 0 | 1;
+};
+
+export type ExportColumn = keyof ExportRow;
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  "iso3",
+  "country",
+  "segment",
+  "region",
+  "year",
+  "basis",
+  "revenue_usd_millions_est",
+  "revenue_usd_millions_p10",
+  "revenue_usd_millions_p90",
+  "share",
+  "gdp_current_usd",
+  "gdp_year",
+  "population",
+  "office",
+  "hub",
+  "near_zero",
+];
+
+const flag = (b: boolean): 0 | 1 => (b ? 1 : 0);
+
+/**
+ * Rows for one allocated year (default: the headline fiscal year), by segment then revenue
+ * descending. Countries outside every segment carry no revenue and are left out.
+ */
+export function exportRows(payload: ApiPayload, year = payload.fiscalYear): ExportRow[] {
+  if (!payload.years.includes(year)) {
+    throw new Error(`no allocation for ${year}; available years: ${payload.years.join(", ")}`);
+  }
+  const rows = payload.countryDetails.filter((d) => d.segment).map((d): ExportRow => {
+    const point = d.series.find((p) => p.year === year);
+    return {
+      iso3: d.iso3,
+      country: d.name,
+      segment: d.segment,
+      region: d.region,
+      year,
+      basis: point?.basis ?? d.basis,
+      revenue_usd_millions_est: point?.revenueMillions ?? 0,
+      revenue_usd_millions_p10: point?.range?.revenueMillions.p10 ?? null,
+      revenue_usd_millions_p90: point?.range?.revenueMillions.p90 ?? null,
+      share: point?.share ?? 0,
+      gdp_current_usd: point ? point.gdpCurrentUsd : d.gdpCurrentUsd,
+      gdp_year: point ? point.gdpYear : d.gdpYear,
+      population: point ? point.population : d.population,
+      office: flag(d.office),
+      hub: flag(d.hub),
+      near_zero: flag(d.nearZero),
+    };
+  });
+  return rows.sort((a, b) =>
+    a.segment === b.segment
+      ? b.revenue_usd_millions_est - a.revenue_usd_millions_est
+      : a.segment.localeCompare(b.segment),
+  );
+}
+
+const csvCell = (v: string | number | null) => {
+  if (v == null) return "";
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+};
+
+export function toCsv(rows: ExportRow[], columns = EXPORT_COLUMNS): string {
+  const lines = [columns.join(",")];
+  for (const r of rows) lines.push(columns.map((c) => csvCell(r[c])).join(","));
+  return `${lines.join("\n")}\n`;
+}
+
+const pick = (r: ExportRow, columns: ExportColumn[]) => Object.fromEntries(columns.map((c) => [c, r[c]]));
+
+export function toJson(rows: ExportRow[], columns = EXPORT_COLUMNS): string {
+  return `${JSON.stringify(rows.map((r) => pick(r, columns)), null, 2)}\n`;
+}
+
+export function toNdjson(rows: ExportRow[], columns = EXPORT_COLUMNS): string {
+  return rows.map((r) => `${JSON.stringify(pick(r, columns))}\n`).join("");
+}
+
+// --- XLSX: the smallest valid Office Open XML workbook, one sheet of inline strings ---
+
+const xmlEscape = (s: string) =>
+  s.replace(/[<>&"]/g, (ch) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[ch] ?? ch);
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function columnLetter(index: number) {
+  let s = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+function xlsxCell(ref: string, v: string | number | null) {
+  if (v == null) return "";
+  if (typeof v === "number") return Number.isFinite(v) ? `<c r="${ref}"><v>${v}</v></c>` : "";
+  return `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(v)}</t></is></c>`;
+}
+
+export function toXlsx(rows: ExportRow[], columns = EXPORT_COLUMNS, sheetName = "Exposure"): Uint8Array {
+  const table: Array<Array<string | number | null>> = [columns, ...rows.map((r) => columns.map((c) => r[c]))];
+  const sheetRows = table.map(
+    (cells, i) => `<row r="${i + 1}">${cells.map((v, j) => xlsxCell(`${columnLetter(j)}${i + 1}`, v)).join("")}</row>`,
+  );
+  const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+  const rel = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  const files: Record<string, string> = {
+    "[Content_Types].xml":
+      `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+    "_rels/.rels":
+      `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml":
+      `${XML_HEAD}<workbook ${ns} xmlns:r="${rel}"><sheets>` +
+      `<sheet name="${xmlEscape(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="${rel}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `${XML_HEAD}<worksheet ${ns}><sheetData>${sheetRows.join("")}</sheetData></worksheet>`,
+  };
+  // Fixed mtime keeps the archive byte-identical across runs.
+  const mtime = new Date(Date.UTC(2000, 0, 1));
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, [strToU8(xml), { mtime }]])));
+}
+
+/** Serializes rows in the requested format; XLSX is binary, everything else is UTF-8 text. */
+export function serializeRows(rows: ExportRow[], format: ExportFormat, columns = EXPORT_COLUMNS): string | Uint8Array {
+  switch (format) {
+    case "csv":
+      return toCsv(rows, columns);
+    case "json":
+      return toJson(rows, columns);
+    case "ndjson":
+      return toNdjson(rows, columns);
+    case "xlsx":
+      return toXlsx(rows, columns);
+  }
+}
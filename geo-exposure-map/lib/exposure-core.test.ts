@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CompanyProfile } from "./company-profile";
+import { computeExposure } from "./exposure-core";
+import { syntheticInputs } from "./fixtures/synthetic-inputs";
+
+const inputs = syntheticInputs();
+
+// Fictional company with two anchor years, as a profile with FY2023 and FY2024 filings would have.
+const profile: CompanyProfile = {
+  ticker: "SYNA",
+  name: "Synthetic A",
+  fiscalYear: 2024,
+  source: "synthetic",
+  segments: [
+    { id: "AMERICAS", label: "Americas", regions: ["Americas"] },
+    { id: "EMEA", label: "EMEA", regions: ["Europe", "Africa"], subRegions: ["Western Asia"] },
+    { id: "APAC", label: "Asia Pacific", regions: ["Asia", "Oceania"] },
+  ],
+  anchors: {
+    "2023": { AMERICAS: 850, EMEA: 380, APAC: 180 },
+    "2024": { AMERICAS: 900, EMEA: 400, APAC: 200 },
+  },
+};
+
+describe("computeExposure over several anchor years", () => {
+  const payload = computeExposure(inputs, { profile, uncertainty: false });
+
+  it("allocates every anchor year and headlines the profile's fiscal year", () => {
+    assert.deepEqual(payload.years, [2023, 2024]);
+    assert.equal(payload.fiscalYear, 2024);
+    for (const d of payload.countryDetails) assert.deepEqual(d.series.map((p) => p.year), [2023, 2024]);
+  });
+
+  it("matches each year's segment totals", () => {
+    for (const year of payload.years) {
+      const totals: Record<string, number> = {};
+      for (const d of payload.countryDetails) {
+        const point = d.series.find((p) => p.year === year);
+        if (d.segment && point) totals[d.segment] = (totals[d.segment] ?? 0) + point.revenueMillions;
+      }
+      for (const [seg, anchor] of Object.entries(profile.anchors[String(year)])) {
+        assert.ok(Math.abs(totals[seg] - anchor) < 1e-6, `FY${year} ${seg}: ${totals[seg]} vs ${anchor}`);
+      }
+    }
+  });
+
+  it("takes population and GDP as of each year", () => {
+    const usa = payload.countryDetails.find((d) => d.iso3 === "USA");
+    assert.deepEqual(
+      usa?.series.map((p) => [p.year, p.gdpYear, p.gdpCurrentUsd, p.population]),
+      [
+        [2023, 2023, 27000e9 * 0.96, 335e6 * 0.99],
+        [2024, 2024, 27000e9, 335e6],
+      ],
+    );
+    assert.equal(usa?.gdpCurrentUsd, 27000e9);
+  });
+});
@@ -1,21 +1,80 @@
 import type { Geometry } from "geojson";
+import {
+  anchorYears,
+  mappingCoverage,
+  segmentOfCountry,
+  type CompanyProfile,
+  type MappingCoverage,
+} from "./company-profile";
+import { httpProvider, type ExposureDataProvider } from "./data-provider";
+import { reconcileGeometry, type GeoDiagnostics, type GeoReconciliation } from "./iso-reconcile";
+import {
+  BASE_INDICATOR,
+  factorMultiplier,
+  INDICATORS,
+  indicatorList,
+  SCORING_INDICATORS,
+  type FactorName,
+} from "./indicators";
+import { DEFAULT_MODEL_CONFIG, hashModelConfig, type ModelConfig } from "./model-config";
+import { DEFAULT_PROFILE } from "./profiles";
+import { percentileBand, sampleModelConfigs, type Band } from "./uncertainty";
+import { checkComplete, parseWorldBankPage } from "./world-bank";
+
+// "disclosed": revenue pinned from the company's filing; "modeled": allocated by score.
+export type RevenueBasis = "disclosed" | "modeled";
+
+// p10/p50/p90 across Monte Carlo parameter draws (present when the model config has ranges).
+export type UncertaintyRange = { revenueMillions: Band; share: Band };
+
+// One raw scoring input; `imputed` marks a segment-median substitute for missing data.
+export type FactorInput = { value: number | null; year: number | null; imputed: boolean };
+
+// How a modeled country's score was built, keyed by the indicator registry
+// (lib/indicators.ts). `factors` is null when GDP is missing and the country only
+// received the placeholder score.
+export type Attribution = {
+  inputs: Record<string, FactorInput>; // indicator key -> value used: GDP, then every scoring indicator
+  factors: Record<string, number> | null; // "gdp" (GDP ^ gdpExponent), each factor by name, "hub", "office", "nearZero"
+  score: number;
+  scoreShare: number; // share of the segment's modeled score total
+};
+
+export type CountryYearValue = {
+  year: number;
+  revenueMillions: number;
+  share: number;
+  population: number | null; // latest value as of `year`
+  gdpCurrentUsd: number | null; // latest value as of `year`, observed in gdpYear
+  gdpYear: number | null;
+  basis: RevenueBasis;
+  range?: UncertaintyRange;
+  attribution?: Attribution;
+};
 
 export type ApiPayload = {
+  // Top-level values describe `fiscalYear`; `countryDetails[].series` holds every year.
+  fiscalYear: number;
+  years: number[];
   iso3ToIntensity: Record<string, number>;
   countryDetails: Array<{
     iso3: string;
+    alpha2: string | null;
     name: string;
     region: string;
     revenueMillions: number;
     share: number;
     population: number | null;
-    flagUrl: string | null;
     segment: string;
     office: boolean;
     hub: boolean;
     nearZero: boolean;
     gdpCurrentUsd: number | null;
     gdpYear: number | null;
+    basis: RevenueBasis;
+    range?: UncertaintyRange;
+    attribution?: Attribution;
+    series: CountryYearValue[];
   }>;
   geo: {
     features?: Array<{
@@ -27,82 +86,58 @@ export type ApiPayload = {
   };
   totalRevenueMillions: number;
   maxShare: number;
-  meta: { note: string };
+  meta: {
+    note: string;
+    model: { name: string; hash: string };
+    uncertainty: { samples: number; seed: number } | null;
+    coverage: MappingCoverage; // how the profile's segment rules cover the ISO country list
+    geometry: GeoDiagnostics; // how the map features line up with the ISO country list
+    degraded: DegradedInput[]; // optional inputs that failed to load; their factors are dropped
+    profile: {
+      ticker: string;
+      name: string;
+      fiscalYear: number;
+      segments: Array<{ id: string; label: string; revenueByYear: Record<string, number> }>;
+    };
+  };
 };
 
-// FY2025 segment revenues from FactSet 10-K (USD millions)
-const SEGMENT_REVENUE_USD_M: Record<string, number> = {
-  AMERICAS: 1_506_108 / 1_000,
-  EMEA: 580_284 / 1_000,
-  APAC: 235_356 / 1_000,
+// An optional input that failed to load, and the factor dropped because of it.
+export type DegradedInput = { indicator: string; label: string; factor: FactorName | null; message: string };
+
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AllocationError";
+  }
+}
+
+// World Bank data lags; a fiscal year uses the latest value at or before it within this window.
+export const INDICATOR_LOOKBACK_YEARS = 7;
+
+export type YearValue = { year: number; value: number };
+// ISO3 -> observations sorted by year (ascending). Plain objects so inputs serialize to JSON.
+export type IndicatorSeries = Record<string, YearValue[]>;
+
+export type IsoCountry = {
+  iso3: string;
+  alpha2: string | null;
+  name: string;
+  region: string | null;
+  subRegion: string | null;
+  intermediateRegion: string | null;
 };
 
-const ISO_CSV_URL =
-  "https://raw.githubusercontent.com/lukes/iso-3166-countries-with-regional-codes/master/all/all.csv";
-const COUNTRIES_GEOJSON =
-  "https://raw.githubusercontent.com/datasets/geo-countries/main/data/countries.geojson";
-const WB = (indicator: string) =>
-  `https://api.worldbank.org/v2/country/all/indicator/${indicator}?format=json&per_page=20000&date=2018:2024`;
-const IND_GDP = "NY.GDP.MKTP.CD"; // GDP current US$
-const IND_MCAP_PCT = "CM.MKT.LCAP.GD.ZS"; // Market cap % GDP
-const IND_CREDIT_PCT = "FS.AST.PRVT.GD.ZS"; // Private credit % GDP
-const IND_GDP_PC = "NY.GDP.PCAP.CD"; // GDP per capita current US$
-const IND_NET = "IT.NET.USER.ZS"; // Internet users % population
-
-const HUB_MULT = new Map<string, number>([
-  ["USA", 1.3],
-  ["GBR", 1.3],
-  ["CHE", 1.3],
-  ["LUX", 1.3],
-  ["SGP", 1.3],
-  ["HKG", 1.3],
-  ["ARE", 1.25],
-  ["IRL", 1.2],
-  ["NLD", 1.2],
-  ["FRA", 1.15],
-  ["DEU", 1.15],
-  ["JPN", 1.15],
-  ["AUS", 1.15],
-  ["CAN", 1.15],
-]);
-
-const OFFICE_COUNTRIES = new Set([
-  // Americas
-  "USA",
-  "BRA",
-  "CAN",
-  // EMEA
-  "BGR",
-  "GBR",
-  "FRA",
-  "DEU",
-  "ITA",
-  "LVA",
-  "LUX",
-  "NLD",
-  "SWE",
-  "ARE",
-  // APAC
-  "AUS",
-  "CHN",
-  "HKG",
-  "IND",
-  "JPN",
-  "PHL",
-  "SGP",
-]);
-const OFFICE_MULT = 1.15;
-
-const NEAR_ZERO = new Set(["CUB", "IRN", "PRK", "RUS"]);
-const NEAR_ZERO_MULT = 0.01;
-
-type WorldBankDatum = {
-  countryiso3code?: string;
-  value?: number | null;
-  date?: string | number;
+// Everything fetched from the data provider; computeExposure turns it into a payload.
+export type ExposureInputs = {
+  countries: IsoCountry[];
+  indicators: Record<string, IndicatorSeries>; // indicator key (lib/indicators.ts) -> series
+  geo: ApiPayload["geo"];
+  geoMatch: GeoReconciliation; // ISO3 per geo feature, plus what did not reconcile
+  degraded: DegradedInput[]; // optional indicators that failed to load; the caller reports them
 };
 
-function splitCsvLine(line: string): string[] {
+export function splitCsvLine(line: string): string[] {
   const out: string[] = [];
   let cur = "";
   let inQ = false;
@@ -129,54 +164,36 @@ function median(arr: number[]): number | null {
   return a.length % 2 ? a[mid] : (a[mid - 1] + a[mid]) / 2;
 }
 
-function latestByIso3(wbJson: unknown): Map<string, { year: number; value: number }> {
-  const rows = Array.isArray(wbJson) && wbJson.length > 1 ? (wbJson[1] as WorldBankDatum[]) : [];
-  const best = new Map<string, { year: number; value: number }>();
-  for (const it of rows) {
-    const iso3 = it?.countryiso3code;
-    const year = Number(it?.date);
-    const val = it?.value;
-    if (!iso3 || !Number.isFinite(year) || val == null) continue;
-    const prev = best.get(iso3);
-    if (!prev || year > prev.year) best.set(iso3, { year, value: Number(val) });
+function seriesByIso3(text: string, source: string): IndicatorSeries {
+  const page = parseWorldBankPage(JSON.parse(text) as unknown, source);
+  checkComplete(page, source);
+  const out: IndicatorSeries = {};
+  for (const { countryiso3code: iso3, date, value } of page.rows) {
+    const year = Number(date);
+    if (!iso3 || !Number.isFinite(year) || value == null) continue;
+    (out[iso3] ??= []).push({ year, value });
   }
-  return best;
+  for (const list of Object.values(out)) list.sort((a, b) => a.year - b.year);
+  return out;
 }
 
-function segmentOfCountry(region: string | null, subRegion: string | null): "AMERICAS" | "EMEA" | "APAC" | null {
-  if (region === "Americas") return "AMERICAS";
-  if (region === "Europe") return "EMEA";
-  if (region === "Africa") return "EMEA";
-  if (region === "Asia") {
-    if (subRegion === "Western Asia") return "EMEA";
-    return "APAC";
+// Latest observation at or before `year`, no older than the lookback window.
+function valueAsOf(series: IndicatorSeries, iso3: string, year: number): YearValue | undefined {
+  const list = series[iso3];
+  if (!list) return undefined;
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (list[i].year > year) continue;
+    return year - list[i].year <= INDICATOR_LOOKBACK_YEARS ? list[i] : undefined;
   }
-  if (region === "Oceania") return "APAC";
-  return null;
-}
-
-function clamp(x: number, lo: number, hi: number) {
-  return Math.max(lo, Math.min(hi, x));
+  return undefined;
 }
 
-export async function buildExposureData(): Promise<ApiPayload> {
-  // 1) ISO list
-  const isoRes = await fetch(ISO_CSV_URL, { cache: "force-cache" });
-  if (!isoRes.ok) throw new Error("iso fetch failed");
-  const isoCsv = await isoRes.text();
+function parseIsoCountries(isoCsv: string): IsoCountry[] {
   const lines = isoCsv.trim().split("\n");
   const header = splitCsvLine(lines[0]);
   const idx = (name: string) => header.indexOf(name);
 
-  const iso3ToAlpha2: Record<string, string> = {};
-  const countries: Array<{
-    iso3: string;
-    alpha2: string | null;
-    name: string;
-    region: string | null;
-    subRegion: string | null;
-    seg: "AMERICAS" | "EMEA" | "APAC" | null;
-  }> = [];
+  const countries: IsoCountry[] = [];
   for (let i = 1; i < lines.length; i++) {
     const cols = splitCsvLine(lines[i]);
     const iso3 = cols[idx("alpha-3")]?.trim().toUpperCase();
@@ -185,211 +202,364 @@ export async function buildExposureData(): Promise<ApiPayload> {
     const name = cols[idx("name")]?.trim();
     const region = cols[idx("region")]?.trim() ?? null;
     const subRegion = cols[idx("sub-region")]?.trim() ?? null;
+    const intermediateRegion = cols[idx("intermediate-region")]?.trim() || null;
     if (!iso3 || !name) continue;
-    const seg = segmentOfCountry(region, subRegion);
-    countries.push({ iso3, alpha2, name, region, subRegion, seg });
-    if (alpha2) iso3ToAlpha2[iso3.toUpperCase()] = alpha2.toUpperCase();
+    countries.push({ iso3, alpha2, name, region, subRegion, intermediateRegion });
   }
-  const countryMap = new Map(countries.map((c) => [c.iso3, c]));
-
-  // 2) World Bank indicators (latest 2018–2024)
-  const [gdpJson, mcapJson, creditJson, gdpPcJson, netJson, popJson] = await Promise.all([
-    fetch(WB(IND_GDP), { cache: "force-cache" }).then((r) => r.json()),
-    fetch(WB(IND_MCAP_PCT), { cache: "force-cache" }).then((r) => r.json()),
-    fetch(WB(IND_CREDIT_PCT), { cache: "force-cache" }).then((r) => r.json()),
-    fetch(WB(IND_GDP_PC), { cache: "force-cache" }).then((r) => r.json()),
-    fetch(WB(IND_NET), { cache: "force-cache" }).then((r) => r.json()),
-    fetch("https://api.worldbank.org/v2/country/all/indicator/SP.POP.TOTL?format=json&per_page=20000&date=2023", {
-      cache: "force-cache",
-    }).then((r) => r.json()),
-  ]);
-
-  const gdp = latestByIso3(gdpJson);
-  const mcapPct = latestByIso3(mcapJson);
-  const creditPct = latestByIso3(creditJson);
-  const gdpPc = latestByIso3(gdpPcJson);
-  const netPct = latestByIso3(netJson);
-  const pop = latestByIso3(popJson);
-
-  // 3) Medians per segment for missing data
-  const segVals: Record<string, { mcap: number[]; credit: number[]; gdppc: number[]; net: number[] }> = {
-    AMERICAS: { mcap: [], credit: [], gdppc: [], net: [] },
-    EMEA: { mcap: [], credit: [], gdppc: [], net: [] },
-    APAC: { mcap: [], credit: [], gdppc: [], net: [] },
-  };
+  return countries;
+}
 
-  for (const c of countries) {
-    if (!c.seg) continue;
-    const mp = mcapPct.get(c.iso3)?.value;
-    const cp = creditPct.get(c.iso3)?.value;
-    const gp = gdpPc.get(c.iso3)?.value;
-    const np = netPct.get(c.iso3)?.value;
-    if (Number.isFinite(mp)) segVals[c.seg].mcap.push(mp as number);
-    if (Number.isFinite(cp)) segVals[c.seg].credit.push(cp as number);
-    if (Number.isFinite(gp)) segVals[c.seg].gdppc.push(gp as number);
-    if (Number.isFinite(np)) segVals[c.seg].net.push(np as number);
+/** Indicator years needed to score every anchor year of `profile`. */
+export function indicatorWindow(profile: CompanyProfile) {
+  const years = anchorYears(profile);
+  return { from: years[0] - INDICATOR_LOOKBACK_YEARS, to: years[years.length - 1] };
+}
+
+export async function loadExposureInputs(
+  provider: ExposureDataProvider,
+  years: { from: number; to: number },
+): Promise<ExposureInputs> {
+  // 1) ISO list
+  const countries = parseIsoCountries(await provider.isoCountries());
+
+  // 2) Registry indicators over the whole window; each fiscal year picks its own values.
+  const settled = await Promise.allSettled(
+    INDICATORS.map(async ({ source }) =>
+      seriesByIso3(await provider.indicator({ indicator: source.code, ...years }), `${source.code} ${years.from}-${years.to}`),
+    ),
+  );
+  const indicators: ExposureInputs["indicators"] = {};
+  const degraded: DegradedInput[] = [];
+  settled.forEach((result, i) => {
+    const { key, source, label, factor: scoring, required } = INDICATORS[i];
+    const { code } = source;
+    const factor = scoring?.name ?? null;
+    if (result.status === "fulfilled") {
+      indicators[key] = result.value;
+      return;
+    }
+    const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    if (required) throw new Error(`required indicator ${label} (${code}) is unavailable: ${message}`);
+    indicators[key] = {};
+    degraded.push({ indicator: code, label, factor, message });
+  });
+
+  const geo = JSON.parse(await provider.geometry()) as ApiPayload["geo"];
+  const geoMatch = reconcileGeometry(geo.features ?? [], countries);
+  return { countries, indicators, geo, geoMatch, degraded };
+}
+
+export type ComputeOptions = {
+  config?: ModelConfig;
+  profile?: CompanyProfile;
+  uncertainty?: boolean; // default: on when the config has an uncertainty section
+};
+
+export type BuildOptions = ComputeOptions & {
+  provider?: ExposureDataProvider;
+};
+
+function describeProfile(profile: CompanyProfile) {
+  const labels = profile.segments.map((s) => s.label).join(", ");
+  const years = anchorYears(profile);
+  const span = years.length > 1 ? `FY${years[0]}–FY${years[years.length - 1]}` : `FY${years[0]}`;
+  return `${profile.name} ${span} estimated per-country revenue. Anchors: reported segment totals (${labels}). Allocation: ${indicatorList()} (values as of each fiscal year); explicit multipliers for hubs and disclosed office countries; comprehensive-sanctions set near-zero. Outputs USD millions and flags for office/hub/near-zero.`;
+}
+
+// Disclosed countries keep their reported revenue; the rest of each segment anchor
+// (the residual) is spread across the remaining countries by score.
+function checkDisclosures(
+  countries: Array<IsoCountry & { seg: string | null }>,
+  profile: CompanyProfile,
+  year: number,
+): Record<string, number> {
+  const pins = profile.disclosed?.[String(year)] ?? {};
+  const bySeg = new Map<string, number>();
+  for (const [iso3, value] of Object.entries(pins)) {
+    const c = countries.find((x) => x.iso3 === iso3);
+    if (!c) throw new AllocationError(`${profile.ticker} FY${year}: disclosed country ${iso3} is not in the ISO list`);
+    if (!c.seg) {
+      throw new AllocationError(`${profile.ticker} FY${year}: disclosed country ${iso3} is not mapped to any segment`);
+    }
+    bySeg.set(c.seg, (bySeg.get(c.seg) ?? 0) + value);
+  }
+  for (const [seg, pinned] of bySeg) {
+    const total = profile.anchors[String(year)][seg];
+    // Filings round each line on its own, so the pins may overshoot the segment total by a
+    // rounding step: 0.01% of the total, but at least USD 1 thousand.
+    if (pinned > total + Math.max(total * 1e-4, 0.001)) {
+      throw new AllocationError(
+        `${profile.ticker} FY${year}: disclosed countries in ${seg} sum to ${pinned} but the segment total is ${total}`,
+      );
+    }
   }
+  return pins;
+}
 
-  const segMedian: Record<string, { mcap: number; credit: number; gdppc: number; net: number }> = {};
-  for (const seg of Object.keys(segVals)) {
-    segMedian[seg] = {
-      mcap: median(segVals[seg].mcap) ?? 30,
-      credit: median(segVals[seg].credit) ?? 50,
-      gdppc: median(segVals[seg].gdppc) ?? 8000,
-      net: median(segVals[seg].net) ?? 55,
-    };
+// Scores every segment-mapped country with indicators as of `year` and spreads that
+// year's segment residual (anchor minus disclosed countries) by score.
+// Returns ISO3 -> revenue (USD millions) and, with `explain`, ISO3 -> score attribution.
+function allocateYear(
+  inputs: ExposureInputs,
+  countries: Array<IsoCountry & { seg: string | null }>,
+  profile: CompanyProfile,
+  config: ModelConfig,
+  year: number,
+  explain = false,
+): { revenue: Map<string, number>; attribution: Map<string, Attribution> } {
+  const { factors } = config;
+  const gdp = inputs.indicators[BASE_INDICATOR.key] ?? {};
+  const hubMult = new Map(Object.entries(config.hubs));
+  const officeSet = new Set(profile.offices ?? config.offices.countries);
+  const nearZeroSet = new Set(config.nearZero.countries);
+  const segmentIds = profile.segments.map((s) => s.id);
+  const pins = checkDisclosures(countries, profile, year);
+  const dropped = new Set(inputs.degraded.map((d) => d.factor));
+  const seriesOf = (key: string) => inputs.indicators[key] ?? {};
+
+  // 3) Stand-ins for missing data: factor name -> segment -> value (null: no adjustment)
+  const standIn: Record<string, Record<string, number | null>> = {};
+  for (const { key, factor } of SCORING_INDICATORS) {
+    const bySeg: Record<string, number[]> = Object.fromEntries(segmentIds.map((seg) => [seg, []]));
+    for (const c of countries) {
+      const v = c.seg ? valueAsOf(seriesOf(key), c.iso3, year)?.value : undefined;
+      if (c.seg && Number.isFinite(v)) bySeg[c.seg].push(v as number);
+    }
+    const fallback = factors[factor.name].fallbackMedian;
+    const global = median(Object.values(bySeg).flat()) ?? fallback;
+    standIn[factor.name] = Object.fromEntries(
+      segmentIds.map((seg) => [
+        seg,
+        factor.imputation === "neutral" ? null : factor.imputation === "globalMedian" ? global : (median(bySeg[seg]) ?? fallback),
+      ]),
+    );
   }
 
   // 4) Score + allocate within each segment
-  const scores: Record<"AMERICAS" | "EMEA" | "APAC", Map<string, number>> = {
-    AMERICAS: new Map(),
-    EMEA: new Map(),
-    APAC: new Map(),
-  };
+  const scores: Record<string, Map<string, number>> = {};
+  for (const seg of segmentIds) scores[seg] = new Map();
+  const attribution = new Map<string, Attribution>();
+  const missing: FactorInput = { value: null, year: null, imputed: false };
 
   for (const c of countries) {
-    if (!c.seg) continue;
+    if (!c.seg || pins[c.iso3] != null) continue;
 
-    const g = gdp.get(c.iso3)?.value;
-    if (!Number.isFinite(g) || (g as number) <= 0) {
+    const g = valueAsOf(gdp, c.iso3, year);
+    if (!g || !Number.isFinite(g.value) || g.value <= 0) {
       scores[c.seg].set(c.iso3, 1e-9);
+      if (explain) {
+        attribution.set(c.iso3, {
+          inputs: Object.fromEntries([BASE_INDICATOR, ...SCORING_INDICATORS].map((d) => [d.key, missing])),
+          factors: null,
+          score: 1e-9,
+          scoreShare: 0,
+        });
+      }
       continue;
     }
 
-    const mp = mcapPct.get(c.iso3)?.value ?? segMedian[c.seg].mcap;
-    const cp = creditPct.get(c.iso3)?.value ?? segMedian[c.seg].credit;
-    const gp = gdpPc.get(c.iso3)?.value ?? segMedian[c.seg].gdppc;
-    const np = netPct.get(c.iso3)?.value ?? segMedian[c.seg].net;
-
-    const mcapFactor = Math.pow(1 + clamp(mp as number, 0, 400) / 100, 0.9);
-    const creditFactor = Math.pow(1 + clamp(cp as number, 0, 300) / 100, 0.6);
-    const wealthFactor = Math.pow(1 + clamp(gp as number, 0, 80_000) / 50_000, 0.35);
-    const internetFactor = Math.pow(0.2 + clamp(np as number, 0, 100) / 100, 0.25);
-
-    let s = Math.pow(g as number, 0.7) * mcapFactor * creditFactor * wealthFactor * internetFactor;
-
-    s *= HUB_MULT.get(c.iso3) ?? 1.0;
-    if (OFFICE_COUNTRIES.has(c.iso3)) s *= OFFICE_MULT;
-    if (NEAR_ZERO.has(c.iso3)) s *= NEAR_ZERO_MULT;
-
+    const gdpTerm = Math.pow(g.value, config.gdpExponent);
+    const terms: Record<string, number> = { [BASE_INDICATOR.key]: gdpTerm };
+    const used: Record<string, FactorInput> = { [BASE_INDICATOR.key]: { value: g.value, year: g.year, imputed: false } };
+    let s = gdpTerm;
+    for (const { key, factor } of SCORING_INDICATORS) {
+      if (dropped.has(factor.name)) {
+        terms[factor.name] = 1;
+        used[key] = missing;
+        continue;
+      }
+      const v = valueAsOf(seriesOf(key), c.iso3, year);
+      const x = v?.value ?? standIn[factor.name][c.seg];
+      terms[factor.name] = x == null ? 1 : factorMultiplier(factor, factors[factor.name], x);
+      used[key] = v ? { value: v.value, year: v.year, imputed: false } : x == null ? missing : { value: x, year: null, imputed: true };
+      s *= terms[factor.name];
+    }
+    const hub = hubMult.get(c.iso3) ?? 1.0;
+    const office = officeSet.has(c.iso3) ? (config.offices.weights?.[c.iso3] ?? config.offices.multiplier) : 1;
+    const nearZero = nearZeroSet.has(c.iso3) ? config.nearZero.multiplier : 1;
+    s = s * hub * office * nearZero;
     scores[c.seg].set(c.iso3, s);
-  }
 
-  const allocations: Array<{
-    iso3: string;
-    country: string;
-    segment: string;
-    revenueMillions: number;
-    office: boolean;
-    hub: boolean;
-    nearZero: boolean;
-  }> = [];
+    if (explain) {
+      attribution.set(c.iso3, {
+        inputs: used,
+        factors: { ...terms, hub, office, nearZero },
+        score: s,
+        scoreShare: 0, // filled in once the segment total is known
+      });
+    }
+  }
 
-  for (const seg of Object.keys(scores) as Array<"AMERICAS" | "EMEA" | "APAC">) {
+  const revenue = new Map<string, number>();
+  const totals = profile.anchors[String(year)];
+  for (const [iso3, value] of Object.entries(pins)) revenue.set(iso3, value);
+  for (const seg of segmentIds) {
     const map = scores[seg];
+    let pinned = 0;
+    for (const c of countries) if (c.seg === seg && pins[c.iso3] != null) pinned += pins[c.iso3];
+    const residual = Math.max(0, totals[seg] - pinned);
     let sum = 0;
     for (const v of map.values()) sum += v;
-    const total = SEGMENT_REVENUE_USD_M[seg];
-
-    for (const c of countries.filter((x) => x.seg === seg)) {
-      const s = map.get(c.iso3) ?? 0;
-      const share = sum > 0 ? s / sum : 0;
-      allocations.push({
-        iso3: c.iso3,
-        country: c.name,
-        segment: seg,
-        revenueMillions: total * share,
-        office: OFFICE_COUNTRIES.has(c.iso3),
-        hub: HUB_MULT.has(c.iso3),
-        nearZero: NEAR_ZERO.has(c.iso3),
+    if (residual > 1e-6 && sum <= 0) {
+      throw new AllocationError(
+        `${profile.ticker} FY${year}: ${seg} has a residual of ${residual} but no undisclosed countries to allocate it to`,
+      );
+    }
+    for (const [iso3, s] of map) {
+      revenue.set(iso3, sum > 0 ? (residual * s) / sum : 0);
+      const a = attribution.get(iso3);
+      if (a) a.scoreShare = sum > 0 ? s / sum : 0;
+    }
+  }
+  return { revenue, attribution };
+}
+
+/**
+ * One fiscal year's revenue per ISO3 (USD millions) without assembling a payload; the
+ * calibration fit re-runs this for every parameter set it tries.
+ */
+export function allocateRevenue(
+  inputs: ExposureInputs,
+  profile: CompanyProfile,
+  config: ModelConfig,
+  year: number,
+): Map<string, number> {
+  const countries = inputs.countries.map((c) => ({ ...c, seg: segmentOfCountry(profile, c) }));
+  return allocateYear(inputs, countries, profile, config, year).revenue;
+}
+
+/** Pure allocation step: no I/O, so callers can re-run it on cached inputs. */
+export function computeExposure(inputs: ExposureInputs, options: ComputeOptions = {}): ApiPayload {
+  const config = options.config ?? DEFAULT_MODEL_CONFIG;
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  const years = anchorYears(profile);
+  const fiscalYear = profile.fiscalYear;
+  const hubMult = new Map(Object.entries(config.hubs));
+  const officeSet = new Set(profile.offices ?? config.offices.countries);
+  const nearZeroSet = new Set(config.nearZero.countries);
+  const gdp = inputs.indicators[BASE_INDICATOR.key] ?? {};
+  const pop = inputs.indicators.pop ?? {};
+
+  const countries = inputs.countries.map((c) => ({ ...c, seg: segmentOfCountry(profile, c) }));
+  const samples = options.uncertainty === false ? [] : sampleModelConfigs(config);
+
+  const series = new Map<string, CountryYearValue[]>(countries.map((c) => [c.iso3, []]));
+  for (const year of years) {
+    const { revenue, attribution } = allocateYear(inputs, countries, profile, config, year, true);
+    let total = 0;
+    for (const v of revenue.values()) total += v;
+
+    // Re-run the per-segment normalization for every parameter draw.
+    const drawn = new Map<string, { revenue: number[]; share: number[] }>();
+    for (const sample of samples) {
+      const r = allocateYear(inputs, countries, profile, sample, year).revenue;
+      let sampleTotal = 0;
+      for (const v of r.values()) sampleTotal += v;
+      for (const [iso3, v] of r) {
+        const d = drawn.get(iso3) ?? { revenue: [], share: [] };
+        d.revenue.push(v);
+        d.share.push(sampleTotal > 0 ? v / sampleTotal : 0);
+        drawn.set(iso3, d);
+      }
+    }
+
+    const pins = profile.disclosed?.[String(year)] ?? {};
+    for (const c of countries) {
+      const r = revenue.get(c.iso3) ?? 0;
+      const d = drawn.get(c.iso3);
+      const a = attribution.get(c.iso3);
+      const gdpEntry = valueAsOf(gdp, c.iso3, year);
+      series.get(c.iso3)?.push({
+        year,
+        revenueMillions: r,
+        share: total > 0 ? r / total : 0,
+        population: valueAsOf(pop, c.iso3, year)?.value ?? null,
+        gdpCurrentUsd: gdpEntry?.value ?? null,
+        gdpYear: gdpEntry?.year ?? null,
+        basis: pins[c.iso3] != null ? "disclosed" : "modeled",
+        ...(d ? { range: { revenueMillions: percentileBand(d.revenue), share: percentileBand(d.share) } } : {}),
+        ...(a ? { attribution: a } : {}),
       });
     }
   }
 
-  const totalRevenueMillions = allocations.reduce((a, b) => a + b.revenueMillions, 0);
+  const atFiscalYear = (iso3: string) =>
+    series.get(iso3)?.find((p) => p.year === fiscalYear) ??
+    ({
+      year: fiscalYear,
+      revenueMillions: 0,
+      share: 0,
+      population: null,
+      gdpCurrentUsd: null,
+      gdpYear: null,
+      basis: "modeled",
+    } as CountryYearValue);
+
   const iso3ToIntensity: Record<string, number> = {};
   let maxShare = 0;
-  for (const row of allocations) {
-    const isoKey = row.iso3.toUpperCase();
-    const share = totalRevenueMillions > 0 ? row.revenueMillions / totalRevenueMillions : 0;
-    iso3ToIntensity[isoKey] = share;
-    if (share > maxShare) maxShare = share;
-  }
-
-  const countryDetailsMap: Record<string, {
-    iso3: string;
-    name: string;
-    region: string;
-    revenueMillions: number;
-    share: number;
-    population: number | null;
-    flagUrl: string | null;
-    segment: string;
-    office: boolean;
-    hub: boolean;
-    nearZero: boolean;
-    gdpCurrentUsd: number | null;
-    gdpYear: number | null;
-  }> = {};
-
-  for (const row of allocations) {
-    const population = pop.get(row.iso3)?.value ?? null;
-    const meta = countryMap.get(row.iso3);
-    const alpha2 =
-      meta?.alpha2 ?? iso3ToAlpha2[row.iso3] ?? (row.iso3.length >= 2 ? row.iso3.slice(0, 2) : null);
-    const flagUrl = alpha2 ? `https://flagcdn.com/${alpha2.toLowerCase()}.svg` : null;
-    const gdpEntry = gdp.get(row.iso3);
-    countryDetailsMap[row.iso3] = {
-      iso3: row.iso3,
-      name: row.country,
-      region: meta?.region ?? "",
-      revenueMillions: row.revenueMillions,
-      share: totalRevenueMillions > 0 ? row.revenueMillions / totalRevenueMillions : 0,
-      population,
-      flagUrl,
-      segment: row.segment,
-      office: row.office,
-      hub: row.hub,
-      nearZero: row.nearZero,
-      gdpCurrentUsd: gdpEntry?.value ?? null,
-      gdpYear: gdpEntry?.year ?? null,
-    };
-  }
+  let totalRevenueMillions = 0;
+  const countryDetails: ApiPayload["countryDetails"] = [];
 
-  // ensure every ISO in our country list has an entry (even if zero) for hover usability
+  // every ISO in our country list gets an entry (even if zero) for hover usability
   for (const c of countries) {
-    if (countryDetailsMap[c.iso3]) continue;
-    const alpha2 = c.alpha2 ?? iso3ToAlpha2[c.iso3] ?? (c.iso3.length >= 2 ? c.iso3.slice(0, 2) : null);
-    const flagUrl = alpha2 ? `https://flagcdn.com/${alpha2.toLowerCase()}.svg` : null;
-    const population = pop.get(c.iso3)?.value ?? null;
-    const gdpEntry = gdp.get(c.iso3);
-    iso3ToIntensity[c.iso3] = iso3ToIntensity[c.iso3] ?? 0;
-    countryDetailsMap[c.iso3] = {
+    const current = atFiscalYear(c.iso3);
+    iso3ToIntensity[c.iso3] = current.share;
+    if (current.share > maxShare) maxShare = current.share;
+    totalRevenueMillions += current.revenueMillions;
+
+    countryDetails.push({
       iso3: c.iso3,
+      alpha2: c.alpha2,
       name: c.name,
       region: c.region ?? "",
-      revenueMillions: 0,
-      share: 0,
-      population,
-      flagUrl,
+      revenueMillions: current.revenueMillions,
+      share: current.share,
+      population: current.population,
       segment: c.seg ?? "",
-      office: OFFICE_COUNTRIES.has(c.iso3),
-      hub: HUB_MULT.has(c.iso3),
-      nearZero: NEAR_ZERO.has(c.iso3),
-      gdpCurrentUsd: gdpEntry?.value ?? null,
-      gdpYear: gdpEntry?.year ?? null,
-    };
+      office: officeSet.has(c.iso3),
+      hub: hubMult.has(c.iso3),
+      nearZero: nearZeroSet.has(c.iso3),
+      gdpCurrentUsd: current.gdpCurrentUsd,
+      gdpYear: current.gdpYear,
+      basis: current.basis,
+      ...(current.range ? { range: current.range } : {}),
+      ...(current.attribution ? { attribution: current.attribution } : {}),
+      series: series.get(c.iso3) ?? [],
+    });
   }
 
   return {
+    fiscalYear,
+    years,
     iso3ToIntensity,
-    countryDetails: Object.values(countryDetailsMap),
-    geo: await fetch(COUNTRIES_GEOJSON, { cache: "force-cache" }).then((r) => r.json()),
+    countryDetails,
+    geo: inputs.geo,
     totalRevenueMillions,
     maxShare,
     meta: {
-      note:
-        "FactSet FY2025 estimated per-country revenue. Anchors: reported segment totals (Americas, EMEA, APAC). Allocation: GDP, market depth, credit, GDP per capita, internet penetration; explicit multipliers for hubs and disclosed office countries; comprehensive-sanctions set near-zero. Outputs USD millions and flags for office/hub/near-zero.",
+      note: describeProfile(profile),
+      model: { name: config.name, hash: hashModelConfig(config) },
+      uncertainty: samples.length && config.uncertainty ? { samples: samples.length, seed: config.uncertainty.seed } : null,
+      coverage: mappingCoverage(profile, inputs.countries),
+      geometry: inputs.geoMatch.diagnostics,
+      degraded: inputs.degraded,
+      profile: {
+        ticker: profile.ticker,
+        name: profile.name,
+        fiscalYear,
+        segments: profile.segments.map(({ id, label }) => ({
+          id,
+          label,
+          revenueByYear: Object.fromEntries(years.map((y) => [String(y), profile.anchors[String(y)][id]])),
+        })),
+      },
     },
   };
 }
+
+export async function buildExposureData(options: BuildOptions = {}): Promise<ApiPayload> {
+  const provider = options.provider ?? httpProvider();
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  const inputs = await loadExposureInputs(provider, indicatorWindow(profile));
+  return computeExposure(inputs, { ...options, profile });
+}
@@ -0,0 +1,82 @@
+// Synthetic model inputs for tests and the sample calibration dataset: thirty countries
+// with rounded, illustrative indicator values for 2023 and 2024. They are not World Bank
+// data; nothing computed from them describes a real country or company.
+
+import type { ExposureInputs, IndicatorSeries, IsoCountry } from "../exposure-core";
+
+// iso3, alpha2, name, UN region, UN sub-region, GDP (USD bn), population (m), market cap %
+// GDP, private credit % GDP, internet users %.
+const ROWS: Array<[string, string, string, string, string, number, number, number, number, number]> = [
+  ["USA", "US", "United States", "Americas", "Northern America", 27000, 335, 150, 190, 92],
+  ["CAN", "CA", "Canada", "Americas", "Northern America", 2100, 40, 130, 110, 94],
+  ["MEX", "MX", "Mexico", "Americas", "Latin America and the Caribbean", 1800, 128, 30, 38, 76],
+  ["BRA", "BR", "Brazil", "Americas", "Latin America and the Caribbean", 2100, 216, 40, 72, 81],
+  ["ARG", "AR", "Argentina", "Americas", "Latin America and the Caribbean", 640, 46, 10, 12, 88],
+  ["CHL", "CL", "Chile", "Americas", "Latin America and the Caribbean", 330, 20, 70, 80, 90],
+  ["GBR", "GB", "United Kingdom", "Europe", "Northern Europe", 3300, 68, 100, 130, 96],
+  ["SWE", "SE", "Sweden", "Europe", "Northern Europe", 590, 10.5, 130, 130, 96],
+  ["DEU", "DE", "Germany", "Europe", "Western Europe", 4400, 84, 50, 80, 92],
+  ["FRA", "FR", "France", "Europe", "Western Europe", 3000, 68, 80, 105, 86],
+  ["NLD", "NL", "Netherlands", "Europe", "Western Europe", 1100, 17.9, 110, 85, 95],
+  ["CHE", "CH", "Switzerland", "Europe", "Western Europe", 880, 8.8, 230, 175, 96],
+  ["ITA", "IT", "Italy", "Europe", "Southern Europe", 2250, 59, 30, 60, 86],
+  ["ESP", "ES", "Spain", "Europe", "Southern Europe", 1600, 48, 45, 75, 95],
+  ["POL", "PL", "Poland", "Europe", "Eastern Europe", 810, 37, 25, 45, 87],
+  ["ZAF", "ZA", "South Africa", "Africa", "Sub-Saharan Africa", 380, 60, 250, 90, 74],
+  ["NGA", "NG", "Nigeria", "Africa", "Sub-Saharan Africa", 360, 224, 10, 12, 45],
+  ["KEN", "KE", "Kenya", "Africa", "Sub-Saharan Africa", 108, 55, 15, 30, 41],
+  ["EGY", "EG", "Egypt", "Africa", "Northern Africa", 400, 112, 10, 25, 72],
+  ["ARE", "AE", "United Arab Emirates", "Asia", "Western Asia", 500, 9.5, 160, 70, 100],
+  ["SAU", "SA", "Saudi Arabia", "Asia", "Western Asia", 1070, 37, 250, 60, 99],
+  ["TUR", "TR", "Türkiye", "Asia", "Western Asia", 1100, 85, 25, 45, 86],
+  ["JPN", "JP", "Japan", "Asia", "Eastern Asia", 4200, 124, 145, 190, 87],
+  ["CHN", "CN", "China", "Asia", "Eastern Asia", 17800, 1410, 65, 190, 77],
+  ["KOR", "KR", "Republic of Korea", "Asia", "Eastern Asia", 1710, 51.7, 110, 170, 97],
+  ["HKG", "HK", "Hong Kong", "Asia", "Eastern Asia", 380, 7.5, 1000, 260, 95],
+  ["SGP", "SG", "Singapore", "Asia", "South-eastern Asia", 500, 5.9, 120, 125, 96],
+  ["IDN", "ID", "Indonesia", "Asia", "South-eastern Asia", 1370, 278, 45, 33, 69],
+  ["IND", "IN", "India", "Asia", "Southern Asia", 3550, 1430, 110, 55, 46],
+  ["AUS", "AU", "Australia", "Oceania", "Australia and New Zealand", 1720, 26.6, 90, 140, 96],
+];
+
+export const SYNTHETIC_YEARS = [2023, 2024];
+
+/** The synthetic countries and indicators as computeExposure inputs (no geometry). */
+export function syntheticInputs(): ExposureInputs {
+  const countries: IsoCountry[] = ROWS.map(([iso3, alpha2, name, region, subRegion]) => ({
+    iso3,
+    alpha2,
+    name,
+    region,
+    subRegion,
+    intermediateRegion: null,
+  }));
+  // 2024 is the table; 2023 is 4% lower in GDP and 1% lower in population everywhere.
+  const series = (value: (row: (typeof ROWS)[number], year: number) => number): IndicatorSeries =>
+    Object.fromEntries(ROWS.map((row) => [row[0], SYNTHETIC_YEARS.map((year) => ({ year, value: value(row, year) }))]));
+  const gdp = (row: (typeof ROWS)[number], year: number) => row[5] * 1e9 * (year === 2024 ? 1 : 0.96);
+  const pop = (row: (typeof ROWS)[number], year: number) => row[6] * 1e6 * (year === 2024 ? 1 : 0.99);
+  return {
+    countries,
+    indicators: {
+      gdp: series(gdp),
+      pop: series(pop),
+      gdppc: series((row, year) => Math.round(gdp(row, year) / pop(row, year))),
+      mcap: series((row) => row[7]),
+      credit: series((row) => row[8]),
+      net: series((row) => row[9]),
+    },
+    geo: { features: [] },
+    geoMatch: {
+      featureIso3: [],
+      diagnostics: {
+        features: 0,
+        matched: { iso3: 0, iso2: 0, name: 0 },
+        unmatchedFeatures: [],
+        duplicateFeatures: [],
+        missingGeometry: [],
+      },
+    },
+    degraded: [],
+  };
+}
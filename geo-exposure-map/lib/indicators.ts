@@ -0,0 +1,221 @@
+// Registry of the indicators behind the allocation score. Each entry says where its series
+// comes from, how a value becomes a score multiplier and what stands in for a missing
+// value; loading, imputation, scoring, the hover waterfall, the scenario sliders and the
+// method text all read this list. To add an indicator, add an entry. Every series comes
+// through the data provider, so snapshots record and replay it with the rest of the inputs.
+
+import type { FactorConfig, ModelConfig } from "./model-config";
+
+export type IndicatorSource = { kind: "worldBank"; code: string }; // fetched through the data provider, e.g. NY.GDP.MKTP.CD
+
+// How a clamped value x becomes the factor's base, before the exponent:
+//   linear  offset + x / divisor
+//   log     offset + log10(1 + x) / divisor   (for counts spanning orders of magnitude)
+export type IndicatorTransform = "linear" | "log";
+
+// What a country without a value gets: the median of its segment (then the config's
+// fallbackMedian when the segment has no values at all), the median over every mapped
+// country, or no adjustment (multiplier 1).
+export type Imputation = "segmentMedian" | "globalMedian" | "neutral";
+
+// The scoring factors' names: the keys under a model config's `factors`, in registry order.
+// A new factor entry adds its name here as well, so a misspelled factor name in code or in a
+// typed config fails the type-check.
+export const FACTOR_NAMES = ["mcap", "credit", "wealth", "internet"] as const;
+export type FactorName = (typeof FACTOR_NAMES)[number];
+
+export type ScoringFactor = {
+  name: FactorName; // key under the model config's `factors`
+  label: string; // waterfall step, e.g. "Market cap"
+  symbol: string; // variable in the method formula, e.g. "mcap%"
+  transform: IndicatorTransform;
+  defaults: FactorConfig; // used when a model config leaves the factor out
+  imputation: Imputation;
+  weight: number; // scales the exponent; 0 keeps the series on display without scoring it
+};
+
+export type IndicatorDefinition = {
+  key: string; // series key in ExposureInputs.indicators and in attribution inputs
+  source: IndicatorSource;
+  label: string; // full name, e.g. "GDP per capita (current US$)"
+  shortLabel: string; // hover panel and slider label
+  unit: "usd" | "pct" | "count";
+  role: "base" | "factor" | "display"; // base: GDP ^ gdpExponent; display: shown, never scored
+  required?: boolean; // the model cannot run without it; any other indicator degrades
+  factor?: ScoringFactor; // set exactly when role is "factor"
+};
+
+// GDP is required; any other indicator that cannot be loaded degrades the model instead of
+// failing it: its factor is dropped (multiplier 1 everywhere), and population only feeds
+// display fields.
+export const INDICATORS: IndicatorDefinition[] = [
+  {
+    key: "gdp",
+    source: { kind: "worldBank", code: "NY.GDP.MKTP.CD" },
+    label: "GDP (current US$)",
+    shortLabel: "GDP",
+    unit: "usd",
+    role: "base",
+    required: true,
+  },
+  {
+    key: "mcap",
+    source: { kind: "worldBank", code: "CM.MKT.LCAP.GD.ZS" },
+    label: "Market cap % GDP",
+    shortLabel: "Market cap % GDP",
+    unit: "pct",
+    role: "factor",
+    factor: {
+      name: "mcap",
+      label: "Market cap",
+      symbol: "mcap%",
+      transform: "linear",
+      defaults: { offset: 1, divisor: 100, clamp: [0, 400], exponent: 0.9, fallbackMedian: 30 },
+      imputation: "segmentMedian",
+      weight: 1,
+    },
+  },
+  {
+    key: "credit",
+    source: { kind: "worldBank", code: "FS.AST.PRVT.GD.ZS" },
+    label: "Private credit % GDP",
+    shortLabel: "Private credit % GDP",
+    unit: "pct",
+    role: "factor",
+    factor: {
+      name: "credit",
+      label: "Private credit",
+      symbol: "credit%",
+      transform: "linear",
+      defaults: { offset: 1, divisor: 100, clamp: [0, 300], exponent: 0.6, fallbackMedian: 50 },
+      imputation: "segmentMedian",
+      weight: 1,
+    },
+  },
+  {
+    key: "gdppc",
+    source: { kind: "worldBank", code: "NY.GDP.PCAP.CD" },
+    label: "GDP per capita (current US$)",
+    shortLabel: "GDP per capita",
+    unit: "usd",
+    role: "factor",
+    factor: {
+      name: "wealth",
+      label: "GDP per capita",
+      symbol: "gdppc",
+      transform: "linear",
+      defaults: { offset: 1, divisor: 50000, clamp: [0, 80000], exponent: 0.35, fallbackMedian: 8000 },
+      imputation: "segmentMedian",
+      weight: 1,
+    },
+  },
+  {
+    key: "net",
+    source: { kind: "worldBank", code: "IT.NET.USER.ZS" },
+    label: "Internet users % population",
+    shortLabel: "Internet users %",
+    unit: "pct",
+    role: "factor",
+    factor: {
+      name: "internet",
+      label: "Internet use",
+      symbol: "internet%",
+      transform: "linear",
+      defaults: { offset: 0.2, divisor: 100, clamp: [0, 100], exponent: 0.25, fallbackMedian: 55 },
+      imputation: "segmentMedian",
+      weight: 1,
+    },
+  },
+  {
+    key: "pop",
+    source: { kind: "worldBank", code: "SP.POP.TOTL" },
+    label: "Population",
+    shortLabel: "Population",
+    unit: "count",
+    role: "display",
+  },
+];
+
+export type ScoringIndicator = IndicatorDefinition & { factor: ScoringFactor };
+
+/** Indicators that multiply into the score, in registry order. */
+export const SCORING_INDICATORS: ScoringIndicator[] = INDICATORS.filter(
+  (d): d is ScoringIndicator => d.role === "factor" && d.factor != null,
+);
+
+export const BASE_INDICATOR = INDICATORS.find((d) => d.role === "base") as IndicatorDefinition;
+
+// Attribution keys the score's other terms by these names.
+const RESERVED_FACTORS = ["gdp", "hub", "office", "nearZero"];
+
+// Registry mistakes are programming errors, so they fail at import time.
+function checkRegistry(defs: IndicatorDefinition[]) {
+  const problems: string[] = [];
+  const keys = defs.map((d) => d.key);
+  const factors = defs.flatMap((d) => (d.factor ? [d.factor.name] : []));
+  for (const k of new Set(keys)) if (keys.indexOf(k) !== keys.lastIndexOf(k)) problems.push(`duplicate key ${k}`);
+  for (const f of new Set(factors)) if (factors.indexOf(f) !== factors.lastIndexOf(f)) problems.push(`duplicate factor ${f}`);
+  if (defs.filter((d) => d.role === "base").length !== 1) problems.push("expected exactly one base indicator");
+  for (const d of defs) {
+    if ((d.role === "factor") !== (d.factor != null)) problems.push(`${d.key}: a factor definition goes with role "factor"`);
+    if (d.role === "base" && !d.required) problems.push(`${d.key}: the base indicator must be required`);
+    if (d.factor && !(d.factor.weight >= 0)) problems.push(`${d.key}: weight must be >= 0`);
+    if (d.factor && RESERVED_FACTORS.includes(d.factor.name)) problems.push(`${d.key}: factor name ${d.factor.name} is reserved`);
+  }
+  if (factors.join() !== FACTOR_NAMES.join()) {
+    problems.push(`factor names ${factors.join(", ")} do not match FACTOR_NAMES ${FACTOR_NAMES.join(", ")}`);
+  }
+  if (problems.length) throw new Error(`indicator registry:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+}
+checkRegistry(INDICATORS);
+
+/** The factor multiplier for value `x`: (transform of the clamped value) ^ (exponent × weight). */
+export function factorMultiplier(def: ScoringFactor, f: FactorConfig, x: number) {
+  const v = Math.max(f.clamp[0], Math.min(f.clamp[1], x));
+  const scaled = def.transform === "log" ? Math.log10(1 + Math.max(0, v)) : v;
+  return Math.pow(f.offset + scaled / f.divisor, f.exponent * def.weight);
+}
+
+const compact = (v: number) =>
+  Math.abs(v) >= 1000 ? new Intl.NumberFormat("en-US", { notation: "compact" }).format(v).toLowerCase() : String(v);
+
+/**
+ * The score formula's terms under `config`, for the method text: the GDP term, then one
+ * term per scoring indicator with its effective exponent.
+ */
+export function scoreTerms(config: ModelConfig): Array<{ key: string; text: string; exponent: number }> {
+  return [
+    { key: BASE_INDICATOR.key, text: BASE_INDICATOR.shortLabel, exponent: config.gdpExponent },
+    ...SCORING_INDICATORS.filter((d) => d.factor.weight > 0).map(({ key, factor }) => {
+      const f = config.factors[factor.name];
+      const x = `min(${factor.symbol}, ${compact(f.clamp[1])})`;
+      const scaled = factor.transform === "log" ? `log10(1 + ${x})` : x;
+      return { key, text: `(${f.offset} + ${scaled}/${compact(f.divisor)})`, exponent: f.exponent * factor.weight };
+    }),
+  ];
+}
+
+/** The scoring inputs in registry order, for method notes. */
+export function indicatorList(): string {
+  return [BASE_INDICATOR, ...SCORING_INDICATORS.filter((d) => d.factor.weight > 0)].map((d) => d.shortLabel).join(", ");
+}
+
+const IMPUTATION_TEXT: Record<Imputation, string> = {
+  segmentMedian: "the segment median",
+  globalMedian: "the median over all mapped countries",
+  neutral: "no adjustment",
+};
+
+/** Where each scoring input comes from, e.g. "GDP (current US$): World Bank NY.GDP.MKTP.CD". */
+export function indicatorSources(): string[] {
+  return [BASE_INDICATOR, ...SCORING_INDICATORS].map(
+    ({ label, source }) => `${label}: World Bank ${source.code}`,
+  );
+}
+
+/** How each scoring factor fills a missing value, grouped by strategy. */
+export function imputationSummary(): string {
+  const groups = new Map<Imputation, string[]>();
+  for (const d of SCORING_INDICATORS) groups.set(d.factor.imputation, [...(groups.get(d.factor.imputation) ?? []), d.shortLabel]);
+  return [...groups].map(([how, labels]) => `${labels.join(", ")}: ${IMPUTATION_TEXT[how]}`).join("; ");
+}
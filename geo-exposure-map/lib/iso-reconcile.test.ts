@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { syntheticInputs } from "./fixtures/synthetic-inputs";
+import { isoIndex, normalizeName, reconcileGeometry, resolveFeature } from "./iso-reconcile";
+
+const { countries } = syntheticInputs();
+const index = isoIndex(countries);
+const feature = (properties: Record<string, unknown>) => ({ properties });
+
+describe("resolveFeature", () => {
+  it("tries ISO3 codes first, then ADM0_A3 when the ISO3 is -99", () => {
+    assert.deepEqual(resolveFeature(feature({ ISO_A3: "DEU", name: "France" }), index), { iso3: "DEU", rule: "iso3" });
+    assert.deepEqual(resolveFeature(feature({ ISO_A3: "-99", ADM0_A3: "FRA" }), index), { iso3: "FRA", rule: "iso3" });
+  });
+
+  it("falls back to ISO2 codes before names", () => {
+    assert.deepEqual(resolveFeature(feature({ ISO_A3: "-99", ISO_A2: "es", name: "Italy" }), index), { iso3: "ESP", rule: "iso2" });
+  });
+
+  it("matches names through the alias table", () => {
+    assert.deepEqual(resolveFeature(feature({ ISO_A3: "-99", ISO_A2: "-99", NAME: "Turkey" }), index), { iso3: "TUR", rule: "name" });
+  });
+
+  it("ignores aliases for countries outside the ISO list", () => {
+    assert.equal(index.byName("UK"), "GBR");
+    assert.equal(index.byName("Taiwan"), null);
+    assert.equal(normalizeName("Côte d'Ivoire"), "COTE D IVOIRE");
+  });
+});
+
+describe("reconcileGeometry", () => {
+  const { featureIso3, diagnostics } = reconcileGeometry(
+    [
+      feature({ ISO_A3: "USA", name: "United States of America" }),
+      feature({ ISO_A3: "-99", ADM0_A3: "FRA", name: "France" }),
+      feature({ ISO_A3: "-99", ISO_A2: "SE", name: "Sweden" }),
+      feature({ ISO_A3: "-99", ISO_A2: "-99", name: "Britain" }),
+      feature({ ISO_A3: "USA", name: "Alaska" }),
+      feature({ ISO_A3: "-99", name: "Atlantis" }),
+      feature({}),
+    ],
+    countries,
+  );
+
+  it("resolves each feature in order", () => {
+    assert.deepEqual(featureIso3, ["USA", "FRA", "SWE", "GBR", "USA", null, null]);
+    assert.deepEqual(diagnostics.matched, { iso3: 3, iso2: 1, name: 1 });
+    assert.equal(diagnostics.features, 7);
+  });
+
+  it("lists unmatched features with the codes they carried", () => {
+    assert.deepEqual(diagnostics.unmatchedFeatures, [
+      { index: 5, name: "Atlantis", codes: ["-99"] },
+      { index: 6, name: null, codes: [] },
+    ]);
+  });
+
+  it("lists countries drawn by several features and countries without one", () => {
+    assert.deepEqual(diagnostics.duplicateFeatures, [{ iso3: "USA", indexes: [0, 4] }]);
+    assert.equal(diagnostics.missingGeometry.length, countries.length - 4);
+    assert.ok(!diagnostics.missingGeometry.some((c) => ["USA", "FRA", "SWE", "GBR"].includes(c.iso3)));
+    assert.deepEqual(diagnostics.missingGeometry[0], { iso3: "CAN", name: "Canada" });
+  });
+});
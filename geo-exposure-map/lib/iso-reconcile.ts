@@ -0,0 +1,181 @@
+// Reconciles map geometry with the ISO country universe. Feature properties vary between
+// GeoJSON sources, and Natural Earth-derived files use "-99" instead of a code for France,
+// Norway, Kosovo, Northern Cyprus and others, so each feature is resolved by ISO3, then
+// ISO2, then a normalized name (ISO names plus an alias table). What cannot be resolved is
+// reported rather than silently drawn as zero.
+
+import type { IsoCountry } from "./exposure-core";
+
+export type FeatureMatchRule = "iso3" | "iso2" | "name";
+
+export type GeoDiagnostics = {
+  features: number;
+  matched: Record<FeatureMatchRule, number>;
+  unmatchedFeatures: Array<{ index: number; name: string | null; codes: string[] }>;
+  duplicateFeatures: Array<{ iso3: string; indexes: number[] }>; // several features resolved to one country
+  missingGeometry: Array<{ iso3: string; name: string }>; // ISO countries no feature resolved to
+};
+
+export type GeoReconciliation = {
+  featureIso3: Array<string | null>; // parallel to the FeatureCollection's features
+  diagnostics: GeoDiagnostics;
+};
+
+type FeatureLike = { properties?: Record<string, unknown> | null };
+
+const ISO3_KEYS = ["ISO3166-1-Alpha-3", "ISO_A3", "iso_a3", "ADM0_A3", "adm0_a3", "id"];
+const ISO2_KEYS = ["ISO3166-1-Alpha-2", "ISO_A2", "iso_a2"];
+const NAME_KEYS = ["name", "NAME", "ADMIN", "NAME_LONG", "name_long"];
+
+// Common names (map sources, abbreviations, search input) that differ from the ISO
+// dataset's official names. Keys are normalized with normalizeName.
+export const NAME_ALIASES: Record<string, string> = {
+  "UNITED KINGDOM": "GBR",
+  "GREAT BRITAIN": "GBR",
+  BRITAIN: "GBR",
+  UK: "GBR",
+  "U K": "GBR",
+  "UNITED STATES": "USA",
+  "UNITED STATES OF AMERICA": "USA",
+  USA: "USA",
+  US: "USA",
+  "U S": "USA",
+  "UNITED ARAB EMIRATES": "ARE",
+  UAE: "ARE",
+  KSA: "SAU",
+  NORVEGE: "NOR",
+  RUSSIA: "RUS",
+  "SOUTH KOREA": "KOR",
+  KOREA: "KOR",
+  "NORTH KOREA": "PRK",
+  IRAN: "IRN",
+  SYRIA: "SYR",
+  LAOS: "LAO",
+  VIETNAM: "VNM",
+  BOLIVIA: "BOL",
+  VENEZUELA: "VEN",
+  TANZANIA: "TZA",
+  "UNITED REPUBLIC OF TANZANIA": "TZA",
+  MOLDOVA: "MDA",
+  "CZECH REPUBLIC": "CZE",
+  "IVORY COAST": "CIV",
+  "DEMOCRATIC REPUBLIC OF THE CONGO": "COD",
+  "DR CONGO": "COD",
+  "REPUBLIC OF THE CONGO": "COG",
+  CONGO: "COG",
+  TAIWAN: "TWN",
+  TURKEY: "TUR",
+  SWAZILAND: "SWZ",
+  ESWATINI: "SWZ",
+  "REPUBLIC OF SERBIA": "SRB",
+  MACEDONIA: "MKD",
+  "NORTH MACEDONIA": "MKD",
+  "THE BAHAMAS": "BHS",
+  BAHAMAS: "BHS",
+  "GUINEA BISSAU": "GNB",
+  "EAST TIMOR": "TLS",
+  "CAPE VERDE": "CPV",
+  BRUNEI: "BRN",
+  "FALKLAND ISLANDS": "FLK",
+  PALESTINE: "PSE",
+  "FEDERATED STATES OF MICRONESIA": "FSM",
+  MICRONESIA: "FSM",
+  "HONG KONG": "HKG",
+  MACAO: "MAC",
+  MACAU: "MAC",
+  "VATICAN CITY": "VAT",
+  "WESTERN SAHARA": "ESH",
+  "FRENCH SOUTHERN AND ANTARCTIC LANDS": "ATF",
+  NETHERLANDS: "NLD",
+  "THE NETHERLANDS": "NLD",
+  GAMBIA: "GMB",
+  "THE GAMBIA": "GMB",
+};
+
+/** Upper-case, accent-free, punctuation collapsed to single spaces: "Côte d'Ivoire" -> "COTE D IVOIRE". */
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+const firstString = (props: Record<string, unknown>, keys: string[]) => {
+  for (const k of keys) {
+    const v = props[k];
+    if (typeof v === "string" && v.trim()) return v.trim();
+  }
+  return null;
+};
+
+/** Lookup tables over the ISO universe, built once and reused for every feature. */
+export function isoIndex(countries: Pick<IsoCountry, "iso3" | "alpha2" | "name">[]) {
+  const iso3 = new Set(countries.map((c) => c.iso3));
+  const byAlpha2 = new Map<string, string>();
+  const byName = new Map<string, string>();
+  for (const c of countries) {
+    if (c.alpha2) byAlpha2.set(c.alpha2, c.iso3);
+    byName.set(normalizeName(c.name), c.iso3);
+  }
+  for (const [alias, code] of Object.entries(NAME_ALIASES)) if (iso3.has(code)) byName.set(alias, code);
+  return {
+    iso3,
+    /** ISO3 for a country name or alias, e.g. "UK" or "Côte d'Ivoire"; null when unknown. */
+    byName: (name: string) => byName.get(normalizeName(name)) ?? null,
+    byAlpha2: (code: string) => byAlpha2.get(code.toUpperCase()) ?? null,
+  };
+}
+
+export type IsoIndex = ReturnType<typeof isoIndex>;
+
+/** Resolves one feature: a known ISO3 code, then a known ISO2 code, then its name. */
+export function resolveFeature(feature: FeatureLike, index: IsoIndex): { iso3: string; rule: FeatureMatchRule } | null {
+  const props = feature.properties ?? {};
+  for (const k of ISO3_KEYS) {
+    const v = props[k];
+    if (typeof v === "string" && index.iso3.has(v.trim().toUpperCase())) return { iso3: v.trim().toUpperCase(), rule: "iso3" };
+  }
+  for (const k of ISO2_KEYS) {
+    const v = props[k];
+    const iso3 = typeof v === "string" ? index.byAlpha2(v.trim()) : null;
+    if (iso3) return { iso3, rule: "iso2" };
+  }
+  for (const k of NAME_KEYS) {
+    const v = props[k];
+    const iso3 = typeof v === "string" ? index.byName(v) : null;
+    if (iso3) return { iso3, rule: "name" };
+  }
+  return null;
+}
+
+/** Resolves every feature and reports what did not line up in either direction. */
+export function reconcileGeometry(features: FeatureLike[], countries: IsoCountry[]): GeoReconciliation {
+  const index = isoIndex(countries);
+  const matched: GeoDiagnostics["matched"] = { iso3: 0, iso2: 0, name: 0 };
+  const unmatchedFeatures: GeoDiagnostics["unmatchedFeatures"] = [];
+  const seen = new Map<string, number[]>();
+  const featureIso3 = features.map((f, i) => {
+    const hit = resolveFeature(f, index);
+    if (!hit) {
+      const props = f.properties ?? {};
+      const codes = [...ISO3_KEYS, ...ISO2_KEYS].map((k) => props[k]).filter((v): v is string => typeof v === "string");
+      unmatchedFeatures.push({ index: i, name: firstString(props, NAME_KEYS), codes });
+      return null;
+    }
+    matched[hit.rule]++;
+    seen.set(hit.iso3, [...(seen.get(hit.iso3) ?? []), i]);
+    return hit.iso3;
+  });
+  return {
+    featureIso3,
+    diagnostics: {
+      features: features.length,
+      matched,
+      unmatchedFeatures,
+      duplicateFeatures: [...seen].filter(([, ix]) => ix.length > 1).map(([iso3, indexes]) => ({ iso3, indexes })),
+      missingGeometry: countries.filter((c) => !seen.has(c.iso3)).map((c) => ({ iso3: c.iso3, name: c.name })),
+    },
+  };
+}
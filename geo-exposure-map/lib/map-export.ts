@@ -0,0 +1,158 @@
+// Standalone map images for decks: wraps the rendered choropleth markup with a title,
+// legend and method note, and rasterizes it to PNG in the browser (no server round-trip,
+// so it works on the static export).
+
+export type MapLegend = {
+  stops: string[]; // gradient colors, low -> high
+  ticks: Array<{ position: number; label: string }>; // break labels along the gradient, position 0..1
+  caption: string;
+  categories?: Array<{ label: string; color: string }>; // replaces the gradient when set (segments, classes)
+};
+
+export type MapImageOptions = {
+  mapMarkup: string; // inner markup of the map <svg> (exportableMapMarkup), drawn in mapWidth x mapHeight user units
+  mapWidth: number;
+  mapHeight: number;
+  mapViewBox?: string; // current zoom; defaults to the full map
+  title: string;
+  subtitle?: string;
+  legend: MapLegend;
+  note: string;
+};
+
+export type MapImage = { svg: string; width: number; height: number };
+
+const FONT = "Helvetica, Arial, sans-serif";
+const PAD = 24;
+const NOTE_LINE = 14;
+
+const esc = (s: string) =>
+  s.replace(/[<>&"]/g, (ch) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[ch] ?? ch);
+
+// SVG has no text wrapping; break on spaces at a rough character budget for 11px text.
+function wrap(text: string, maxChars: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function gradientLegend(legend: MapLegend, top: number, width: number) {
+  const anchor = (p: number) => (p <= 0 ? "start" : p >= 1 ? "end" : "middle");
+  return [
+    `<rect x="${PAD}" y="${top + 8}" width="${width}" height="8" rx="4" fill="url(#legend-ramp)"/>`,
+    ...legend.ticks.map(
+      (t) =>
+        `<text x="${PAD + t.position * width}" y="${top + 28}" font-size="10" text-anchor="${anchor(t.position)}" fill="#94a3b8">${esc(t.label)}</text>`,
+    ),
+  ];
+}
+
+// Swatches in rows; long class labels wrap onto a second row.
+function categoryLegend(categories: NonNullable<MapLegend["categories"]>, top: number, width: number) {
+  let x = PAD;
+  return categories.map(({ label, color }) => {
+    const advance = 24 + label.length * 5.6;
+    if (x > PAD && x + advance > PAD + width) {
+      x = PAD;
+      top += 14;
+    }
+    const item =
+      `<rect x="${x}" y="${top}" width="10" height="10" rx="2" fill="${color}"/>` +
+      `<text x="${x + 14}" y="${top + 9}" font-size="10" fill="#e0f2fe">${esc(label)}</text>`;
+    x += advance;
+    return item;
+  });
+}
+
+// Attributes that only matter on the live page: focus order, ARIA, Tailwind classes and
+// inline styles (transitions, cursors).
+const LIVE_ATTRIBUTES = new Set(["tabindex", "role", "class", "style", "focusable"]);
+
+/**
+ * The inner markup of the rendered map <svg>, from a clone stripped of interaction state:
+ * elements marked `data-export="skip"` (the keyboard focus ring) are dropped, and so are
+ * the attributes above and every aria-* attribute.
+ */
+export function exportableMapMarkup(map: SVGSVGElement): string {
+  const clone = map.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('[data-export="skip"]').forEach((el) => el.remove());
+  for (const el of [clone, ...clone.querySelectorAll("*")]) {
+    for (const name of el.getAttributeNames()) {
+      if (LIVE_ATTRIBUTES.has(name) || name.startsWith("aria-")) el.removeAttribute(name);
+    }
+  }
+  return clone.innerHTML;
+}
+
+/** Builds a self-contained SVG document (map, title, legend, note) sized for slides. */
+export function standaloneMapSvg(o: MapImageOptions): MapImage {
+  const width = o.mapWidth + PAD * 2;
+  const headerHeight = o.subtitle ? 62 : 44;
+  const legendTop = headerHeight + o.mapHeight + 16;
+  const noteLines = wrap(o.note, Math.floor((width - PAD * 2) / 5.6));
+  const noteTop = legendTop + 44;
+  const height = noteTop + noteLines.length * NOTE_LINE + PAD;
+  const stops = o.legend.stops
+    .map((c, i) => `<stop offset="${(i / Math.max(1, o.legend.stops.length - 1)) * 100}%" stop-color="${c}"/>`)
+    .join("");
+  const legendWidth = Math.min(560, o.mapWidth);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`,
+    `<defs><linearGradient id="legend-ramp" x1="0" x2="1" y1="0" y2="0">${stops}</linearGradient></defs>`,
+    `<rect width="${width}" height="${height}" fill="#05090d"/>`,
+    `<text x="${PAD}" y="${PAD + 14}" font-size="18" font-weight="600" fill="#ffffff">${esc(o.title)}</text>`,
+    o.subtitle ? `<text x="${PAD}" y="${PAD + 34}" font-size="12" fill="#bae6fd">${esc(o.subtitle)}</text>` : "",
+    `<svg x="${PAD}" y="${headerHeight}" width="${o.mapWidth}" height="${o.mapHeight}" viewBox="${o.mapViewBox ?? `0 0 ${o.mapWidth} ${o.mapHeight}`}">${o.mapMarkup}</svg>`,
+    `<text x="${PAD}" y="${legendTop}" font-size="11" fill="#e0f2fe">${esc(o.legend.caption)}</text>`,
+    ...(o.legend.categories ? categoryLegend(o.legend.categories, legendTop + 12, o.mapWidth) : gradientLegend(o.legend, legendTop, legendWidth)),
+    ...noteLines.map(
+      (line, i) => `<text x="${PAD}" y="${noteTop + i * NOTE_LINE}" font-size="11" fill="#bae6fd">${esc(line)}</text>`,
+    ),
+    "</svg>",
+  ].join("");
+  return { svg, width, height };
+}
+
+/** Rasterizes an SVG document via an offscreen canvas; `scale` 2 gives crisp slides. */
+export async function svgToPngBlob({ svg, width, height }: MapImage, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.decoding = "async";
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("canvas 2d context unavailable");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png"),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Saves a Blob through a temporary object-URL link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { nearestInDirection, neighborInDirection } from "./map-view";
+
+const at = (iso3: string, x: number, y: number) => ({ iso3, point: [x, y] as [number, number] });
+
+describe("neighborInDirection", () => {
+  const neighbors = [at("N", 10, -100), at("E", 100, 30), at("SE", 50, 60), at("W", -80, 0)];
+
+  it("picks the neighbor closest to the arrow's direction, however far away", () => {
+    assert.equal(neighborInDirection([0, 0], neighbors, "right")?.iso3, "E");
+    assert.equal(neighborInDirection([0, 0], neighbors, "down")?.iso3, "SE");
+    assert.equal(neighborInDirection([0, 0], neighbors, "up")?.iso3, "N");
+    assert.equal(neighborInDirection([0, 0], neighbors, "left")?.iso3, "W");
+  });
+
+  it("returns null when no neighbor lies within 90° of the arrow", () => {
+    assert.equal(neighborInDirection([0, 0], [at("E", 100, 0)], "left"), null);
+    assert.equal(neighborInDirection([0, 0], [at("X", Number.NaN, Number.NaN)], "right"), null);
+  });
+});
+
+describe("nearestInDirection", () => {
+  it("prefers the candidate straight ahead and skips those far off-axis", () => {
+    const candidates = [at("A", 40, 35), at("B", 60, 0), at("C", 10, 40)];
+    assert.equal(nearestInDirection([0, 0], candidates, "right")?.iso3, "B");
+    assert.equal(nearestInDirection([0, 0], [at("C", 10, 40)], "right"), null);
+  });
+});
@@ -0,0 +1,161 @@
+// Projections and the zoomable view for the country map. Every projection draws into the
+// same MAP_WIDTH × MAP_HEIGHT plane; the view is a viewBox window onto that plane, so
+// zoom and pan never re-project the geometry (only projection changes and globe rotation do).
+
+import {
+  geoEqualEarth,
+  geoMercator,
+  geoNaturalEarth1,
+  geoOrthographic,
+  type GeoPermissibleObjects,
+  type GeoProjection,
+} from "d3-geo";
+
+export const MAP_WIDTH = 820;
+export const MAP_HEIGHT = 450;
+export const MAX_ZOOM = 40;
+
+export type ProjectionId = "naturalEarth" | "equalEarth" | "mercator" | "orthographic";
+
+export const PROJECTIONS: Array<{ id: ProjectionId; label: string; rotatable?: boolean }> = [
+  { id: "naturalEarth", label: "Natural Earth" },
+  { id: "equalEarth", label: "Equal Earth" },
+  { id: "mercator", label: "Mercator (regional)" },
+  { id: "orthographic", label: "Globe", rotatable: true },
+];
+
+/** Globe centre as [longitude, latitude]; only the orthographic projection uses it. */
+export type Rotation = [number, number];
+
+export type MapView = { x: number; y: number; w: number; h: number };
+
+export const FULL_VIEW: MapView = { x: 0, y: 0, w: MAP_WIDTH, h: MAP_HEIGHT };
+
+const SPHERE: GeoPermissibleObjects = { type: "Sphere" };
+
+export function makeProjection(id: ProjectionId, rotation: Rotation = [0, 0]): GeoProjection {
+  switch (id) {
+    case "equalEarth":
+      return geoEqualEarth().fitExtent([[10, 10], [MAP_WIDTH - 10, MAP_HEIGHT - 10]], SPHERE);
+    case "mercator":
+      // Mercator is unbounded at the poles: fit the width and crop to roughly 60°S–77°N.
+      return geoMercator()
+        .scale(MAP_WIDTH / (2 * Math.PI))
+        .translate([MAP_WIDTH / 2, MAP_HEIGHT * 0.62]);
+    case "orthographic":
+      return geoOrthographic()
+        .rotate([-rotation[0], -rotation[1]])
+        .clipAngle(90)
+        .scale(MAP_HEIGHT / 2 - 8)
+        .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2]);
+    default:
+      return geoNaturalEarth1().scale(150).translate([425, 235]);
+  }
+}
+
+export const zoomOf = (view: MapView) => MAP_WIDTH / view.w;
+
+/** Keeps the view inside the map and between 1× and MAX_ZOOM, at the map's aspect ratio. */
+export function clampView({ x, y, w }: MapView): MapView {
+  const cw = Math.min(MAP_WIDTH, Math.max(MAP_WIDTH / MAX_ZOOM, w));
+  const ch = (cw * MAP_HEIGHT) / MAP_WIDTH;
+  return {
+    x: Math.min(MAP_WIDTH - cw, Math.max(0, x)),
+    y: Math.min(MAP_HEIGHT - ch, Math.max(0, y)),
+    w: cw,
+    h: ch,
+  };
+}
+
+/** Zooms by `factor` (>1 zooms in) keeping the map point `anchor` under the pointer. */
+export function zoomView(view: MapView, factor: number, [ax, ay]: [number, number]): MapView {
+  const w = Math.min(MAP_WIDTH, Math.max(MAP_WIDTH / MAX_ZOOM, view.w / factor));
+  const r = w / view.w;
+  return clampView({ x: ax - (ax - view.x) * r, y: ay - (ay - view.y) * r, w, h: view.h * r });
+}
+
+export const panView = (view: MapView, dx: number, dy: number) => clampView({ ...view, x: view.x - dx, y: view.y - dy });
+
+/** The view that fits projected bounds [[x0, y0], [x1, y1]] with some padding; the full map when empty. */
+export function fitView([[x0, y0], [x1, y1]]: [[number, number], [number, number]]): MapView {
+  if (![x0, y0, x1, y1].every(Number.isFinite) || x1 < x0 || y1 < y0) return FULL_VIEW;
+  // Pad, then widen the short side so the map keeps its aspect ratio.
+  let w = Math.max((x1 - x0) * 1.08, 1);
+  let h = Math.max((y1 - y0) * 1.08, 1);
+  if (w / h > MAP_WIDTH / MAP_HEIGHT) h = (w * MAP_HEIGHT) / MAP_WIDTH;
+  else w = (h * MAP_WIDTH) / MAP_HEIGHT;
+  // Centre first, then clamp; clamping may enlarge a tiny country's box to MAX_ZOOM.
+  const cw = Math.max(w, MAP_WIDTH / MAX_ZOOM);
+  const ch = (cw * MAP_HEIGHT) / MAP_WIDTH;
+  return clampView({ x: (x0 + x1 - cw) / 2, y: (y0 + y1 - ch) / 2, w: cw, h: ch });
+}
+
+/** Centres the view on a map point, keeping the zoom. */
+export const centerView = (view: MapView, [x, y]: [number, number]) =>
+  clampView({ ...view, x: x - view.w / 2, y: y - view.h / 2 });
+
+/** The view at `zoom` centred on a map point (shared links store the view this way). */
+export const viewAt = (center: [number, number], zoom: number) =>
+  centerView({ x: 0, y: 0, w: MAP_WIDTH / zoom, h: MAP_HEIGHT / zoom }, center);
+
+export const viewCenter = (view: MapView): [number, number] => [view.x + view.w / 2, view.y + view.h / 2];
+
+export type ArrowDirection = "left" | "right" | "up" | "down";
+
+const ARROWS: Record<ArrowDirection, [number, number]> = { left: [-1, 0], right: [1, 0], up: [0, -1], down: [0, 1] };
+// Candidates more than 60° off the arrow's direction are not "that way".
+const MAX_SKEW = Math.tan(Math.PI / 3);
+
+/**
+ * Keyboard navigation between bordering countries: the neighbor whose projected centroid
+ * lies closest to an arrow's direction from `from`, if any lies within 90° of it.
+ */
+export function neighborInDirection<T extends { point: [number, number] }>(
+  from: [number, number],
+  neighbors: T[],
+  direction: ArrowDirection,
+): T | null {
+  const [ux, uy] = ARROWS[direction];
+  let best: T | null = null;
+  let bestAngle = Math.PI / 2;
+  for (const n of neighbors) {
+    const dx = n.point[0] - from[0];
+    const dy = n.point[1] - from[1];
+    // NaN (a centroid clipped away on the globe) never compares smaller.
+    const angle = Math.atan2(Math.abs(dx * uy - dy * ux), dx * ux + dy * uy);
+    if (angle < bestAngle) {
+      best = n;
+      bestAngle = angle;
+    }
+  }
+  return best;
+}
+
+/**
+ * The fallback for countries without a bordering country that way (islands): the
+ * candidate nearest to `from` in an arrow's direction, by projected centroid. Off-axis
+ * candidates count as farther away; null when nothing lies that way.
+ */
+export function nearestInDirection<T extends { point: [number, number] }>(
+  from: [number, number],
+  candidates: T[],
+  direction: ArrowDirection,
+): T | null {
+  const [ux, uy] = ARROWS[direction];
+  let best: T | null = null;
+  let bestScore = Infinity;
+  for (const c of candidates) {
+    const dx = c.point[0] - from[0];
+    const dy = c.point[1] - from[1];
+    const along = dx * ux + dy * uy;
+    const across = Math.abs(dx * uy - dy * ux);
+    // NaN (a centroid clipped away on the globe) fails this test too.
+    if (!(along > 0) || across > along * MAX_SKEW) continue;
+    const score = along + 2 * across;
+    if (score < bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+  return best;
+}
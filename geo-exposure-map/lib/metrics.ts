@@ -0,0 +1,122 @@
+// Map metrics derived from a year's country revenue and that year's denominators
+// (population and GDP as of the same fiscal year, from the payload's series). A metric is null where its denominator is
+// missing; the map draws those countries as "no data" rather than as zero.
+
+export type MetricId = "share" | "revenue" | "perCapita" | "perGdp" | "penetration";
+
+export type MetricDefinition = {
+  id: MetricId;
+  label: string;
+  caption: string; // legend caption
+  missing: string | null; // why a value can be null, for the hover panel
+  manualUnit: { label: string; scale: number }; // manual breaks are typed in these units
+};
+
+export const METRICS: MetricDefinition[] = [
+  {
+    id: "share",
+    label: "Share of revenue",
+    caption: "Revenue share (USD at the fiscal-year total)",
+    missing: null,
+    manualUnit: { label: "%", scale: 0.01 },
+  },
+  {
+    id: "revenue",
+    label: "Revenue (USD)",
+    caption: "Estimated revenue (USD)",
+    missing: null,
+    manualUnit: { label: "USD millions", scale: 1 },
+  },
+  {
+    id: "perCapita",
+    label: "Revenue per capita",
+    caption: "Revenue per person (USD)",
+    missing: "no population data",
+    manualUnit: { label: "USD per person", scale: 1 },
+  },
+  {
+    id: "perGdp",
+    label: "Revenue / GDP",
+    caption: "Revenue per USD 1M of GDP",
+    missing: "no GDP data",
+    manualUnit: { label: "USD per USD 1M of GDP", scale: 1e-6 },
+  },
+  {
+    id: "penetration",
+    label: "Penetration index",
+    caption: "Penetration index (share of segment revenue ÷ share of segment GDP; 1 = in line with GDP)",
+    missing: "no GDP data",
+    manualUnit: { label: "index", scale: 1 },
+  },
+];
+
+export const metricDefinition = (id: MetricId) => METRICS.find((m) => m.id === id) ?? METRICS[0];
+
+export type MetricRow = {
+  iso3: string;
+  segment: string; // "" when the country is outside every segment
+  revenueMillions: number;
+  share: number;
+  population: number | null;
+  gdpCurrentUsd: number | null;
+};
+
+const positive = (v: number | null): v is number => v != null && Number.isFinite(v) && v > 0;
+
+/** The metric for every row; null where the denominator is missing or zero. */
+export function metricValues(id: MetricId, rows: MetricRow[]): Record<string, number | null> {
+  const out: Record<string, number | null> = {};
+  if (id === "penetration") {
+    // Revenue and GDP totals per segment, over countries with GDP so both shares use the same base.
+    const revenue: Record<string, number> = {};
+    const gdp: Record<string, number> = {};
+    for (const r of rows) {
+      if (!r.segment || !positive(r.gdpCurrentUsd)) continue;
+      revenue[r.segment] = (revenue[r.segment] ?? 0) + r.revenueMillions;
+      gdp[r.segment] = (gdp[r.segment] ?? 0) + r.gdpCurrentUsd;
+    }
+    for (const r of rows) {
+      const segRevenue = revenue[r.segment];
+      out[r.iso3] =
+        r.segment && positive(r.gdpCurrentUsd) && segRevenue > 0
+          ? r.revenueMillions / segRevenue / (r.gdpCurrentUsd / gdp[r.segment])
+          : null;
+    }
+    return out;
+  }
+  for (const r of rows) {
+    out[r.iso3] =
+      id === "share"
+        ? r.share
+        : id === "revenue"
+          ? r.revenueMillions
+          : id === "perCapita"
+            ? positive(r.population)
+              ? (r.revenueMillions * 1e6) / r.population
+              : null
+            : positive(r.gdpCurrentUsd)
+              ? (r.revenueMillions * 1e6) / r.gdpCurrentUsd
+              : null;
+  }
+  return out;
+}
+
+const compact = (v: number, digits = 3) =>
+  new Intl.NumberFormat("en-US", { notation: "compact", maximumSignificantDigits: digits }).format(v);
+
+/** Display form of a metric value, "n/a" for null; `withUnit` false drops the "per ..." suffix (legends). */
+export function formatMetric(id: MetricId, v: number | null, withUnit = true): string {
+  if (v == null || !Number.isFinite(v)) return "n/a";
+  switch (id) {
+    case "share":
+      return `${Math.round(v * 10000) / 100}%`;
+    case "revenue":
+      return `$${compact(v * 1e6)}`;
+    case "perCapita":
+      return `$${v >= 1 ? compact(v) : v.toPrecision(2)}${withUnit ? " per person" : ""}`;
+    case "perGdp":
+      return `$${compact(v * 1e6)}${withUnit ? " per $1M GDP" : ""}`;
+    case "penetration":
+      return `${v.toFixed(2)}×`;
+  }
+}
@@ -0,0 +1,16 @@
+// Node-only loader for model config files (JSON or YAML).
+
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import { ModelConfigError, parseModelConfig, type ModelConfig } from "./model-config";
+
+export async function loadModelConfig(file: string): Promise<ModelConfig> {
+  const text = await readFile(file, "utf8");
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new ModelConfigError(file, [`could not parse file: ${err instanceof Error ? err.message : String(err)}`]);
+  }
+  return parseModelConfig(raw, file);
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import baseline from "../config/models/baseline.json";
+import { SCORING_INDICATORS } from "./indicators";
+import { DEFAULT_MODEL_CONFIG, hashModelConfig, ModelConfigError, parseModelConfig } from "./model-config";
+import { loadModelConfig } from "./model-config-loader";
+
+// The issues parseModelConfig reports for `raw`, or [] when it parses.
+function issuesOf(raw: unknown) {
+  try {
+    parseModelConfig(raw, "test");
+    return [];
+  } catch (e) {
+    assert.ok(e instanceof ModelConfigError);
+    return e.issues;
+  }
+}
+
+describe("parseModelConfig", () => {
+  it("accepts the baseline", () => {
+    assert.equal(DEFAULT_MODEL_CONFIG.name, "factset-baseline");
+    assert.deepEqual(Object.keys(DEFAULT_MODEL_CONFIG.factors), ["mcap", "credit", "wealth", "internet"]);
+  });
+
+  it("lists every problem at once", () => {
+    const issues = issuesOf({
+      ...baseline,
+      gdpExponent: "0.7",
+      offices: { ...baseline.offices, weights: { ZZZ: 1.2 } },
+      nearZero: undefined,
+      extra: true,
+    });
+    assert.deepEqual(issues, [
+      "extra: unknown key",
+      "offices.weights.ZZZ: not in offices.countries",
+      'gdpExponent: expected a finite number, got "0.7"',
+      "nearZero: expected an object with multiplier and countries, got nothing",
+    ]);
+  });
+
+  it("rejects misspelled factor names", () => {
+    const { mcap, ...factors } = baseline.factors;
+    assert.deepEqual(issuesOf({ ...baseline, factors: { ...factors, mcpa: mcap } }), ["factors.mcpa: unknown key"]);
+    assert.deepEqual(issuesOf({ ...baseline, uncertainty: { samples: 10, seed: 1, factorExponents: { welth: [0.2, 0.5] } } }), [
+      "uncertainty.factorExponents.welth: unknown key",
+    ]);
+  });
+
+  it("scores a factor the config leaves out with its registry defaults", () => {
+    const { internet, ...factors } = baseline.factors;
+    const config = parseModelConfig({ ...baseline, factors }, "test");
+    const defaults = SCORING_INDICATORS.find((d) => d.factor.name === "internet")!.factor.defaults;
+    assert.deepEqual(config.factors.internet, defaults);
+    assert.notEqual(config.factors.internet.clamp, defaults.clamp); // a copy, so edits stay local
+    // The baseline lists the defaults explicitly, so leaving them out changes nothing.
+    assert.deepEqual(config.factors.internet, internet);
+    assert.equal(hashModelConfig(config), hashModelConfig(DEFAULT_MODEL_CONFIG));
+  });
+});
+
+describe("loadModelConfig", () => {
+  let dir = "";
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "model-config-test-"));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("loads the YAML variant with the baseline's factors", async () => {
+    const config = await loadModelConfig("config/models/no-hub-premium.yaml");
+    assert.equal(config.name, "no-hub-premium");
+    assert.deepEqual(config.hubs, {});
+    assert.deepEqual(config.factors, DEFAULT_MODEL_CONFIG.factors);
+  });
+
+  it("reports a file that does not parse", async () => {
+    const file = path.join(dir, "broken.yaml");
+    await writeFile(file, "name: broken\nfactors: { mcap: [\n", "utf8");
+    await assert.rejects(loadModelConfig(file), (e) => e instanceof ModelConfigError && /could not parse file/.test(e.issues[0]));
+  });
+
+  it("reports validation problems with the file name", async () => {
+    const file = path.join(dir, "invalid.json");
+    await writeFile(file, JSON.stringify({ ...baseline, gdpExponent: -1 }), "utf8");
+    await assert.rejects(
+      loadModelConfig(file),
+      (e) => e instanceof ModelConfigError && e.message.includes(file) && e.issues[0] === "gdpExponent: must be >= 0, got -1",
+    );
+  });
+});
@@ -0,0 +1,200 @@
+// Allocation model parameters. Model variants live as JSON/YAML files under
+// config/models/; parseModelConfig validates them before buildExposureData runs.
+
+import baseline from "../config/models/baseline.json";
+import { FACTOR_NAMES, SCORING_INDICATORS, type FactorName } from "./indicators";
+import { checkKeys, describe, ISO3, isObj, isoList, num, obj, range, str } from "./validation";
+
+// factor = (offset + clamp(value, lo, hi) / divisor) ^ exponent
+export type FactorConfig = {
+  offset: number;
+  divisor: number;
+  clamp: [number, number];
+  exponent: number;
+  fallbackMedian: number; // used when a segment has no observed values at all
+};
+
+export type ModelConfig = {
+  name: string;
+  description?: string;
+  gdpExponent: number;
+  factors: Record<FactorName, FactorConfig>;
+  hubs: Record<string, number>; // ISO3 -> multiplier
+  offices: { multiplier: number; countries: string[]; weights?: Record<string, number> }; // weights: per-ISO3 multiplier overrides
+  nearZero: { multiplier: number; countries: string[] };
+  uncertainty?: UncertaintyConfig;
+};
+
+// Monte Carlo ranges for the uncertainty bands (see lib/uncertainty.ts). Each range is
+// sampled uniformly; omitted entries stay at their point-estimate value.
+export type UncertaintyConfig = {
+  samples: number;
+  seed: number;
+  gdpExponent?: [number, number];
+  factorExponents?: Partial<Record<FactorName, [number, number]>>;
+  clampMax?: Partial<Record<FactorName, [number, number]>>;
+  hubPremiumScale?: [number, number]; // scales each hub's premium (multiplier - 1)
+  officeMultiplier?: [number, number];
+};
+
+const MAX_SAMPLES = 5000;
+
+export class ModelConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid model config ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ModelConfigError";
+    this.issues = issues;
+  }
+}
+
+const INVALID_FACTOR: FactorConfig = { offset: NaN, divisor: NaN, clamp: [NaN, NaN], exponent: NaN, fallbackMedian: NaN };
+
+function parseFactor(v: unknown, path: string, issues: string[]): FactorConfig {
+  if (!isObj(v)) {
+    issues.push(`${path}: expected an object, got ${describe(v)}`);
+    return INVALID_FACTOR;
+  }
+  const o = v;
+  checkKeys(o, path, ["offset", "divisor", "clamp", "exponent", "fallbackMedian"], issues);
+  return {
+    offset: num(o.offset, `${path}.offset`, issues, { min: 0 }),
+    divisor: num(o.divisor, `${path}.divisor`, issues, { positive: true }),
+    clamp: range(o.clamp, `${path}.clamp`, issues),
+    exponent: num(o.exponent, `${path}.exponent`, issues, { min: 0 }),
+    fallbackMedian: num(o.fallbackMedian, `${path}.fallbackMedian`, issues),
+  };
+}
+
+function parseIsoWeights(v: unknown, path: string, issues: string[]) {
+  const weights: Record<string, number> = {};
+  for (const [iso, mult] of Object.entries(obj(v, path, issues))) {
+    if (!ISO3.test(iso)) issues.push(`${path}.${iso}: expected an ISO3 code key`);
+    weights[iso] = num(mult, `${path}.${iso}`, issues, { positive: true });
+  }
+  return weights;
+}
+
+function parseMultiplierSet(v: unknown, path: string, issues: string[], extraKeys: string[] = []) {
+  if (!isObj(v)) {
+    issues.push(`${path}: expected an object with multiplier and countries, got ${describe(v)}`);
+    return { multiplier: NaN, countries: [] };
+  }
+  const o = v;
+  checkKeys(o, path, ["multiplier", "countries", ...extraKeys], issues);
+  return {
+    multiplier: num(o.multiplier, `${path}.multiplier`, issues, { positive: true }),
+    countries: isoList(o.countries, `${path}.countries`, issues),
+  };
+}
+
+function parseFactorRanges(v: unknown, path: string, issues: string[]) {
+  const out: Partial<Record<FactorName, [number, number]>> = {};
+  const o = obj(v, path, issues);
+  checkKeys(o, path, [...FACTOR_NAMES], issues);
+  for (const name of FACTOR_NAMES) {
+    if (o[name] !== undefined) out[name] = range(o[name], `${path}.${name}`, issues, { min: 0 });
+  }
+  return out;
+}
+
+function parseUncertainty(v: unknown, path: string, issues: string[]): UncertaintyConfig {
+  const o = obj(v, path, issues);
+  const keys = ["samples", "seed", "gdpExponent", "factorExponents", "clampMax", "hubPremiumScale", "officeMultiplier"];
+  checkKeys(o, path, keys, issues);
+  const samples = num(o.samples, `${path}.samples`, issues, { integer: true, positive: true });
+  if (samples > MAX_SAMPLES) issues.push(`${path}.samples: at most ${MAX_SAMPLES}, got ${samples}`);
+  const u: UncertaintyConfig = { samples, seed: num(o.seed, `${path}.seed`, issues, { integer: true, min: 0 }) };
+  if (o.gdpExponent !== undefined) u.gdpExponent = range(o.gdpExponent, `${path}.gdpExponent`, issues, { min: 0 });
+  if (o.factorExponents !== undefined) u.factorExponents = parseFactorRanges(o.factorExponents, `${path}.factorExponents`, issues);
+  if (o.clampMax !== undefined) u.clampMax = parseFactorRanges(o.clampMax, `${path}.clampMax`, issues);
+  if (o.hubPremiumScale !== undefined) {
+    u.hubPremiumScale = range(o.hubPremiumScale, `${path}.hubPremiumScale`, issues, { min: 0 });
+  }
+  if (o.officeMultiplier !== undefined) {
+    u.officeMultiplier = range(o.officeMultiplier, `${path}.officeMultiplier`, issues, { min: 0 });
+  }
+  return u;
+}
+
+/** Validates an untyped config (parsed JSON/YAML) and returns it typed; throws ModelConfigError listing every problem. */
+export function parseModelConfig(raw: unknown, source = "<inline>"): ModelConfig {
+  const issues: string[] = [];
+  const o = obj(raw, "(root)", issues);
+  checkKeys(o, "", ["name", "description", "gdpExponent", "factors", "hubs", "offices", "nearZero", "uncertainty"], issues);
+
+  if (o.description !== undefined && typeof o.description !== "string") {
+    issues.push(`description: expected a string, got ${describe(o.description)}`);
+  }
+
+  const factorsObj = obj(o.factors, "factors", issues);
+  checkKeys(factorsObj, "factors", [...FACTOR_NAMES], issues);
+  // A factor the config leaves out scores with its registry defaults, so configs written
+  // before an indicator was registered keep loading.
+  const factors = Object.fromEntries(
+    SCORING_INDICATORS.map(({ factor }) => [
+      factor.name,
+      factorsObj[factor.name] === undefined
+        ? { ...factor.defaults, clamp: [...factor.defaults.clamp] }
+        : parseFactor(factorsObj[factor.name], `factors.${factor.name}`, issues),
+    ]),
+  ) as Record<FactorName, FactorConfig>;
+
+  const hubs = parseIsoWeights(o.hubs, "hubs", issues);
+  const offices: ModelConfig["offices"] = parseMultiplierSet(o.offices, "offices", issues, ["weights"]);
+  if (isObj(o.offices) && o.offices.weights !== undefined) {
+    offices.weights = parseIsoWeights(o.offices.weights, "offices.weights", issues);
+    for (const iso of Object.keys(offices.weights)) {
+      if (!offices.countries.includes(iso)) issues.push(`offices.weights.${iso}: not in offices.countries`);
+    }
+  }
+
+  const config: ModelConfig = {
+    name: str(o.name, "name", issues),
+    ...(typeof o.description === "string" ? { description: o.description } : {}),
+    gdpExponent: num(o.gdpExponent, "gdpExponent", issues, { min: 0 }),
+    factors,
+    hubs,
+    offices,
+    nearZero: parseMultiplierSet(o.nearZero, "nearZero", issues),
+    ...(o.uncertainty !== undefined ? { uncertainty: parseUncertainty(o.uncertainty, "uncertainty", issues) } : {}),
+  };
+  if (issues.length) throw new ModelConfigError(source, issues);
+  return config;
+}
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (isObj(v)) {
+    const keys = Object.keys(v)
+      .filter((k) => v[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(v[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+// cyrb53: small, sync and identical in Node and the browser; good enough to tell variants apart.
+function cyrb53(str: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+/** Content hash of the model parameters (name, description and key order do not matter). */
+export function hashModelConfig(config: ModelConfig): string {
+  const params: Partial<ModelConfig> = { ...config };
+  delete params.name;
+  delete params.description;
+  return cyrb53(stableStringify(params));
+}
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = parseModelConfig(baseline, "config/models/baseline.json");
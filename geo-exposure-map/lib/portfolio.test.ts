@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { segmentOfCountry } from "./company-profile";
+import { syntheticInputs } from "./fixtures/synthetic-inputs";
+import { computePortfolio, holdingProfile, HOLDINGS_TEMPLATE, parseHoldingsCsv, PortfolioError } from "./portfolio";
+
+const inputs = syntheticInputs();
+const HEADER = "holding,weight,segment,revenue_usd_millions";
+
+// The issues parseHoldingsCsv reports for `rows` under the standard header.
+function issuesOf(...rows: string[]) {
+  try {
+    parseHoldingsCsv([HEADER, ...rows].join("\n"));
+    return [];
+  } catch (e) {
+    assert.ok(e instanceof PortfolioError);
+    return e.issues;
+  }
+}
+
+describe("parseHoldingsCsv", () => {
+  it("groups rows by holding", () => {
+    const holdings = parseHoldingsCsv(HOLDINGS_TEMPLATE);
+    assert.deepEqual(
+      holdings.map((h) => [h.name, h.weight, h.segments.map((s) => s.areas)]),
+      [
+        ["Example Holding A", 0.6, [["Americas"], ["Europe", "Africa", "Western Asia"], ["Rest of world"]]],
+        ["Example Holding B", 0.4, [["USA"], ["Rest of world"]]],
+      ],
+    );
+  });
+
+  it("reports a bad first weight once and takes the weight from the next valid row", () => {
+    assert.deepEqual(issuesOf("A,abc,USA,10", "A,0.5,Europe,10", "A,0.5,Asia,10"), ['line 2: weight must be a number > 0, got "abc"']);
+  });
+
+  it("reports weights that disagree between a holding's rows", () => {
+    assert.deepEqual(issuesOf("A,0.5,USA,10", "A,0.4,Europe,10"), ["line 3: A has weight 0.4 here but 0.5 on an earlier line"]);
+  });
+
+  it("reports a segment listed twice", () => {
+    assert.deepEqual(issuesOf("A,1,USA,10", "A,1,USA,5"), ['line 3: A lists segment "USA" twice']);
+  });
+});
+
+describe("holdingProfile", () => {
+  const profileFor = (csv: string) => {
+    const issues: string[] = [];
+    const [holding] = parseHoldingsCsv(`${HEADER}\n${csv}`);
+    const profile = holdingProfile(holding, 0, inputs.countries, 2024, issues);
+    assert.deepEqual(issues, []);
+    return profile!;
+  };
+  const segmentOf = (profile: ReturnType<typeof profileFor>, iso3: string) =>
+    segmentOfCountry(profile, inputs.countries.find((c) => c.iso3 === iso3)!);
+
+  it("gives Rest of world every region the other segments leave out", () => {
+    const profile = profileFor("A,1,Americas,100\nA,1,Rest of world,50");
+    assert.deepEqual(profile.segments[1].regions, ["Europe", "Africa", "Asia", "Oceania"]);
+    assert.equal(segmentOf(profile, "BRA"), "S1");
+    assert.equal(segmentOf(profile, "JPN"), "S2");
+  });
+
+  it("keeps countries named more specifically with their own segment", () => {
+    const profile = profileFor("A,1,USA,100\nA,1,Western Asia,20\nA,1,Rest of world,50");
+    assert.ok(profile.segments[2].regions?.includes("Americas"));
+    assert.equal(segmentOf(profile, "USA"), "S1");
+    assert.equal(segmentOf(profile, "SAU"), "S2");
+    assert.equal(segmentOf(profile, "CAN"), "S3");
+  });
+
+  it("reports areas that are neither ISO3 codes nor UN regions", () => {
+    const issues: string[] = [];
+    const [holding] = parseHoldingsCsv(`${HEADER}\nA,1,Atlantis,100`);
+    assert.equal(holdingProfile(holding, 0, inputs.countries, 2024, issues), null);
+    assert.deepEqual(issues, ['A: "Atlantis" is not an ISO3 code or UN region']);
+  });
+});
+
+describe("computePortfolio", () => {
+  const holdings = parseHoldingsCsv(`${HEADER}\nUS only,3,USA,100\nEurope,1,Europe,400`);
+  const portfolio = computePortfolio(inputs, holdings, { year: 2024 });
+
+  it("normalizes weights and sums weighted country shares", () => {
+    assert.deepEqual(
+      portfolio.holdings.map((h) => [h.name, h.weight, Math.round(h.revenueMillions)]),
+      [
+        ["US only", 0.75, 100],
+        ["Europe", 0.25, 400],
+      ],
+    );
+    assert.ok(Math.abs(portfolio.exposure.USA - 0.75) < 1e-12);
+    const total = Object.values(portfolio.exposure).reduce((a, v) => a + v, 0);
+    assert.ok(Math.abs(total - 1) < 1e-9, `${total}`);
+    assert.equal(portfolio.maxExposure, portfolio.exposure.USA);
+  });
+
+  it("lists each country's contributions by holding", () => {
+    const [germany] = portfolio.contributions.DEU;
+    assert.equal(germany.holding, "Europe");
+    assert.ok(Math.abs(germany.contribution - germany.weight * germany.share) < 1e-12);
+    assert.ok(Math.abs(portfolio.exposure.DEU - germany.contribution) < 1e-12);
+    assert.equal(portfolio.contributions.JPN, undefined);
+  });
+});
@@ -0,0 +1,227 @@
+// Portfolio exposure: a holdings CSV gives each holding a weight and its own segment
+// revenue breakdown. Every holding becomes a throwaway company profile, is allocated by
+// computeExposure on the same cached inputs, and its country shares are summed by weight.
+
+import { parseCompanyProfile, ProfileError, type CompanyProfile, type CountryRegions, type SegmentDefinition } from "./company-profile";
+import { AllocationError, computeExposure, splitCsvLine, type ExposureInputs } from "./exposure-core";
+import type { ModelConfig } from "./model-config";
+import { describe, ISO3 } from "./validation";
+
+export type HoldingSegment = {
+  label: string; // the CSV cell, e.g. "Europe; Africa"
+  areas: string[]; // UN regions, sub-regions, intermediate regions or ISO3 codes
+  revenueMillions: number;
+};
+
+export type Holding = { name: string; weight: number; segments: HoldingSegment[] };
+
+export type Contribution = {
+  holding: string;
+  weight: number; // normalized portfolio weight
+  share: number; // the country's share of the holding's allocated revenue
+  contribution: number; // weight x share
+};
+
+export type PortfolioExposure = {
+  year: number;
+  holdings: Array<{ name: string; weight: number; revenueMillions: number }>;
+  exposure: Record<string, number>; // ISO3 -> weighted revenue share; sums to 1 across countries
+  contributions: Record<string, Contribution[]>; // ISO3 -> holdings with a non-zero share, largest first
+  maxExposure: number;
+};
+
+export class PortfolioError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid holdings ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "PortfolioError";
+    this.issues = issues;
+  }
+}
+
+export const HOLDINGS_COLUMNS = ["holding", "weight", "segment", "revenue_usd_millions"] as const;
+
+// A segment of exactly this area takes every country the holding's other segments leave out.
+export const REST_OF_WORLD = "Rest of world";
+
+export const HOLDINGS_TEMPLATE = [
+  HOLDINGS_COLUMNS.join(","),
+  "Example Holding A,0.6,Americas,1200",
+  'Example Holding A,0.6,"Europe; Africa; Western Asia",800',
+  "Example Holding A,0.6,Rest of world,400",
+  "Example Holding B,0.4,USA,900",
+  "Example Holding B,0.4,Rest of world,300",
+  "",
+].join("\n");
+
+const cellNumber = (v: string | undefined) => (v?.trim() ? Number(v.trim()) : NaN);
+
+/**
+ * Parses a long-format holdings CSV: one row per holding segment, with the holding's
+ * weight repeated on each of its rows. Throws PortfolioError listing every problem.
+ */
+export function parseHoldingsCsv(text: string, source = "<upload>"): Holding[] {
+  const issues: string[] = [];
+  const lines = text.replace(/^﻿/, "").split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? "").map((h) => h.trim().toLowerCase());
+  const col = Object.fromEntries(HOLDINGS_COLUMNS.map((c) => [c, header.indexOf(c)])) as Record<
+    (typeof HOLDINGS_COLUMNS)[number],
+    number
+  >;
+  const missing = HOLDINGS_COLUMNS.filter((c) => col[c] < 0);
+  if (missing.length) throw new PortfolioError(source, [`header: missing column(s) ${missing.join(", ")}`]);
+
+  const holdings = new Map<string, Holding>();
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const path = `line ${i + 1}`;
+    const cols = splitCsvLine(lines[i]);
+    const name = cols[col.holding]?.trim() ?? "";
+    const weight = cellNumber(cols[col.weight]);
+    const label = cols[col.segment]?.trim() ?? "";
+    const revenue = cellNumber(cols[col.revenue_usd_millions]);
+    if (!name) issues.push(`${path}: holding is empty`);
+    if (!Number.isFinite(weight) || weight <= 0) issues.push(`${path}: weight must be a number > 0, got ${describe(cols[col.weight])}`);
+    if (!label) issues.push(`${path}: segment is empty`);
+    if (!Number.isFinite(revenue) || revenue < 0) {
+      issues.push(`${path}: revenue_usd_millions must be a number >= 0, got ${describe(cols[col.revenue_usd_millions])}`);
+    }
+    if (!name) continue;
+
+    // The weight is set from the holding's first valid one; a bad cell is reported above only.
+    const holding = holdings.get(name) ?? { name, weight: NaN, segments: [] };
+    holdings.set(name, holding);
+    if (Number.isFinite(weight) && weight > 0) {
+      if (Number.isNaN(holding.weight)) holding.weight = weight;
+      else if (weight !== holding.weight) {
+        issues.push(`${path}: ${name} has weight ${weight} here but ${holding.weight} on an earlier line`);
+      }
+    }
+    if (holding.segments.some((s) => s.label === label)) issues.push(`${path}: ${name} lists segment ${describe(label)} twice`);
+    const areas = label
+      .split(";")
+      .map((a) => a.trim())
+      .filter(Boolean);
+    holding.segments.push({ label, areas, revenueMillions: revenue });
+  }
+  if (!holdings.size) issues.push("no holdings found");
+  if (issues.length) throw new PortfolioError(source, issues);
+  return [...holdings.values()];
+}
+
+/**
+ * A company profile for one holding, anchored at `year`. Each area resolves to the most
+ * specific mapping rule it names, so segmentOfCountry places countries exactly as it
+ * does for the built-in profiles.
+ */
+export function holdingProfile(
+  holding: Holding,
+  index: number,
+  countries: CountryRegions[],
+  year: number,
+  issues: string[],
+): CompanyProfile | null {
+  const known = {
+    countries: new Set(countries.map((c) => c.iso3)),
+    intermediateRegions: new Set(countries.map((c) => c.intermediateRegion).filter(Boolean)),
+    subRegions: new Set(countries.map((c) => c.subRegion).filter(Boolean)),
+    regions: new Set(countries.map((c) => c.region).filter(Boolean)),
+  };
+  const before = issues.length;
+  const segments: SegmentDefinition[] = holding.segments.map((s, i) => {
+    const seg: SegmentDefinition = { id: `S${i + 1}`, label: s.label };
+    for (const area of s.areas) {
+      if (area.toLowerCase() === REST_OF_WORLD.toLowerCase()) continue;
+      const key =
+        ISO3.test(area) && known.countries.has(area)
+          ? "countries"
+          : known.intermediateRegions.has(area)
+            ? "intermediateRegions"
+            : known.subRegions.has(area)
+              ? "subRegions"
+              : known.regions.has(area)
+                ? "regions"
+                : null;
+      if (!key) issues.push(`${holding.name}: ${describe(area)} is not an ISO3 code or UN region`);
+      else (seg[key] ??= []).push(area);
+    }
+    return seg;
+  });
+  // Rest of world: every region no other segment claims at region level; countries the
+  // other segments name more specifically still go to them.
+  const claimed = new Set(segments.flatMap((s) => s.regions ?? []));
+  holding.segments.forEach((s, i) => {
+    if (!s.areas.some((a) => a.toLowerCase() === REST_OF_WORLD.toLowerCase())) return;
+    const rest = [...known.regions].filter((r): r is string => r != null && !claimed.has(r));
+    segments[i].regions = [...(segments[i].regions ?? []), ...rest];
+  });
+  if (issues.length > before) return null;
+
+  try {
+    return parseCompanyProfile(
+      {
+        ticker: `H${index + 1}`,
+        name: holding.name,
+        fiscalYear: year,
+        segments,
+        anchors: { [year]: Object.fromEntries(holding.segments.map((s, i) => [`S${i + 1}`, s.revenueMillions])) },
+        offices: [],
+      },
+      holding.name,
+    );
+  } catch (e) {
+    if (!(e instanceof ProfileError)) throw e;
+    issues.push(...e.issues.map((i) => `${holding.name}: ${i}`));
+    return null;
+  }
+}
+
+/**
+ * Allocates every holding at `year` and sums country shares by normalized weight. Throws
+ * PortfolioError for holdings whose areas do not resolve, and AllocationError (naming the
+ * holding) when a holding's breakdown cannot be allocated.
+ */
+export function computePortfolio(
+  inputs: ExposureInputs,
+  holdings: Holding[],
+  options: { year: number; config?: ModelConfig },
+): PortfolioExposure {
+  const issues: string[] = [];
+  const allocated = holdings.flatMap((holding, i) => {
+    const profile = holdingProfile(holding, i, inputs.countries, options.year, issues);
+    return profile ? [{ holding, profile }] : [];
+  });
+  if (issues.length) throw new PortfolioError("for the loaded indicators", issues);
+
+  const totalWeight = holdings.reduce((sum, h) => sum + h.weight, 0);
+  const exposure: Record<string, number> = {};
+  const contributions: Record<string, Contribution[]> = {};
+  const summary: PortfolioExposure["holdings"] = [];
+  for (const { holding: h, profile } of allocated) {
+    const weight = h.weight / totalWeight;
+    let payload;
+    try {
+      payload = computeExposure(inputs, { profile, config: options.config, uncertainty: false });
+    } catch (e) {
+      if (e instanceof AllocationError) throw new AllocationError(`${h.name}: ${e.message}`);
+      throw e;
+    }
+    summary.push({ name: h.name, weight, revenueMillions: payload.totalRevenueMillions });
+    for (const d of payload.countryDetails) {
+      exposure[d.iso3] = (exposure[d.iso3] ?? 0) + weight * d.share;
+      if (d.share > 0) {
+        (contributions[d.iso3] ??= []).push({ holding: h.name, weight, share: d.share, contribution: weight * d.share });
+      }
+    }
+  }
+  for (const list of Object.values(contributions)) list.sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    year: options.year,
+    holdings: summary,
+    exposure,
+    contributions,
+    maxExposure: Math.max(0, ...Object.values(exposure)),
+  };
+}
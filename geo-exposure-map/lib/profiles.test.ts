@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sample from "../config/calibration/sample.json";
+import { parseCalibrationDataset } from "./calibration";
+import { mappingCoverage, parseCompanyProfile, type CompanyProfile } from "./company-profile";
+import { computeExposure } from "./exposure-core";
+import { syntheticInputs } from "./fixtures/synthetic-inputs";
+import { PROFILES, profileByTicker } from "./profiles";
+
+const inputs = syntheticInputs();
+
+describe("profile registry", () => {
+  it("registers each ticker once and finds it case-insensitively", () => {
+    const tickers = PROFILES.map((p) => p.ticker);
+    assert.equal(new Set(tickers).size, tickers.length);
+    for (const t of tickers) assert.equal(profileByTicker(t.toLowerCase())?.ticker, t);
+    assert.equal(profileByTicker("NOPE"), undefined);
+  });
+
+  it("cites the filing behind each shipped profile's segment totals", () => {
+    for (const p of PROFILES) assert.ok(p.source?.trim(), `${p.ticker}: no source`);
+  });
+});
+
+describe("several companies on one set of inputs", () => {
+  // The shipped registry holds FactSet only, so the synthetic sample companies stand in for
+  // other issuers: different segmentations allocated side by side on the same inputs.
+  const profiles = [...PROFILES, ...parseCalibrationDataset(sample).companies.map((c) => c.profile)];
+
+  it("allocates each company's own segment totals", () => {
+    for (const profile of profiles) {
+      const payload = computeExposure(inputs, { profile, uncertainty: false });
+      assert.equal(payload.meta.profile.ticker, profile.ticker);
+      const anchors = profile.anchors[String(payload.fiscalYear)];
+      const expected = Object.values(anchors).reduce((a, v) => a + v, 0);
+      assert.ok(Math.abs(payload.totalRevenueMillions - expected) < 1e-6, `${profile.ticker}: ${payload.totalRevenueMillions} vs ${expected}`);
+    }
+  });
+});
+
+describe("mappingCoverage", () => {
+  const segments = [
+    { id: "AM", label: "Americas", regions: ["Americas"] },
+    { id: "EMEA", label: "EMEA", regions: ["Europe", "Africa"], subRegions: ["Western Asia"] },
+    { id: "APAC", label: "Asia Pacific", regions: ["Asia"] },
+  ];
+  const profile = (segs: CompanyProfile["segments"]): CompanyProfile =>
+    parseCompanyProfile({
+      ticker: "TEST",
+      name: "Test",
+      fiscalYear: 2024,
+      segments: segs,
+      anchors: { 2024: Object.fromEntries(segs.map((s) => [s.id, 1])) },
+    });
+
+  it("lists countries no rule matches", () => {
+    const coverage = mappingCoverage(profile(segments), inputs.countries);
+    assert.deepEqual(coverage.unassigned.map((c) => c.iso3), ["AUS"]);
+    assert.equal(coverage.assigned, inputs.countries.length - 1);
+  });
+
+  it("reports a more specific rule winning as an override, not an ambiguity", () => {
+    const coverage = mappingCoverage(profile(segments), inputs.countries);
+    assert.deepEqual(coverage.ambiguous, []);
+    assert.deepEqual(coverage.overrides.map((c) => [c.iso3, c.assigned]), [["ARE", "EMEA"], ["SAU", "EMEA"], ["TUR", "EMEA"]]);
+    assert.deepEqual(coverage.overrides[0].matches, [
+      { segment: "EMEA", rule: "subRegion" },
+      { segment: "APAC", rule: "region" },
+    ]);
+  });
+
+  it("reports two segments claiming a country at the same level", () => {
+    // Parsing rejects this, so build the profile by hand.
+    const japan = { id: "JP", label: "Japan", regions: ["Asia"] };
+    const unchecked: CompanyProfile = { ...profile(segments), segments: [...segments, japan] };
+    const coverage = mappingCoverage(unchecked, inputs.countries);
+    assert.ok(coverage.ambiguous.some((c) => c.iso3 === "JPN"));
+    assert.ok(!coverage.overrides.some((c) => c.iso3 === "JPN"));
+  });
+});
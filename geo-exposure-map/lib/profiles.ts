@@ -0,0 +1,16 @@
+// Registry of bundled company profiles. Add a profile by dropping a JSON file in
+// profiles/ and listing it here (the static export cannot read the directory at runtime).
+
+import { parseCompanyProfile, type CompanyProfile } from "./company-profile";
+import fds from "../profiles/fds.json";
+
+const RAW_PROFILES: Array<[file: string, raw: unknown]> = [["profiles/fds.json", fds]];
+
+export const PROFILES: CompanyProfile[] = RAW_PROFILES.map(([file, raw]) => parseCompanyProfile(raw, file));
+
+export const DEFAULT_PROFILE: CompanyProfile = PROFILES[0];
+
+export function profileByTicker(ticker: string): CompanyProfile | undefined {
+  const t = ticker.toUpperCase();
+  return PROFILES.find((p) => p.ticker === t);
+}
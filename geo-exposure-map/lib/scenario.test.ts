@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_PROFILE } from "./profiles";
+import { baselineScenario, parseSavedScenarios } from "./scenario";
+
+const saved = { ...baselineScenario(DEFAULT_PROFILE), name: "Bigger EMEA", segmentTotals: { 2025: { EMEA: 650 } } };
+// What localStorage holds: the scenarios as JSON.
+const stored = (...entries: unknown[]) => JSON.parse(JSON.stringify(entries));
+
+describe("parseSavedScenarios", () => {
+  it("round-trips a saved scenario", () => {
+    const { scenarios, issues } = parseSavedScenarios(stored(saved));
+    assert.deepEqual(issues, []);
+    assert.deepEqual(scenarios, [saved]);
+  });
+
+  it("skips entries with bad segment totals and keeps the rest", () => {
+    const bad = { ...saved, name: "Broken", segmentTotals: { 2025: { EMEA: -5, APAC: "200" }, FY25: {} } };
+    const { scenarios, issues } = parseSavedScenarios(stored(bad, saved));
+    assert.deepEqual(scenarios.map((s) => s.name), ["Bigger EMEA"]);
+    assert.deepEqual(issues, [
+      `${saved.ticker} “Broken”: segmentTotals.2025.EMEA: must be >= 0, got -5`,
+      `${saved.ticker} “Broken”: segmentTotals.2025.APAC: expected a finite number, got "200"`,
+      `${saved.ticker} “Broken”: segmentTotals.FY25: expected a four-digit fiscal year key`,
+    ]);
+  });
+
+  it("reports config and segment-total problems of one entry together", () => {
+    const bad = { ...saved, config: { ...saved.config, gdpExponent: -1 }, segmentTotals: [] };
+    const { scenarios, issues } = parseSavedScenarios(stored(bad));
+    assert.deepEqual(scenarios, []);
+    assert.deepEqual(issues, [
+      `${saved.ticker} “Bigger EMEA”: gdpExponent: must be >= 0, got -1`,
+      `${saved.ticker} “Bigger EMEA”: segmentTotals: expected an object, got []`,
+    ]);
+  });
+
+  it("rejects entries that are not scenarios and storage that is not a list", () => {
+    assert.deepEqual(parseSavedScenarios(stored("x", saved)).issues, ["entry 1: not a saved scenario"]);
+    assert.deepEqual(parseSavedScenarios({}).issues, ["saved scenarios are not a list"]);
+  });
+});
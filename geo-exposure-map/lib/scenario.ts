@@ -0,0 +1,109 @@
+// What-if scenarios: a full ModelConfig plus segment-total overrides for one company
+// profile. The page edits them in the browser, re-scores cached inputs with
+// computeExposure, and keeps named scenarios in localStorage.
+
+import type { CompanyProfile } from "./company-profile";
+import { DEFAULT_MODEL_CONFIG, ModelConfigError, parseModelConfig, type ModelConfig } from "./model-config";
+import { isObj, num, obj } from "./validation";
+
+export type Scenario = {
+  name: string;
+  ticker: string;
+  config: ModelConfig;
+  segmentTotals: Record<string, Record<string, number>>; // fiscal year -> segment id -> USD millions
+};
+
+const STORAGE_KEY = "geo-exposure-map:scenarios";
+
+export const BASELINE_SCENARIO_NAME = "Published baseline";
+
+/**
+ * The published model for `profile`. A profile's own office list replaces the model's,
+ * so it is copied into the config here and the editor has a single list to toggle.
+ */
+export function baselineScenario(profile: CompanyProfile, config: ModelConfig = DEFAULT_MODEL_CONFIG): Scenario {
+  return {
+    name: BASELINE_SCENARIO_NAME,
+    ticker: profile.ticker,
+    config: {
+      ...config,
+      offices: { ...config.offices, countries: [...(profile.offices ?? config.offices.countries)] },
+    },
+    segmentTotals: {},
+  };
+}
+
+/** The config and profile computeExposure should run for `scenario`. */
+export function applyScenario(profile: CompanyProfile, scenario: Scenario) {
+  const anchors: CompanyProfile["anchors"] = {};
+  for (const [year, totals] of Object.entries(profile.anchors)) {
+    anchors[year] = { ...totals, ...scenario.segmentTotals[year] };
+  }
+  return {
+    config: scenario.config,
+    profile: { ...profile, anchors, offices: scenario.config.offices.countries },
+  };
+}
+
+/**
+ * Segment-total overrides: fiscal year -> segment id -> non-negative USD millions. With a
+ * `profile`, every year must be one of its anchor years and every id one of its segments.
+ */
+export function parseSegmentTotals(v: unknown, issues: string[], profile?: CompanyProfile): Scenario["segmentTotals"] {
+  const totals: Scenario["segmentTotals"] = {};
+  for (const [year, byId] of Object.entries(obj(v, "segmentTotals", issues))) {
+    if (!/^\d{4}$/.test(year)) issues.push(`segmentTotals.${year}: expected a four-digit fiscal year key`);
+    else if (profile && !profile.anchors[year]) issues.push(`segmentTotals.${year}: ${profile.ticker} has no FY${year} anchors`);
+    totals[year] = {};
+    for (const [id, value] of Object.entries(obj(byId, `segmentTotals.${year}`, issues))) {
+      if (profile && !profile.segments.some((seg) => seg.id === id)) {
+        issues.push(`segmentTotals.${year}.${id}: ${profile.ticker} has no such segment`);
+      }
+      totals[year][id] = num(value, `segmentTotals.${year}.${id}`, issues, { min: 0 });
+    }
+  }
+  return totals;
+}
+
+/**
+ * Parses the stored scenario list. Entries that no longer parse (e.g. after a schema
+ * change, or hand-edited storage) are skipped, with their issues returned for the page.
+ */
+export function parseSavedScenarios(raw: unknown): { scenarios: Scenario[]; issues: string[] } {
+  if (!Array.isArray(raw)) return { scenarios: [], issues: ["saved scenarios are not a list"] };
+  const scenarios: Scenario[] = [];
+  const issues: string[] = [];
+  raw.forEach((s, i) => {
+    if (!isObj(s) || typeof s.name !== "string" || typeof s.ticker !== "string") {
+      issues.push(`entry ${i + 1}: not a saved scenario`);
+      return;
+    }
+    const entryIssues: string[] = [];
+    let config: ModelConfig | undefined;
+    try {
+      config = parseModelConfig(s.config, `scenario ${s.name}`);
+    } catch (e) {
+      if (!(e instanceof ModelConfigError)) throw e;
+      entryIssues.push(...e.issues);
+    }
+    const segmentTotals = parseSegmentTotals(s.segmentTotals, entryIssues);
+    if (config && !entryIssues.length) scenarios.push({ name: s.name, ticker: s.ticker, config, segmentTotals });
+    else issues.push(...entryIssues.map((issue) => `${s.ticker} “${s.name}”: ${issue}`));
+  });
+  return { scenarios, issues };
+}
+
+/** Saved scenarios from localStorage, with one issue per entry that was skipped. */
+export function loadScenarios(): { scenarios: Scenario[]; issues: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return { scenarios: [], issues: ["saved scenarios are not valid JSON"] };
+  }
+  return parseSavedScenarios(raw);
+}
+
+export function saveScenarios(scenarios: Scenario[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { ExposureDataProvider, IndicatorRequest } from "./data-provider";
+import { recordingProvider, snapshotProvider, SnapshotError } from "./snapshot-provider";
+
+const GDP: IndicatorRequest = { indicator: "NY.GDP.MKTP.CD", from: 2020, to: 2024 };
+
+// Serves fixed bodies and counts calls, standing in for the HTTP provider.
+function fakeProvider() {
+  const calls: string[] = [];
+  const provider: ExposureDataProvider = {
+    name: "fake",
+    isoCountries: async () => (calls.push("iso"), "name,alpha-2,alpha-3\nFrance,FR,FRA\n"),
+    geometry: async () => (calls.push("geo"), '{"type":"FeatureCollection","features":[]}'),
+    indicator: async (req) => (calls.push(req.indicator), JSON.stringify([{ page: 1 }, [{ date: "2024", value: 1 }]])),
+  };
+  return { provider, calls };
+}
+
+describe("snapshot record and replay", () => {
+  let dir = "";
+  const { provider, calls } = fakeProvider();
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "snapshot-test-"));
+    const recorder = recordingProvider(provider, dir);
+    await recorder.isoCountries();
+    await recorder.geometry();
+    await recorder.indicator(GDP);
+    await recorder.finalize();
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("writes a manifest with a hash per resource", async () => {
+    const manifest = JSON.parse(await readFile(path.join(dir, "manifest.json"), "utf8"));
+    assert.equal(manifest.source, "fake");
+    assert.deepEqual(Object.keys(manifest.resources), ["geometry", "indicator:NY.GDP.MKTP.CD.2020-2024", "iso-countries"]);
+    assert.match(manifest.resources.geometry.sha256, /^[0-9a-f]{64}$/);
+  });
+
+  it("replays every response byte for byte without calling the source", async () => {
+    const replay = snapshotProvider(dir);
+    const served = calls.length;
+    const replayed = [await replay.isoCountries(), await replay.geometry(), await replay.indicator(GDP)];
+    assert.equal(calls.length, served);
+    assert.deepEqual(replayed, [await provider.isoCountries(), await provider.geometry(), await provider.indicator(GDP)]);
+  });
+
+  it("rejects a resource that was not recorded", async () => {
+    await assert.rejects(snapshotProvider(dir).indicator({ ...GDP, from: 2019 }), SnapshotError);
+  });
+
+  it("rejects a file whose contents no longer match its hash", async () => {
+    await writeFile(path.join(dir, "iso-countries.csv"), "name,alpha-2,alpha-3\nFrance,FR,FRX\n", "utf8");
+    await assert.rejects(
+      snapshotProvider(dir).isoCountries(),
+      (e) => e instanceof SnapshotError && /does not match its recorded hash/.test(e.message),
+    );
+  });
+
+  it("rejects a directory without a manifest", async () => {
+    await assert.rejects(snapshotProvider(path.join(dir, "missing")).geometry(), SnapshotError);
+  });
+});
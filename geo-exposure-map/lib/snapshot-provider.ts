@@ -0,0 +1,101 @@
+// Filesystem snapshot providers (Node only; never import from client code).
+//
+// Snapshot layout:
+//   <dir>/manifest.json             resource key -> { file, sha256 }
+//   <dir>/iso-countries.csv
+//   <dir>/geometry.geojson
+//   <dir>/indicators/<code>.<from>-<to>.json
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { indicatorKey, type ExposureDataProvider, type IndicatorRequest } from "./data-provider";
+
+const MANIFEST = "manifest.json";
+
+export type SnapshotManifest = {
+  version: 1;
+  recordedAt: string;
+  source: string;
+  resources: Record<string, { file: string; sha256: string }>;
+};
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+const sha256 = (text: string) => createHash("sha256").update(text, "utf8").digest("hex");
+
+const ISO_RESOURCE = { key: "iso-countries", file: "iso-countries.csv" };
+const GEO_RESOURCE = { key: "geometry", file: "geometry.geojson" };
+const indicatorResource = (req: IndicatorRequest) => {
+  const key = indicatorKey(req);
+  return { key: `indicator:${key}`, file: `indicators/${key}.json` };
+};
+
+export function snapshotProvider(dir: string): ExposureDataProvider {
+  let manifest: Promise<SnapshotManifest> | null = null;
+  const loadManifest = () =>
+    (manifest ??= readFile(path.join(dir, MANIFEST), "utf8")
+      .catch(() => {
+        throw new SnapshotError(`no snapshot manifest at ${path.join(dir, MANIFEST)}`);
+      })
+      .then((text) => JSON.parse(text) as SnapshotManifest));
+
+  const read = async (key: string) => {
+    const entry = (await loadManifest()).resources[key];
+    if (!entry) throw new SnapshotError(`snapshot ${dir} has no resource "${key}"; re-record it`);
+    const text = await readFile(path.join(dir, entry.file), "utf8");
+    if (sha256(text) !== entry.sha256) {
+      throw new SnapshotError(`snapshot resource "${key}" (${entry.file}) does not match its recorded hash`);
+    }
+    return text;
+  };
+
+  return {
+    name: `snapshot:${dir}`,
+    isoCountries: () => read(ISO_RESOURCE.key),
+    geometry: () => read(GEO_RESOURCE.key),
+    indicator: (req) => read(indicatorResource(req).key),
+  };
+}
+
+// Wraps another provider and writes every response it serves into `dir`.
+// Call finalize() after the run to write the manifest.
+export function recordingProvider(
+  inner: ExposureDataProvider,
+  dir: string,
+): ExposureDataProvider & { finalize(): Promise<SnapshotManifest> } {
+  const resources: SnapshotManifest["resources"] = {};
+
+  const record = async ({ key, file }: { key: string; file: string }, load: () => Promise<string>) => {
+    const text = await load();
+    const target = path.join(dir, file);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, text, "utf8");
+    resources[key] = { file, sha256: sha256(text) };
+    return text;
+  };
+
+  return {
+    name: `recording:${inner.name}`,
+    isoCountries: () => record(ISO_RESOURCE, () => inner.isoCountries()),
+    geometry: () => record(GEO_RESOURCE, () => inner.geometry()),
+    indicator: (req) => record(indicatorResource(req), () => inner.indicator(req)),
+    async finalize() {
+      const sorted = Object.fromEntries(Object.entries(resources).sort(([a], [b]) => a.localeCompare(b)));
+      const manifest: SnapshotManifest = {
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        source: inner.name,
+        resources: sorted,
+      };
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, MANIFEST), `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+      return manifest;
+    },
+  };
+}
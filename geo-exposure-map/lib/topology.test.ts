@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Polygon, Position } from "geojson";
+import { simplifyTopology, topologyFeatures, topologyNeighbors, toTopology, type Topology } from "./topology";
+
+const polygon = (ring: Position[]): Polygon => ({ type: "Polygon", coordinates: [ring] });
+
+// A ring without its closing point, rotated to start at its smallest point, so rings that
+// trace the same cycle from different starts compare equal.
+function canonical(ring: Position[]) {
+  const open = ring.slice(0, -1);
+  let start = 0;
+  open.forEach(([x, y], i) => {
+    const [sx, sy] = open[start];
+    if (x < sx || (x === sx && y < sy)) start = i;
+  });
+  return [...open.slice(start), ...open.slice(0, start)];
+}
+
+// Where the encoder's grid puts a coordinate.
+function snap(topology: Topology, [x, y]: Position): Position {
+  const { scale, translate } = topology.transform;
+  return [
+    Math.round((x - translate[0]) / scale[0]) * scale[0] + translate[0],
+    Math.round((y - translate[1]) / scale[1]) * scale[1] + translate[1],
+  ];
+}
+
+function assertClose(actual: Position[], expected: Position[]) {
+  assert.equal(actual.length, expected.length);
+  actual.forEach(([x, y], i) => {
+    assert.ok(Math.abs(x - expected[i][0]) < 1e-9 && Math.abs(y - expected[i][1]) < 1e-9, `point ${i}: ${[x, y]} vs ${expected[i]}`);
+  });
+}
+
+// Two countries split by a zigzag border from (5, 0) up to (5, 10).
+const border: Position[] = Array.from({ length: 41 }, (_, i) => [5 + 0.2 * Math.sin(i * 1.3), i / 4]);
+const west = polygon([[0, 0], ...border, [0, 10], [0, 0]]);
+const east = polygon([...border, [10, 10], [10, 0], border[0]].reverse());
+const island = polygon([[12, 2], [13, 2.1], [14, 2], [14.1, 3], [14, 4], [13, 3.9], [12, 4], [11.9, 3], [12, 2]]);
+const features = [
+  { geometry: west, properties: { name: "West", population: 1 } },
+  { geometry: east, properties: { name: "East" } },
+  { geometry: island, properties: { name: "Island" } },
+];
+
+describe("toTopology and topologyFeatures", () => {
+  it("round-trips every ring to its quantized coordinates", () => {
+    const topology = toTopology(features, ["WST", "EST", null], { quantization: 1e4 });
+    const decoded = topologyFeatures(topology);
+    assert.deepEqual(
+      decoded.map((f) => [f.id, f.properties]),
+      [
+        ["WST", { name: "West" }],
+        ["EST", { name: "East" }],
+        [undefined, { name: "Island" }],
+      ],
+    );
+    decoded.forEach((f, i) => {
+      assert.equal(f.geometry.type, "Polygon");
+      const [ring] = (f.geometry as Polygon).coordinates;
+      const [source] = (features[i].geometry as Polygon).coordinates;
+      assertClose(canonical(ring), canonical(source.map((p) => snap(topology, p))));
+    });
+  });
+
+  it("stores a shared border once, referenced by both countries", () => {
+    const topology = toTopology(features, ["WST", "EST", "ISL"]);
+    const refs = topology.objects.countries.geometries.map((g) => (g.arcs as number[][])[0]);
+    const shared = refs[0].filter((r) => refs[1].includes(~r));
+    assert.equal(shared.length, 1);
+  });
+});
+
+describe("simplifyTopology", () => {
+  it("moves a shared border identically for both countries", () => {
+    const simplified = topologyFeatures(simplifyTopology(toTopology(features, ["WST", "EST", "ISL"]), 0.15));
+    const borderPoints = (i: number) =>
+      (simplified[i].geometry as Polygon).coordinates[0]
+        .filter(([x]) => x > 4 && x < 6)
+        .map(([x, y]) => `${x.toFixed(9)},${y.toFixed(9)}`)
+        .sort();
+    const westBorder = borderPoints(0);
+    assert.ok(westBorder.length > 2 && westBorder.length < border.length, `${westBorder.length} border points`);
+    assert.deepEqual(borderPoints(1), westBorder);
+  });
+
+  it("keeps an island as a ring at coarse tolerances", () => {
+    const simplified = topologyFeatures(simplifyTopology(toTopology(features, ["WST", "EST", "ISL"]), 5));
+    const ring = (simplified[2].geometry as Polygon).coordinates[0];
+    assert.ok(ring.length >= 4, `${ring.length} points`);
+  });
+});
+
+describe("topologyNeighbors", () => {
+  it("links countries that share an arc, at any resolution", () => {
+    const topology = toTopology(features, ["WST", "EST", "ISL"]);
+    const expected = { EST: ["WST"], WST: ["EST"] };
+    assert.deepEqual(topologyNeighbors(topology), expected);
+    assert.deepEqual(topologyNeighbors(simplifyTopology(topology, 5)), expected);
+  });
+
+  it("leaves out features without an ISO3", () => {
+    assert.deepEqual(topologyNeighbors(toTopology(features, ["WST", null, "ISL"])), {});
+  });
+});
@@ -0,0 +1,264 @@
+// Minimal TopoJSON for the country map: the build encodes the GeoJSON once (quantized,
+// borders shared as arcs) and emits simplified copies at a few resolutions; the page
+// decodes the one it needs back to GeoJSON for d3-geo.
+//
+// Arcs are cut at junctions (points where the neighbouring rings diverge) and deduplicated
+// in either direction, so simplifying an arc moves a shared border identically for both
+// countries and coarse resolutions have no slivers between neighbours.
+
+import type { Feature, Geometry, MultiPolygon, Polygon, Position } from "geojson";
+
+type Transform = { scale: [number, number]; translate: [number, number] };
+
+export type TopoGeometry = {
+  type: "Polygon" | "MultiPolygon" | null;
+  arcs?: number[][] | number[][][]; // Polygon: rings of arc indexes; MultiPolygon: polygons of rings
+  id?: string; // resolved ISO3; absent for features the reconciliation could not place
+  properties?: Record<string, unknown>;
+};
+
+export type Topology = {
+  type: "Topology";
+  transform: Transform;
+  arcs: number[][][]; // quantized, delta-encoded positions
+  objects: { countries: { type: "GeometryCollection"; geometries: TopoGeometry[] } };
+};
+
+type SourceFeature = { geometry: Geometry | null; properties?: Record<string, unknown> | null };
+
+/**
+ * Encodes polygon features as a quantized topology. `ids` runs parallel to `features`;
+ * `keep` picks the feature properties worth shipping (e.g. the display name).
+ */
+export function toTopology(
+  features: SourceFeature[],
+  ids: Array<string | null>,
+  { quantization = 1e5, keep = ["name"] }: { quantization?: number; keep?: string[] } = {},
+): Topology {
+  let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+  const polygonsOf = (g: Geometry | null): Position[][][] =>
+    g?.type === "Polygon" ? [g.coordinates] : g?.type === "MultiPolygon" ? g.coordinates : [];
+  for (const f of features) {
+    for (const poly of polygonsOf(f.geometry)) {
+      for (const ring of poly) {
+        for (const [x, y] of ring) [x0, y0, x1, y1] = [Math.min(x0, x), Math.min(y0, y), Math.max(x1, x), Math.max(y1, y)];
+      }
+    }
+  }
+  const kx = x1 > x0 ? (x1 - x0) / (quantization - 1) : 1;
+  const ky = y1 > y0 ? (y1 - y0) / (quantization - 1) : 1;
+  // A quantized point as one number, so points compare and hash cheaply.
+  const key = ([x, y]: Position) => Math.round((x - x0) / kx) * quantization + Math.round((y - y0) / ky);
+
+  // 1) Quantize rings into open cycles of point keys, dropping repeats and degenerate rings.
+  const rings: number[][] = [];
+  const shapes = features.map((f) =>
+    polygonsOf(f.geometry).map((poly) =>
+      poly
+        .map((ring) => {
+          const pts: number[] = [];
+          for (const p of ring) {
+            const k = key(p);
+            if (k !== pts[pts.length - 1]) pts.push(k);
+          }
+          if (pts.length > 1 && pts[0] === pts[pts.length - 1]) pts.pop();
+          if (pts.length < 3) return -1;
+          rings.push(pts);
+          return rings.length - 1;
+        })
+        .filter((r) => r >= 0),
+    ),
+  );
+
+  // 2) Junctions: a point whose neighbours differ between two of its occurrences.
+  const neighbours = new Map<number, [number, number]>();
+  const junctions = new Set<number>();
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[(i + ring.length - 1) % ring.length];
+      const b = ring[(i + 1) % ring.length];
+      const pair: [number, number] = a < b ? [a, b] : [b, a];
+      const seen = neighbours.get(ring[i]);
+      if (!seen) neighbours.set(ring[i], pair);
+      else if (seen[0] !== pair[0] || seen[1] !== pair[1]) junctions.add(ring[i]);
+    }
+  }
+
+  // 3) Cut rings at junctions and deduplicate arcs in either direction.
+  const arcs: number[][] = [];
+  const arcIndex = new Map<string, number>();
+  const arcRef = (pts: number[]) => {
+    const k = pts.join(",");
+    const found = arcIndex.get(k);
+    if (found != null) return found;
+    const reversed = arcIndex.get([...pts].reverse().join(","));
+    if (reversed != null) return ~reversed;
+    arcs.push(pts);
+    arcIndex.set(k, arcs.length - 1);
+    return arcs.length - 1;
+  };
+  const ringArcs = rings.map((ring) => {
+    const cuts = ring.flatMap((p, i) => (junctions.has(p) ? [i] : []));
+    if (!cuts.length) {
+      // An isolated ring (island, enclave): start at its smallest point so both countries
+      // sharing it produce the same arc, in one direction or the other.
+      const start = ring.indexOf(Math.min(...ring));
+      const pts = [...ring.slice(start), ...ring.slice(0, start), ring[start]];
+      return [arcRef(pts)];
+    }
+    const refs: number[] = [];
+    for (let c = 0; c < cuts.length; c++) {
+      const from = cuts[c];
+      const to = cuts[(c + 1) % cuts.length];
+      const pts: number[] = [];
+      for (let i = from; ; i = (i + 1) % ring.length) {
+        pts.push(ring[i]);
+        if (pts.length > 1 && i === to) break;
+      }
+      refs.push(arcRef(pts));
+    }
+    return refs;
+  });
+
+  const geometries: TopoGeometry[] = features.map((f, i) => {
+    const polys = shapes[i].map((rs) => rs.map((r) => ringArcs[r])).filter((rs) => rs.length);
+    const properties = Object.fromEntries(keep.flatMap((k) => (f.properties?.[k] != null ? [[k, f.properties[k]]] : [])));
+    const base = { ...(ids[i] ? { id: ids[i] as string } : {}), properties };
+    if (!polys.length) return { type: null, ...base };
+    return polys.length === 1 ? { type: "Polygon", arcs: polys[0], ...base } : { type: "MultiPolygon", arcs: polys, ...base };
+  });
+
+  return {
+    type: "Topology",
+    transform: { scale: [kx, ky], translate: [x0, y0] },
+    arcs: arcs.map((pts) => deltaEncode(pts.map((k) => [Math.floor(k / quantization), k % quantization]))),
+    objects: { countries: { type: "GeometryCollection", geometries } },
+  };
+}
+
+function deltaEncode(points: number[][]) {
+  let [px, py] = [0, 0];
+  return points.map(([x, y]) => {
+    const d = [x - px, y - py];
+    [px, py] = [x, y];
+    return d;
+  });
+}
+
+function deltaDecode(arc: number[][]) {
+  let [x, y] = [0, 0];
+  return arc.map(([dx, dy]) => [(x += dx), (y += dy)]);
+}
+
+const segmentDistance = ([x, y]: number[], [ax, ay]: number[], [bx, by]: number[]) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / len2)) : 0;
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+};
+
+// Douglas–Peucker keeping both endpoints; closed arcs keep at least a quadrilateral so
+// islands stay visible as rings.
+function simplifyArc(points: number[][], tolerance: number) {
+  const n = points.length;
+  if (n <= 4) return points;
+  const keep = new Uint8Array(n);
+  keep[0] = keep[n - 1] = 1;
+  const closed = points[0][0] === points[n - 1][0] && points[0][1] === points[n - 1][1];
+  if (closed) keep[Math.floor(n / 3)] = keep[Math.floor((2 * n) / 3)] = 1;
+  const stack: Array<[number, number]> = [];
+  let last = 0;
+  for (let i = 1; i < n; i++) {
+    if (keep[i]) {
+      stack.push([last, i]);
+      last = i;
+    }
+  }
+  for (let span = stack.pop(); span; span = stack.pop()) {
+    const [a, b] = span;
+    let worst = -1;
+    let dist = tolerance;
+    for (let i = a + 1; i < b; i++) {
+      const d = segmentDistance(points[i], points[a], points[b]);
+      if (d > dist) [worst, dist] = [i, d];
+    }
+    if (worst >= 0) {
+      keep[worst] = 1;
+      stack.push([a, worst], [worst, b]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/** A copy of `topology` with every arc simplified to `tolerance` (in degrees). */
+export function simplifyTopology(topology: Topology, tolerance: number): Topology {
+  const [kx, ky] = topology.transform.scale;
+  const units = tolerance / Math.min(kx, ky);
+  return { ...topology, arcs: topology.arcs.map((arc) => deltaEncode(simplifyArc(deltaDecode(arc), units))) };
+}
+
+/**
+ * Countries that share a border, by ISO3: two countries are neighbours when their rings use
+ * the same arc. Simplification keeps every arc, so any resolution gives the same graph.
+ */
+export function topologyNeighbors(topology: Topology): Record<string, string[]> {
+  const byArc = new Map<number, Set<string>>();
+  for (const g of topology.objects.countries.geometries) {
+    if (!g.id || !g.arcs) continue;
+    for (const ref of g.arcs.flat(2)) {
+      const arc = ref < 0 ? ~ref : ref;
+      const owners = byArc.get(arc) ?? new Set<string>();
+      byArc.set(arc, owners.add(g.id));
+    }
+  }
+  const neighbors = new Map<string, Set<string>>();
+  for (const owners of byArc.values()) {
+    for (const a of owners) {
+      for (const b of owners) {
+        if (a !== b) neighbors.set(a, (neighbors.get(a) ?? new Set<string>()).add(b));
+      }
+    }
+  }
+  return Object.fromEntries([...neighbors].map(([iso3, set]) => [iso3, [...set].sort()]));
+}
+
+/** Decodes the countries object back to GeoJSON features (with a bbox each) for d3-geo. */
+export function topologyFeatures(topology: Topology): Array<Feature<Polygon | MultiPolygon, Record<string, unknown>>> {
+  const { scale, translate } = topology.transform;
+  const arcs = topology.arcs.map((arc) =>
+    deltaDecode(arc).map(([x, y]) => [x * scale[0] + translate[0], y * scale[1] + translate[1]]),
+  );
+  const ring = (refs: number[]) => {
+    const out: Position[] = [];
+    for (const ref of refs) {
+      const pts = ref < 0 ? [...arcs[~ref]].reverse() : arcs[ref];
+      out.push(...(out.length ? pts.slice(1) : pts));
+    }
+    return out;
+  };
+  // Simplification can collapse tiny rings; drop them (and polygons without an outer ring).
+  const polygon = (rings: number[][]) => {
+    const rs = rings.map(ring);
+    return rs[0].length >= 4 ? rs.filter((r) => r.length >= 4) : null;
+  };
+
+  const out: Array<Feature<Polygon | MultiPolygon, Record<string, unknown>>> = [];
+  for (const g of topology.objects.countries.geometries) {
+    if (!g.type || !g.arcs) continue;
+    const polys = (g.type === "Polygon" ? [g.arcs as number[][]] : (g.arcs as number[][][]))
+      .map(polygon)
+      .filter((p): p is Position[][] => p != null);
+    if (!polys.length) continue;
+    let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const p of polys) for (const [x, y] of p[0]) [x0, y0, x1, y1] = [Math.min(x0, x), Math.min(y0, y), Math.max(x1, x), Math.max(y1, y)];
+    out.push({
+      type: "Feature",
+      ...(g.id ? { id: g.id } : {}),
+      properties: g.properties ?? {},
+      bbox: [x0, y0, x1, y1],
+      geometry: polys.length === 1 ? { type: "Polygon", coordinates: polys[0] } : { type: "MultiPolygon", coordinates: polys },
+    });
+  }
+  return out;
+}
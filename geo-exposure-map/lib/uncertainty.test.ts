@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_MODEL_CONFIG, type ModelConfig } from "./model-config";
+import { percentileBand, sampleModelConfigs } from "./uncertainty";
+
+const config: ModelConfig = {
+  ...DEFAULT_MODEL_CONFIG,
+  offices: { multiplier: 1.2, countries: ["USA", "GBR", "IND"], weights: { GBR: 1.4, IND: 1 } },
+  uncertainty: { samples: 50, seed: 7, officeMultiplier: [1.1, 1.3], hubPremiumScale: [0.5, 1.5] },
+};
+
+describe("sampleModelConfigs", () => {
+  it("draws nothing without an uncertainty section", () => {
+    assert.deepEqual(sampleModelConfigs({ ...config, uncertainty: undefined }), []);
+  });
+
+  it("repeats the same draws for the same seed", () => {
+    const draws = sampleModelConfigs(config);
+    assert.equal(draws.length, 50);
+    assert.deepEqual(sampleModelConfigs(config), draws);
+    assert.notDeepEqual(sampleModelConfigs({ ...config, uncertainty: { ...config.uncertainty!, seed: 8 } }), draws);
+  });
+
+  it("scales per-country office premiums with the shared office draw", () => {
+    for (const { offices } of sampleModelConfigs(config)) {
+      assert.ok(offices.multiplier >= 1.1 && offices.multiplier <= 1.3, `${offices.multiplier}`);
+      const scale = (offices.multiplier - 1) / 0.2;
+      assert.ok(Math.abs(offices.weights!.GBR - (1 + 0.4 * scale)) < 1e-12);
+      assert.equal(offices.weights!.IND, 1); // no premium to scale
+    }
+  });
+
+  it("holds parameters without a range fixed", () => {
+    for (const draw of sampleModelConfigs(config)) {
+      assert.equal(draw.gdpExponent, config.gdpExponent);
+      assert.deepEqual(draw.factors, config.factors);
+      assert.deepEqual(draw.nearZero, config.nearZero);
+    }
+  });
+});
+
+describe("percentileBand", () => {
+  it("interpolates p10, p50 and p90", () => {
+    assert.deepEqual(percentileBand([10, 0, 5, 1, 4, 3, 2, 6, 8, 7, 9]), { p10: 1, p50: 5, p90: 9 });
+    assert.deepEqual(percentileBand([]), { p10: 0, p50: 0, p90: 0 });
+  });
+});
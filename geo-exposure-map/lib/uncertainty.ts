@@ -0,0 +1,75 @@
+// Monte Carlo over model parameters: draw ModelConfig variants from the ranges in
+// `config.uncertainty` with a fixed seed, so the same config always yields the same bands.
+
+import { FACTOR_NAMES } from "./indicators";
+import type { ModelConfig } from "./model-config";
+
+export type Band = { p10: number; p50: number; p90: number };
+
+// mulberry32: tiny seeded PRNG, identical in Node and the browser.
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Parameter draws for `config`; empty when the config has no uncertainty section. */
+export function sampleModelConfigs(config: ModelConfig): ModelConfig[] {
+  const u = config.uncertainty;
+  if (!u) return [];
+  const rand = mulberry32(u.seed);
+  const draw = (r: [number, number] | undefined, fallback: number) => (r ? r[0] + (r[1] - r[0]) * rand() : fallback);
+
+  const out: ModelConfig[] = [];
+  for (let i = 0; i < u.samples; i++) {
+    const factors = { ...config.factors };
+    for (const name of FACTOR_NAMES) {
+      const f = config.factors[name];
+      factors[name] = {
+        ...f,
+        exponent: draw(u.factorExponents?.[name], f.exponent),
+        clamp: [f.clamp[0], Math.max(f.clamp[0], draw(u.clampMax?.[name], f.clamp[1]))],
+      };
+    }
+    const hubScale = draw(u.hubPremiumScale, 1);
+    const offices: ModelConfig["offices"] = {
+      ...config.offices,
+      multiplier: draw(u.officeMultiplier, config.offices.multiplier),
+    };
+    // Per-country office weights move with the shared multiplier: each override's premium is
+    // scaled as much as the shared premium was.
+    const base = config.offices.multiplier;
+    if (config.offices.weights && base !== 1) {
+      const officeScale = (offices.multiplier - 1) / (base - 1);
+      offices.weights = Object.fromEntries(
+        Object.entries(config.offices.weights).map(([iso, w]) => [iso, 1 + (w - 1) * officeScale]),
+      );
+    }
+    out.push({
+      ...config,
+      gdpExponent: draw(u.gdpExponent, config.gdpExponent),
+      factors,
+      hubs: Object.fromEntries(Object.entries(config.hubs).map(([iso, m]) => [iso, 1 + (m - 1) * hubScale])),
+      offices,
+    });
+  }
+  return out;
+}
+
+function quantile(sorted: number[], q: number) {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function percentileBand(values: number[]): Band {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: quantile(sorted, 0.1), p50: quantile(sorted, 0.5), p90: quantile(sorted, 0.9) };
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_PROFILE, profileByTicker } from "./profiles";
+import { baselineScenario } from "./scenario";
+import { decodeLink, encodeLink } from "./url-state";
+
+const profileFor = (t: string | undefined) => (t ? (profileByTicker(t) ?? null) : DEFAULT_PROFILE);
+const { ticker, segments } = DEFAULT_PROFILE;
+const year = Number(Object.keys(DEFAULT_PROFILE.anchors)[0]);
+const baseline = baselineScenario(DEFAULT_PROFILE);
+
+describe("decodeLink", () => {
+  it("round-trips the state encodeLink writes", () => {
+    const scenario = { ...baseline, name: "Bigger", segmentTotals: { [year]: { [segments[0].id]: 1 } } };
+    const state = { ticker, year, country: "FRA", segment: segments[0].id, scenario };
+    const decoded = decodeLink(encodeLink(state, baseline), profileFor);
+    assert.deepEqual(decoded.issues, []);
+    assert.deepEqual(decoded.state, state);
+  });
+
+  it("drops a year the company has no anchors for", () => {
+    const { state, issues } = decodeLink(`t=${ticker}&y=1999&c=FRA`, profileFor);
+    assert.deepEqual(state, { ticker, country: "FRA" });
+    assert.deepEqual(issues, [`y=1999: ${ticker} reports FY${Object.keys(DEFAULT_PROFILE.anchors).join(", FY")}`]);
+  });
+
+  it("drops an unknown segment", () => {
+    const { state, issues } = decodeLink("seg=MOON", profileFor);
+    assert.deepEqual(state, {});
+    assert.deepEqual(issues, [`seg=MOON: ${ticker} has no such segment`]);
+  });
+
+  it("drops a scenario whose segment totals name a segment or year the profile lacks", () => {
+    const scenario = { ...baseline, name: "Odd", segmentTotals: { [year]: { MOON: 5 }, 1999: { [segments[0].id]: 5 } } };
+    const { state, issues } = decodeLink(encodeLink({ ticker, scenario }, baseline), profileFor);
+    assert.deepEqual(state, { ticker });
+    assert.deepEqual(issues, [
+      `scenario "Odd": segmentTotals.1999: ${ticker} has no FY1999 anchors`,
+      `scenario "Odd": segmentTotals.${year}.MOON: ${ticker} has no such segment`,
+    ]);
+  });
+
+  it("keeps the rest of a link with an unknown ticker", () => {
+    const { state, issues } = decodeLink("t=zzzz&c=fra", profileFor);
+    assert.deepEqual(state, { country: "FRA" });
+    assert.deepEqual(issues, ["t=zzzz: unknown company"]);
+  });
+});
@@ -0,0 +1,233 @@
+// Shareable links: the page's selection, view and scenario in the URL hash. A hash never
+// reaches the server, so links work on the static export under its basePath (GitHub Pages
+// has no routing for query strings either way), and changing it does not reload the page.
+//
+// Keys are short because links get pasted into chat:
+//   t ticker · y fiscal year · c selected country · m metric · cm=segment segment colors
+//   cls / pal / k / br classification, palette, classes and manual breaks · seg drilled segment
+//   p projection · r globe rotation · z zoom · at view centre · method=1 method panel open
+//   sn / s scenario name and its overrides (a JSON merge patch on the published baseline)
+
+import { anchorYears, type CompanyProfile } from "./company-profile";
+import { CLASSIFICATION_MODES, DEFAULT_CLASSIFY, PALETTES, type ClassifyOptions, type PaletteId } from "./classify";
+import { MAP_HEIGHT, MAP_WIDTH, MAX_ZOOM, PROJECTIONS, type ProjectionId, type Rotation } from "./map-view";
+import { METRICS, type MetricId } from "./metrics";
+import { ModelConfigError, parseModelConfig } from "./model-config";
+import { baselineScenario, parseSegmentTotals, type Scenario } from "./scenario";
+import { ISO3, isObj } from "./validation";
+
+/** Everything a link can carry; absent fields keep the page's defaults. */
+export type LinkState = {
+  ticker?: string;
+  year?: number;
+  country?: string; // ISO3 of the selected country
+  metric?: MetricId;
+  segmentColors?: boolean;
+  classify?: Partial<ClassifyOptions>;
+  segment?: string;
+  projection?: ProjectionId;
+  rotation?: Rotation;
+  zoom?: number;
+  center?: [number, number]; // map units, see lib/map-view.ts
+  method?: boolean;
+  scenario?: Scenario;
+};
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+/**
+ * RFC 7386 merge patch turning `base` into `next`; undefined when they are equal. Arrays
+ * are replaced whole, and null deletes a key.
+ */
+export function diffPatch(base: unknown, next: unknown): unknown {
+  if (isObj(base) && isObj(next)) {
+    const patch: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(base), ...Object.keys(next)])) {
+      if (next[key] === undefined) {
+        if (base[key] !== undefined) patch[key] = null;
+        continue;
+      }
+      const d = diffPatch(base[key], next[key]);
+      if (d !== undefined) patch[key] = d;
+    }
+    return Object.keys(patch).length ? patch : undefined;
+  }
+  return JSON.stringify(base) === JSON.stringify(next) ? undefined : next;
+}
+
+export function applyPatch(base: unknown, patch: unknown): unknown {
+  if (!isObj(patch)) return patch;
+  const out: Record<string, unknown> = isObj(base) ? { ...base } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete out[key];
+    else out[key] = applyPatch(out[key], value);
+  }
+  return out;
+}
+
+// base64url of UTF-8 JSON, so scenario patches survive chat clients that mangle brackets.
+function toBase64Url(value: unknown) {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(JSON.stringify(value))) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): unknown {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0))));
+}
+
+/** The hash (without "#") for `state`; default values are left out. */
+export function encodeLink(state: LinkState, baseline: Scenario | null): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  };
+  set("t", state.ticker);
+  set("y", state.year);
+  set("c", state.country);
+  if (state.metric !== "share") set("m", state.metric);
+  if (state.segmentColors) set("cm", "segment");
+  const cls = state.classify ?? {};
+  if (cls.mode !== DEFAULT_CLASSIFY.mode) set("cls", cls.mode);
+  if (cls.palette !== DEFAULT_CLASSIFY.palette) set("pal", cls.palette);
+  if (cls.classes !== DEFAULT_CLASSIFY.classes) set("k", cls.classes);
+  if (cls.mode === "manual" && cls.manualBreaks?.length) set("br", cls.manualBreaks.map((b) => Number(b.toPrecision(4))).join(","));
+  set("seg", state.segment);
+  if (state.projection !== "naturalEarth") set("p", state.projection);
+  if (state.projection === "orthographic" && state.rotation) set("r", state.rotation.map((v) => round(v, 1)).join(","));
+  if (state.zoom && state.zoom > 1.001) {
+    set("z", round(state.zoom, 2));
+    if (state.center) set("at", state.center.map((v) => round(v, 1)).join(","));
+  }
+  if (state.method) set("method", 1);
+  if (state.scenario && baseline) {
+    set("sn", state.scenario.name);
+    const patch = diffPatch(
+      { config: baseline.config, segmentTotals: baseline.segmentTotals },
+      { config: state.scenario.config, segmentTotals: state.scenario.segmentTotals },
+    );
+    if (patch !== undefined) set("s", toBase64Url(patch));
+  }
+  return params.toString();
+}
+
+function numbers(text: string | null, count: number) {
+  const values = (text ?? "").split(",").map(Number);
+  return values.length === count && values.every(Number.isFinite) ? values : null;
+}
+
+/**
+ * Reads a link's hash. Unknown tickers, years and segments the company does not report,
+ * out-of-range numbers and unreadable scenarios are dropped and listed in `issues`; the
+ * rest of the link still applies. `profileFor` gives a company's profile (the default
+ * company's for no ticker), or null when the ticker is unknown; scenario patches apply to
+ * its published baseline.
+ */
+export function decodeLink(
+  hash: string,
+  profileFor: (ticker: string | undefined) => CompanyProfile | null,
+): { state: LinkState; issues: string[] } {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: LinkState = {};
+  const issues: string[] = [];
+  const bad = (key: string, why: string) => issues.push(`${key}=${params.get(key)}: ${why}`);
+
+  if (params.has("t")) {
+    const ticker = params.get("t")?.toUpperCase();
+    if (profileFor(ticker)) state.ticker = ticker;
+    else bad("t", "unknown company");
+  }
+  const profile = profileFor(state.ticker);
+  if (params.has("y")) {
+    const year = Number(params.get("y"));
+    const years = profile ? anchorYears(profile) : [];
+    if (!Number.isInteger(year)) bad("y", "not a year");
+    else if (profile && !years.includes(year)) bad("y", `${profile.ticker} reports FY${years.join(", FY")}`);
+    else state.year = year;
+  }
+  if (params.has("c")) {
+    const iso = params.get("c")?.toUpperCase() ?? "";
+    if (ISO3.test(iso)) state.country = iso;
+    else bad("c", "not an ISO3 code");
+  }
+  if (params.has("m")) {
+    const metric = METRICS.find((m) => m.id === params.get("m"));
+    if (metric) state.metric = metric.id;
+    else bad("m", `expected one of ${METRICS.map((m) => m.id).join(", ")}`);
+  }
+  if (params.get("cm") === "segment") state.segmentColors = true;
+
+  const cls: Partial<ClassifyOptions> = {};
+  if (params.has("cls")) {
+    const mode = CLASSIFICATION_MODES.find((m) => m.id === params.get("cls"));
+    if (mode) cls.mode = mode.id;
+    else bad("cls", "unknown classification");
+  }
+  if (params.has("pal")) {
+    const palette = params.get("pal") ?? "";
+    if (palette in PALETTES) cls.palette = palette as PaletteId;
+    else bad("pal", "unknown palette");
+  }
+  if (params.has("k")) {
+    const k = Number(params.get("k"));
+    if (Number.isInteger(k) && k >= 3 && k <= 7) cls.classes = k;
+    else bad("k", "expected 3 to 7 classes");
+  }
+  if (params.has("br")) {
+    const breaks = (params.get("br") ?? "").split(",").map(Number);
+    if (breaks.every((b, i) => b > 0 && (i === 0 || b > breaks[i - 1]))) cls.manualBreaks = breaks;
+    else bad("br", "expected increasing positive breaks");
+  }
+  if (Object.keys(cls).length) state.classify = cls;
+
+  if (params.has("seg")) {
+    const segment = params.get("seg") ?? "";
+    if (profile?.segments.some((seg) => seg.id === segment)) state.segment = segment;
+    else bad("seg", `${profile?.ticker ?? "the company"} has no such segment`);
+  }
+  if (params.has("p")) {
+    const projection = PROJECTIONS.find((p) => p.id === params.get("p"));
+    if (projection) state.projection = projection.id;
+    else bad("p", "unknown projection");
+  }
+  if (params.has("r")) {
+    const r = numbers(params.get("r"), 2);
+    if (r && Math.abs(r[1]) <= 90) state.rotation = [r[0], r[1]];
+    else bad("r", "expected longitude,latitude");
+  }
+  if (params.has("z")) {
+    const zoom = Number(params.get("z"));
+    const at = numbers(params.get("at"), 2);
+    if (!(zoom >= 1 && zoom <= MAX_ZOOM)) bad("z", `expected a zoom from 1 to ${MAX_ZOOM}`);
+    else if (at && (at[0] < 0 || at[0] > MAP_WIDTH || at[1] < 0 || at[1] > MAP_HEIGHT)) bad("at", "outside the map");
+    else {
+      state.zoom = zoom;
+      state.center = at ? [at[0], at[1]] : [MAP_WIDTH / 2, MAP_HEIGHT / 2];
+    }
+  }
+  if (params.get("method") === "1") state.method = true;
+
+  if (params.has("sn") || params.has("s")) {
+    const name = params.get("sn") || "Shared link";
+    if (!profile) issues.push(`scenario "${name}": no company to apply it to`);
+    else {
+      try {
+        const baseline = baselineScenario(profile);
+        const patch = params.has("s") ? fromBase64Url(params.get("s") ?? "") : {};
+        const merged = applyPatch({ config: baseline.config, segmentTotals: baseline.segmentTotals }, patch);
+        const raw = isObj(merged) ? merged : {};
+        const totalIssues: string[] = [];
+        const segmentTotals = parseSegmentTotals(raw.segmentTotals ?? {}, totalIssues, profile);
+        const config = parseModelConfig(raw.config, `link scenario ${name}`);
+        if (totalIssues.length) issues.push(...totalIssues.map((i) => `scenario "${name}": ${i}`));
+        else state.scenario = { name, ticker: baseline.ticker, config, segmentTotals };
+      } catch (e) {
+        if (e instanceof ModelConfigError) issues.push(...e.issues.map((i) => `scenario "${name}": ${i}`));
+        else if (e instanceof SyntaxError || e instanceof DOMException) issues.push(`scenario "${name}": unreadable overrides`);
+        else throw e;
+      }
+    }
+  }
+  return { state, issues };
+}
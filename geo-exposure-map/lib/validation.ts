@@ -0,0 +1,83 @@
+// Small helpers for validating hand-edited JSON/YAML inputs (model configs, company
+// profiles). Each check appends a path-qualified message to `issues` instead of
+// throwing, so callers can report every problem at once.
+
+export type Obj = Record<string, unknown>;
+
+export const ISO3 = /^[A-Z]{3}$/;
+
+export const describe = (v: unknown) => (v === undefined ? "nothing" : JSON.stringify(v));
+export const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export function checkKeys(o: Obj, path: string, allowed: string[], issues: string[]) {
+  for (const k of Object.keys(o)) {
+    if (!allowed.includes(k)) issues.push(`${path ? `${path}.` : ""}${k}: unknown key`);
+  }
+}
+
+export function num(
+  v: unknown,
+  path: string,
+  issues: string[],
+  opts: { min?: number; positive?: boolean; integer?: boolean } = {},
+): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    issues.push(`${path}: expected a finite number, got ${describe(v)}`);
+    return NaN;
+  }
+  if (opts.integer && !Number.isInteger(v)) issues.push(`${path}: must be an integer, got ${v}`);
+  if (opts.positive && v <= 0) issues.push(`${path}: must be > 0, got ${v}`);
+  if (opts.min != null && v < opts.min) issues.push(`${path}: must be >= ${opts.min}, got ${v}`);
+  return v;
+}
+
+/** A `[lo, hi]` pair with lo <= hi. */
+export function range(v: unknown, path: string, issues: string[], opts: { min?: number } = {}): [number, number] {
+  if (!Array.isArray(v) || v.length !== 2) {
+    issues.push(`${path}: expected [lo, hi], got ${describe(v)}`);
+    return [NaN, NaN];
+  }
+  const lo = num(v[0], `${path}[0]`, issues, opts);
+  const hi = num(v[1], `${path}[1]`, issues, opts);
+  if (lo > hi) issues.push(`${path}: lo ${lo} exceeds hi ${hi}`);
+  return [lo, hi];
+}
+
+export function str(v: unknown, path: string, issues: string[]): string {
+  if (typeof v !== "string" || !v.trim()) {
+    issues.push(`${path}: expected a non-empty string, got ${describe(v)}`);
+    return "";
+  }
+  return v;
+}
+
+export function obj(v: unknown, path: string, issues: string[]): Obj {
+  if (!isObj(v)) {
+    issues.push(`${path}: expected an object, got ${describe(v)}`);
+    return {};
+  }
+  return v;
+}
+
+export function strList(v: unknown, path: string, issues: string[]): string[] {
+  if (!Array.isArray(v)) {
+    issues.push(`${path}: expected an array of strings, got ${describe(v)}`);
+    return [];
+  }
+  v.forEach((s, i) => {
+    if (typeof s !== "string" || !s.trim()) issues.push(`${path}[${i}]: expected a non-empty string, got ${describe(s)}`);
+  });
+  return v as string[];
+}
+
+export function isoList(v: unknown, path: string, issues: string[]): string[] {
+  if (!Array.isArray(v)) {
+    issues.push(`${path}: expected an array of ISO3 codes, got ${describe(v)}`);
+    return [];
+  }
+  v.forEach((iso, i) => {
+    if (typeof iso !== "string" || !ISO3.test(iso)) issues.push(`${path}[${i}]: expected an ISO3 code, got ${describe(iso)}`);
+  });
+  if (new Set(v).size !== v.length) issues.push(`${path}: contains duplicate codes`);
+  return v as string[];
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkComplete, mergeWorldBankPages, parseWorldBankPage, WorldBankError, type WorldBankPage } from "./world-bank";
+
+const row = (iso3: string, value: number | null = 1) => ({ countryiso3code: iso3, date: "2024", value });
+const meta = (page: number, pages: number, total: number, perPage = 2) => ({ page, pages, per_page: perPage, total });
+
+// The issues parseWorldBankPage reports for `raw`, or [] when it parses.
+function issuesOf(raw: unknown) {
+  try {
+    parseWorldBankPage(raw, "test");
+    return [];
+  } catch (e) {
+    assert.ok(e instanceof WorldBankError);
+    return e.issues;
+  }
+}
+
+describe("parseWorldBankPage", () => {
+  it("reads meta counts serialized as strings and an empty result's null rows", () => {
+    const page = parseWorldBankPage([{ page: 1, pages: 1, per_page: "20000", total: 2 }, [row("USA"), row("FRA", null)]], "test");
+    assert.deepEqual(page.meta, { page: 1, pages: 1, per_page: 20000, total: 2 });
+    assert.deepEqual(page.rows, [row("USA"), row("FRA", null)]);
+    assert.deepEqual(parseWorldBankPage([meta(1, 0, 0), null], "test").rows, []);
+  });
+
+  it("reports the API's error message", () => {
+    const error = { id: "120", key: "Invalid value", value: "The provided parameter value is not valid" };
+    assert.deepEqual(issuesOf([{ message: [error] }]), ["API error Invalid value: The provided parameter value is not valid"]);
+  });
+
+  it("rejects documents that are not [meta, rows]", () => {
+    assert.deepEqual(issuesOf({ error: "rate limited" }), ['expected [meta, rows], got {"error":"rate limited"}']);
+    assert.deepEqual(issuesOf([meta(1, 1, 1), "rows"]), ['rows: expected an array, got "rows"']);
+  });
+
+  it("lists the first malformed rows and counts the rest", () => {
+    const bad = Array.from({ length: 7 }, (_, i) => ({ countryiso3code: `X${i}`, date: 2024, value: 1 }));
+    const issues = issuesOf([meta(1, 1, 8, 20), [row("USA"), ...bad]]);
+    assert.equal(issues.length, 6);
+    assert.match(issues[0], /^rows\[1\]: expected \{ countryiso3code, date, value \}/);
+    assert.equal(issues[5], "... and 2 more malformed rows");
+  });
+
+  it("rejects bad meta counts and a page past the last", () => {
+    assert.deepEqual(issuesOf([{ page: 3, pages: 2, per_page: -1, total: 1.5 }, []]), [
+      "meta.per_page: expected a non-negative integer, got -1",
+      "meta.total: expected a non-negative integer, got 1.5",
+      "meta.page: 3 is past meta.pages 2",
+    ]);
+  });
+});
+
+describe("checkComplete", () => {
+  const complete: WorldBankPage = { meta: meta(1, 1, 2), rows: [row("USA"), row("FRA")] };
+
+  it("accepts a single page holding every row", () => {
+    checkComplete(complete, "test");
+  });
+
+  it("rejects a first page of several and a short read", () => {
+    const expected = [
+      "meta.pages: 2 pages, but only one was read",
+      "meta.total: 3 exceeds meta.per_page 2",
+      "rows: 2 rows but meta.total is 3",
+    ];
+    assert.throws(
+      () => checkComplete({ meta: meta(1, 2, 3), rows: [row("USA"), row("FRA")] }, "test"),
+      (e) => e instanceof WorldBankError && e.issues.join("\n") === expected.join("\n"),
+    );
+    assert.throws(() => checkComplete({ ...complete, rows: [row("USA")] }, "test"), /rows: 1 rows but meta.total is 2/);
+  });
+});
+
+describe("mergeWorldBankPages", () => {
+  it("concatenates pages into one complete page", () => {
+    const merged = mergeWorldBankPages([
+      { meta: meta(1, 2, 3), rows: [row("USA"), row("FRA")] },
+      { meta: meta(2, 2, 3), rows: [row("DEU")] },
+    ]);
+    assert.deepEqual(merged.meta, { page: 1, pages: 1, per_page: 3, total: 3 });
+    assert.deepEqual(merged.rows.map((r) => r.countryiso3code), ["USA", "FRA", "DEU"]);
+    checkComplete(merged, "merged");
+  });
+
+  it("keeps the first page's total, so a missing page still fails the completeness check", () => {
+    const merged = mergeWorldBankPages([
+      { meta: meta(1, 3, 5), rows: [row("USA"), row("FRA")] },
+      { meta: meta(2, 3, 5), rows: [row("DEU")] },
+    ]);
+    assert.throws(() => checkComplete(merged, "merged"), /rows: 3 rows but meta.total is 5/);
+  });
+});
@@ -0,0 +1,95 @@
+// World Bank API v2 indicator responses. A success is `[meta, rows]`; an error is
+// `[{ message: [...] }]`, still with HTTP 200. Everything is checked here before the core
+// reads a value, so a truncated or malformed response fails loudly instead of silently
+// allocating on partial data.
+
+import { describe, isObj } from "./validation";
+
+export type WorldBankMeta = { page: number; pages: number; per_page: number; total: number };
+
+export type WorldBankDatum = { countryiso3code: string; date: string; value: number | null };
+
+export type WorldBankPage = { meta: WorldBankMeta; rows: WorldBankDatum[] };
+
+export class WorldBankError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`invalid World Bank response ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "WorldBankError";
+    this.issues = issues;
+  }
+}
+
+const MAX_ROW_ISSUES = 5;
+
+// The API serializes some meta fields as numeric strings (e.g. "per_page": "20000").
+function count(v: unknown, path: string, issues: string[]) {
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0) {
+    issues.push(`${path}: expected a non-negative integer, got ${describe(v)}`);
+    return NaN;
+  }
+  return n;
+}
+
+/** Validates one page of an indicator response; throws WorldBankError listing every problem. */
+export function parseWorldBankPage(raw: unknown, source: string): WorldBankPage {
+  const issues: string[] = [];
+  if (Array.isArray(raw) && raw.length === 1 && isObj(raw[0]) && Array.isArray(raw[0].message)) {
+    const messages = raw[0].message.map((m) => (isObj(m) ? `${m.key ?? ""}: ${m.value ?? ""}` : describe(m)));
+    throw new WorldBankError(source, [`API error ${messages.join("; ")}`]);
+  }
+  if (!Array.isArray(raw) || raw.length !== 2 || !isObj(raw[0])) {
+    throw new WorldBankError(source, [`expected [meta, rows], got ${describe(raw).slice(0, 120)}`]);
+  }
+  const [m, data] = raw;
+  const meta: WorldBankMeta = {
+    page: count(m.page, "meta.page", issues),
+    pages: count(m.pages, "meta.pages", issues),
+    per_page: count(m.per_page, "meta.per_page", issues),
+    total: count(m.total, "meta.total", issues),
+  };
+  // An empty result carries `null` instead of a row array.
+  if (data !== null && !Array.isArray(data)) issues.push(`rows: expected an array, got ${describe(data).slice(0, 120)}`);
+
+  const rows: WorldBankDatum[] = [];
+  let bad = 0;
+  for (const [i, r] of (Array.isArray(data) ? data : []).entries()) {
+    const ok =
+      isObj(r) &&
+      typeof r.countryiso3code === "string" &&
+      typeof r.date === "string" &&
+      (r.value === null || (typeof r.value === "number" && Number.isFinite(r.value)));
+    if (ok) {
+      rows.push({ countryiso3code: r.countryiso3code as string, date: r.date as string, value: r.value as number | null });
+    } else if (++bad <= MAX_ROW_ISSUES) {
+      issues.push(`rows[${i}]: expected { countryiso3code, date, value }, got ${describe(r).slice(0, 120)}`);
+    }
+  }
+  if (bad > MAX_ROW_ISSUES) issues.push(`... and ${bad - MAX_ROW_ISSUES} more malformed rows`);
+  if (Number.isFinite(meta.page) && Number.isFinite(meta.pages) && meta.pages > 0 && meta.page > meta.pages) {
+    issues.push(`meta.page: ${meta.page} is past meta.pages ${meta.pages}`);
+  }
+  if (issues.length) throw new WorldBankError(source, issues);
+  return { meta, rows };
+}
+
+/**
+ * Checks that a (possibly merged) response holds the whole result: a single page whose
+ * `total` fits within `per_page` and whose row count equals `total`.
+ */
+export function checkComplete({ meta, rows }: WorldBankPage, source: string) {
+  const issues: string[] = [];
+  if (meta.pages > 1) issues.push(`meta.pages: ${meta.pages} pages, but only one was read`);
+  if (meta.total > meta.per_page) issues.push(`meta.total: ${meta.total} exceeds meta.per_page ${meta.per_page}`);
+  if (rows.length !== meta.total) issues.push(`rows: ${rows.length} rows but meta.total is ${meta.total}`);
+  if (issues.length) throw new WorldBankError(source, issues);
+}
+
+/** Concatenates pages 1..n into one single-page response with the same total. */
+export function mergeWorldBankPages(pages: WorldBankPage[]): WorldBankPage {
+  const rows = pages.flatMap((p) => p.rows);
+  const total = pages[0]?.meta.total ?? rows.length;
+  return { meta: { page: 1, pages: 1, per_page: Math.max(total, rows.length), total }, rows };
+}
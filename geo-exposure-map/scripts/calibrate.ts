@@ -0,0 +1,150 @@
+// Fits the model's exponents, hub premiums and office multiplier to companies that report
+// country-level revenue, and writes the result as a model config that --config (and
+// EXPOSURE_MODEL_CONFIG) load like any other variant. The fit report goes to stderr.
+//
+//   npm run calibrate -- --dataset <file> [options]
+//
+//   --dataset <file>           companies with segment anchors and reported country revenue (JSON or YAML)
+//   --out <file>               fitted model config (JSON); default: stdout
+//   --report <file>            also write the parameters and metrics as JSON
+//   --config <file>            starting model; default: config/models/baseline.json
+//   --holdout <share|T1,T2>    held-out share of companies (0-1) or tickers; default 0.25
+//   --name <name>              name of the fitted model; default: <starting model>-calibrated
+//   --max-evaluations <N>      search budget; default 2000
+//   --snapshot <dir>           replay a recorded snapshot instead of fetching over HTTP
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import {
+  calibrate,
+  CalibrationError,
+  checkCalibrationDataset,
+  parseCalibrationDataset,
+  type CalibrationMetrics,
+  type CalibrationResult,
+} from "../lib/calibration";
+import { httpProvider } from "../lib/data-provider";
+import { INDICATOR_LOOKBACK_YEARS, loadExposureInputs } from "../lib/exposure-core";
+import { DEFAULT_MODEL_CONFIG } from "../lib/model-config";
+import { loadModelConfig } from "../lib/model-config-loader";
+import { snapshotProvider } from "../lib/snapshot-provider";
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function takeFlag(args: string[], flag: string): string | undefined {
+  const at = args.indexOf(flag);
+  if (at < 0) return undefined;
+  const value = args[at + 1];
+  if (value === undefined || value.startsWith("--")) throw new UsageError(`${flag} needs a value`);
+  return args.splice(at, 2)[1];
+}
+
+function parseHoldout(v: string | undefined): string[] | number | undefined {
+  if (v === undefined) return undefined;
+  const share = Number(v);
+  if (Number.isFinite(share)) {
+    if (share < 0 || share >= 1) throw new UsageError(`--holdout share must be in [0, 1), got ${v}`);
+    return share;
+  }
+  return v
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+async function loadDataset(file: string) {
+  const text = await readFile(file, "utf8");
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new CalibrationError(file, [`could not parse file: ${err instanceof Error ? err.message : String(err)}`]);
+  }
+  return parseCalibrationDataset(raw, file);
+}
+
+const fmt = (v: number | null, digits: number) => (v === null ? "n/a" : v.toFixed(digits));
+
+function metricsLine(label: string, m: CalibrationMetrics) {
+  return [
+    label.padEnd(18),
+    fmt(m.mae, 2).padStart(12),
+    (m.mape === null ? "n/a" : `${(m.mape * 100).toFixed(1)}%`).padStart(9),
+    fmt(m.spearman, 3).padStart(9),
+    `${(m.shareError * 100).toFixed(2)}%`.padStart(12),
+    String(m.points).padStart(7),
+  ].join(" ");
+}
+
+function printReport(result: CalibrationResult) {
+  const lines = ["parameter              start   fitted"];
+  for (const p of result.parameters) {
+    lines.push(`${p.name.padEnd(20)} ${p.before.toFixed(4).padStart(7)} ${p.after.toFixed(4).padStart(8)}`);
+  }
+  lines.push("", `${"".padEnd(18)} ${"MAE (USD M)".padStart(12)} ${"MAPE".padStart(9)} ${"Spearman".padStart(9)} ${"share error".padStart(12)} ${"points".padStart(7)}`);
+  lines.push(metricsLine("train, start", result.train.baseline), metricsLine("train, fitted", result.train.fitted));
+  if (result.holdout) {
+    lines.push(metricsLine("held out, start", result.holdout.baseline), metricsLine("held out, fitted", result.holdout.fitted));
+  }
+  lines.push(
+    "",
+    `fitted on ${result.train.tickers.join(", ")}`,
+    result.holdout ? `held out ${result.holdout.tickers.join(", ")}` : "no held-out companies; metrics are in-sample only",
+    `${result.evaluations} evaluations`,
+  );
+  console.error(lines.join("\n"));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const datasetFile = takeFlag(args, "--dataset");
+  const out = takeFlag(args, "--out");
+  const reportFile = takeFlag(args, "--report");
+  const configFile = takeFlag(args, "--config");
+  const holdout = parseHoldout(takeFlag(args, "--holdout"));
+  const name = takeFlag(args, "--name");
+  const maxFlag = takeFlag(args, "--max-evaluations");
+  const snapshotDir = takeFlag(args, "--snapshot");
+  if (args.length) throw new UsageError(`unexpected arguments: ${args.join(" ")}`);
+  if (!datasetFile) throw new UsageError("--dataset <file> is required");
+  const maxEvaluations = maxFlag === undefined ? undefined : Number(maxFlag);
+  if (maxEvaluations !== undefined && !(Number.isInteger(maxEvaluations) && maxEvaluations > 0)) {
+    throw new UsageError(`--max-evaluations expects a positive integer, got ${maxFlag}`);
+  }
+
+  const dataset = await loadDataset(datasetFile);
+  const base = configFile ? await loadModelConfig(configFile) : DEFAULT_MODEL_CONFIG;
+  const years = dataset.companies.flatMap((c) => Object.keys(c.countryRevenue).map(Number));
+  const window = { from: Math.min(...years) - INDICATOR_LOOKBACK_YEARS, to: Math.max(...years) };
+  const provider = snapshotDir ? snapshotProvider(snapshotDir) : httpProvider();
+  const inputs = await loadExposureInputs(provider, window);
+  for (const d of inputs.degraded) {
+    console.error(`warning: ${d.label} (${d.indicator}) unavailable${d.factor ? `; the ${d.factor} factor was dropped` : ""}`);
+  }
+  checkCalibrationDataset(dataset, inputs, datasetFile);
+
+  const result = calibrate(inputs, dataset, { base, holdout, name, maxEvaluations, source: datasetFile });
+  printReport(result);
+
+  const body = `${JSON.stringify(result.config, null, 2)}\n`;
+  if (out) {
+    await writeFile(out, body);
+    console.error(`wrote ${result.config.name} to ${out}`);
+  } else {
+    process.stdout.write(body);
+  }
+  if (reportFile) {
+    const { parameters, train, holdout: held, evaluations } = result;
+    await writeFile(reportFile, `${JSON.stringify({ parameters, train, holdout: held, evaluations }, null, 2)}\n`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+});
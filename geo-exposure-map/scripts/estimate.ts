@@ -0,0 +1,160 @@
+// Command-line estimator: runs buildExposureData (the same code path as the web app) and
+// writes the per-country allocation as CSV, JSON, NDJSON or XLSX.
+//
+//   npm run estimate -- [options]
+//
+//   --format <csv|json|ndjson|xlsx>  default: from the --out extension, else csv
+//   --out <file>                     default: stdout (required for xlsx)
+//   --year <YYYY>                    allocated fiscal year; default: the profile's headline year
+//   --segment <id,...>               keep only these segments
+//   --region <name,...>              keep only these UN regions
+//   --sort <col[:asc|desc],...>      any output column; default: segment, then revenue descending
+//   --top <N>                        keep the first N rows after sorting (sorts by revenue if --sort is absent)
+//   --config <file>                  model variant (see config/models/)
+//   --profile <ticker>               company profile; default: the default profile
+//   --snapshot <dir>                 replay a recorded snapshot instead of fetching over HTTP
+
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { httpProvider } from "../lib/data-provider";
+import { buildExposureData } from "../lib/exposure-core";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportRows,
+  serializeRows,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportRow,
+} from "../lib/export";
+import { loadModelConfig } from "../lib/model-config-loader";
+import { DEFAULT_PROFILE, profileByTicker } from "../lib/profiles";
+import { snapshotProvider } from "../lib/snapshot-provider";
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type SortKey = { column: ExportColumn; desc: boolean };
+
+function takeFlag(args: string[], flag: string): string | undefined {
+  const at = args.indexOf(flag);
+  if (at < 0) return undefined;
+  const value = args[at + 1];
+  if (value === undefined || value.startsWith("--")) throw new UsageError(`${flag} needs a value`);
+  return args.splice(at, 2)[1];
+}
+
+const list = (v: string | undefined) =>
+  v
+    ?.split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+function parseFormat(format: string | undefined, out: string | undefined): ExportFormat {
+  const f = format ?? (out ? path.extname(out).slice(1).toLowerCase() : "csv");
+  if (!(EXPORT_FORMATS as string[]).includes(f)) {
+    throw new UsageError(`unknown format ${JSON.stringify(f)}; use one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+  return f as ExportFormat;
+}
+
+function parseSort(spec: string[]): SortKey[] {
+  return spec.map((s) => {
+    const [column, dir = "asc"] = s.split(":");
+    if (!(EXPORT_COLUMNS as string[]).includes(column)) {
+      throw new UsageError(`unknown sort column ${JSON.stringify(column)}; use one of ${EXPORT_COLUMNS.join(", ")}`);
+    }
+    if (dir !== "asc" && dir !== "desc") throw new UsageError(`sort direction must be asc or desc, got ${dir}`);
+    return { column: column as ExportColumn, desc: dir === "desc" };
+  });
+}
+
+function parseCount(v: string, flag: string) {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n <= 0) throw new UsageError(`${flag} expects a positive integer, got ${v}`);
+  return n;
+}
+
+// Nulls sort last in either direction.
+function compareRows(keys: SortKey[]) {
+  return (a: ExportRow, b: ExportRow) => {
+    for (const { column, desc } of keys) {
+      const x = a[column];
+      const y = b[column];
+      if (x === y) continue;
+      if (x == null) return 1;
+      if (y == null) return -1;
+      const c = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+      if (c) return desc ? -c : c;
+    }
+    return 0;
+  };
+}
+
+function checkKnown(values: string[], known: Set<string>, what: string) {
+  const unknown = values.filter((v) => !known.has(v));
+  if (unknown.length) {
+    throw new UsageError(`unknown ${what} ${unknown.join(", ")}; available: ${[...known].sort().join(", ")}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const out = takeFlag(args, "--out");
+  const format = parseFormat(takeFlag(args, "--format"), out);
+  const yearFlag = takeFlag(args, "--year");
+  const segments = list(takeFlag(args, "--segment"));
+  const regions = list(takeFlag(args, "--region"));
+  const sortFlag = list(takeFlag(args, "--sort"));
+  const topFlag = takeFlag(args, "--top");
+  const configFile = takeFlag(args, "--config");
+  const ticker = takeFlag(args, "--profile");
+  const snapshotDir = takeFlag(args, "--snapshot");
+  if (args.length) throw new UsageError(`unexpected arguments: ${args.join(" ")}`);
+  if (format === "xlsx" && !out) throw new UsageError("xlsx output needs --out <file>");
+
+  const top = topFlag ? parseCount(topFlag, "--top") : undefined;
+  const sort = sortFlag ? parseSort(sortFlag) : top ? parseSort(["revenue_usd_millions_est:desc"]) : [];
+
+  const profile = ticker ? profileByTicker(ticker) : DEFAULT_PROFILE;
+  if (!profile) throw new UsageError(`unknown profile ${ticker}`);
+  const config = configFile ? await loadModelConfig(configFile) : undefined;
+  const provider = snapshotDir ? snapshotProvider(snapshotDir) : httpProvider();
+  const payload = await buildExposureData({ provider, config, profile });
+  const { unassigned } = payload.meta.coverage;
+  if (unassigned.length) {
+    console.error(`warning: ${unassigned.length} countries match no segment: ${unassigned.map((c) => c.iso3).join(", ")}`);
+  }
+  for (const d of payload.meta.degraded) {
+    console.error(`warning: ${d.label} (${d.indicator}) unavailable${d.factor ? `; the ${d.factor} factor was dropped` : ""}`);
+  }
+
+  let rows = exportRows(payload, yearFlag ? parseCount(yearFlag, "--year") : undefined);
+  if (segments) {
+    checkKnown(segments, new Set(profile.segments.map((s) => s.id)), "segment");
+    rows = rows.filter((r) => segments.includes(r.segment));
+  }
+  if (regions) {
+    checkKnown(regions, new Set(payload.countryDetails.map((d) => d.region).filter(Boolean)), "region");
+    rows = rows.filter((r) => regions.includes(r.region));
+  }
+  if (sort.length) rows.sort(compareRows(sort));
+  if (top) rows = rows.slice(0, top);
+
+  const body = serializeRows(rows, format);
+  if (out) {
+    await writeFile(out, body);
+    console.error(`wrote ${rows.length} rows to ${out}`);
+  } else {
+    process.stdout.write(body);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+});
@@ -0,0 +1,53 @@
+// Precomputes the static-export data artifacts (see lib/artifacts.ts) into public/data.
+// Runs before `next build`; the page then makes no third-party requests at runtime.
+//
+//   npm run precompute -- [--out <dir>] [--snapshot <dir>] [--config <file>]
+//
+// EXPOSURE_SNAPSHOT_DIR and EXPOSURE_MODEL_CONFIG are honoured when the flags are absent,
+// so CI can build from a recorded snapshot or a model variant.
+
+import path from "node:path";
+import { writeArtifacts } from "../lib/artifact-store";
+import { ARTIFACT_DIR } from "../lib/artifacts";
+import { httpProvider } from "../lib/data-provider";
+import { loadModelConfig } from "../lib/model-config-loader";
+import { PROFILES } from "../lib/profiles";
+import { snapshotProvider } from "../lib/snapshot-provider";
+
+function takeFlag(args: string[], flag: string): string | undefined {
+  const at = args.indexOf(flag);
+  return at >= 0 ? args.splice(at, 2)[1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const out = takeFlag(args, "--out") ?? path.join("public", ARTIFACT_DIR);
+  const snapshotDir = takeFlag(args, "--snapshot") ?? process.env.EXPOSURE_SNAPSHOT_DIR;
+  const configFile = takeFlag(args, "--config") ?? process.env.EXPOSURE_MODEL_CONFIG;
+  if (args.length) {
+    console.error(`unexpected arguments: ${args.join(" ")}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const started = Date.now();
+  const manifest = await writeArtifacts(out, {
+    provider: snapshotDir ? snapshotProvider(snapshotDir) : httpProvider(),
+    config: configFile ? await loadModelConfig(configFile) : undefined,
+    profiles: PROFILES,
+    onDegraded: (degraded) => {
+      for (const d of degraded) {
+        console.error(`warning: ${d.label} (${d.indicator}) unavailable${d.factor ? `; the ${d.factor} factor was dropped` : ""}`);
+      }
+    },
+  });
+  const profiles = Object.keys(manifest.profiles).join(", ");
+  console.log(
+    `wrote artifacts for ${profiles} and ${manifest.geometry.length} geometry resolutions to ${out} in ${Date.now() - started}ms`,
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
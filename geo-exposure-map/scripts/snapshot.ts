@@ -0,0 +1,76 @@
+// Record or replay an offline data snapshot for buildExposureData.
+//
+//   npm run snapshot -- record <dir>   fetch everything over HTTP and store it in <dir>
+//   npm run snapshot -- replay <dir>   rebuild the payload from <dir> without network access
+//
+// Both accept --config <file> to run a model variant (see config/models/) and
+// --profile <ticker> to allocate a company other than the default profile.
+//
+// `record` also writes <dir>/payload.json; `replay` rebuilds it and reports whether the
+// output is byte-identical.
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { httpProvider } from "../lib/data-provider";
+import { buildExposureData } from "../lib/exposure-core";
+import type { CompanyProfile } from "../lib/company-profile";
+import type { ModelConfig } from "../lib/model-config";
+import { loadModelConfig } from "../lib/model-config-loader";
+import { DEFAULT_PROFILE, profileByTicker } from "../lib/profiles";
+import { recordingProvider, snapshotProvider } from "../lib/snapshot-provider";
+
+const PAYLOAD = "payload.json";
+
+const serialize = (payload: unknown) => `${JSON.stringify(payload)}\n`;
+
+type RunOptions = { config?: ModelConfig; profile: CompanyProfile };
+
+async function record(dir: string, { config, profile }: RunOptions) {
+  const provider = recordingProvider(httpProvider(), dir);
+  const payload = await buildExposureData({ provider, config, profile });
+  const manifest = await provider.finalize();
+  await writeFile(path.join(dir, PAYLOAD), serialize(payload), "utf8");
+  console.log(`recorded ${Object.keys(manifest.resources).length} resources to ${dir}`);
+}
+
+async function replay(dir: string, { config, profile }: RunOptions) {
+  const payload = serialize(await buildExposureData({ provider: snapshotProvider(dir), config, profile }));
+  const recorded = await readFile(path.join(dir, PAYLOAD), "utf8").catch(() => null);
+  if (recorded == null) {
+    process.stdout.write(payload);
+    return;
+  }
+  if (recorded !== payload) {
+    console.error(`replay of ${dir} differs from the recorded ${PAYLOAD}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`replay of ${dir} matches the recorded ${PAYLOAD}`);
+}
+
+function takeFlag(args: string[], flag: string): string | undefined {
+  const at = args.indexOf(flag);
+  return at >= 0 ? args.splice(at, 2)[1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const configFile = takeFlag(args, "--config");
+  const ticker = takeFlag(args, "--profile");
+  const [command, dir] = args;
+  if (!dir || (command !== "record" && command !== "replay")) {
+    console.error("usage: snapshot <record|replay> <dir> [--config <file>] [--profile <ticker>]");
+    process.exitCode = 2;
+    return;
+  }
+  const profile = ticker ? profileByTicker(ticker) : DEFAULT_PROFILE;
+  if (!profile) throw new Error(`unknown profile ${ticker}`);
+  const config = configFile ? await loadModelConfig(configFile) : undefined;
+  const run = { config, profile };
+  await (command === "record" ? record(dir, run) : replay(dir, run));
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});